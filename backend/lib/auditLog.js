@@ -0,0 +1,97 @@
+/**
+ * Audit Log Helper
+ * Builds and checks log entries required by the README logging contract:
+ * every change appends { timestamp, step, description, affected_fields } to `logs`
+ */
+
+// Bookkeeping fields that never count as affected fields
+const IGNORED_FIELDS = ["updated_at", "logs"]
+
+function isPlainObject(value) {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+/**
+ * Compute the fields that differ between two objects, in dot notation
+ * Plain objects are compared key by key; arrays and primitives are compared as a whole
+ *
+ * @param {object} before - Object before the change
+ * @param {object} after - Object after the change
+ * @param {string} prefix - Path prefix for nested calls
+ * @returns {string[]} Sorted list of changed field paths (e.g. "onboarding_answers.exclusions")
+ */
+export function diffFields(before, after, prefix = "") {
+  const changed = []
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+
+  for (const key of keys) {
+    if (!prefix && IGNORED_FIELDS.includes(key)) {
+      continue
+    }
+    const path = prefix ? `${prefix}.${key}` : key
+    const a = before?.[key]
+    const b = after?.[key]
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+      changed.push(...diffFields(a, b, path))
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changed.push(path)
+    }
+  }
+
+  return changed.sort()
+}
+
+/**
+ * Create a log entry for a change
+ *
+ * @param {object} before - Object before the change
+ * @param {object} after - Object after the change
+ * @param {string} step - Name of the pipeline step
+ * @param {string} description - Human-readable description
+ * @returns {{timestamp: string, step: string, description: string, affected_fields: string[]}} Log entry
+ */
+export function createLogEntry(before, after, step, description) {
+  return {
+    timestamp: new Date().toISOString(),
+    step,
+    description,
+    affected_fields: diffFields(before, after),
+  }
+}
+
+/**
+ * Check that an update appended exactly one log entry covering every changed field
+ * Existing entries must be unchanged (the log is append-only). An affected field
+ * also covers its children (e.g. "artifacts.scores" covers "artifacts.scores.overall").
+ *
+ * @param {object} before - Stored object
+ * @param {object} after - Object after applying the update
+ * @returns {string|null} Error message, or null if the log is consistent
+ */
+export function verifyLogAppend(before, after) {
+  const previous = before.logs || []
+  const next = after.logs || []
+
+  if (next.length !== previous.length + 1) {
+    return "Every update must append exactly one log entry to logs"
+  }
+
+  if (JSON.stringify(next.slice(0, previous.length)) !== JSON.stringify(previous)) {
+    return "Existing log entries cannot be modified or removed"
+  }
+
+  const entry = next[next.length - 1]
+  if (!Array.isArray(entry?.affected_fields)) {
+    return "Log entry must include affected_fields"
+  }
+
+  const uncovered = diffFields(before, after).filter(
+    (field) => !entry.affected_fields.some((f) => field === f || field.startsWith(`${f}.`))
+  )
+  if (uncovered.length > 0) {
+    return `Log entry affected_fields is missing: ${uncovered.join(", ")}`
+  }
+
+  return null
+}
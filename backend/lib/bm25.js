@@ -0,0 +1,236 @@
+/**
+ * BM25 Lexical Ranking
+ * Ranks document chunks against a message with Okapi BM25, using document-frequency statistics of
+ * the chunks being searched (the selected documents). Text is analyzed the same way for chunks and
+ * messages: Unicode word tokens, lowercased, English stopwords removed, light suffix stemming.
+ * Short tokens are kept, so acronyms like "TRL" and "5G" match; tokens with digits are not stemmed.
+ *
+ * Phrases add to the score: quoted phrases in the message ("solid state battery") and, with a lower
+ * weight, pairs of consecutive message terms found next to each other in a chunk.
+ */
+
+// BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2
+const B = 0.75
+
+// Phrase bonus, as a fraction of the summed IDF of the phrase terms
+const QUOTED_PHRASE_WEIGHT = 1
+const TERM_PAIR_WEIGHT = 0.5
+
+const STOPWORDS = new Set(
+  (
+    "a about above after again against all also am an and any are as at be because been before being below " +
+    "between both but by can could did do does doing down during each few for from further had has have having " +
+    "he her here hers herself him himself his how i if in into is it its itself just let me more most my myself " +
+    "no nor not now of off on once only or other our ours ourselves out over own same she should so some such " +
+    "than that the their theirs them themselves then there these they this those through to too under until up " +
+    "us very was we were what when where which while who whom why will with would you your yours yourself " +
+    "yourselves"
+  ).split(" ")
+)
+
+// Derivational suffixes reduced after plurals and -ing/-ed are removed (longest first)
+const SUFFIXES = [
+  ["ational", "ate"],
+  ["ization", "ize"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["tional", "tion"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["ness", ""],
+  ["ment", ""],
+  ["ly", ""],
+]
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu
+
+function hasVowel(text) {
+  return /[aeiouy]/.test(text)
+}
+
+/**
+ * Reduce an English word to its stem (a light Porter-style stemmer)
+ * Only needs to map inflections of the same word to one form, consistently for chunks and queries.
+ *
+ * @param {string} word - Lowercase word
+ * @returns {string} Stem
+ */
+export function stem(word) {
+  if (word.length <= 3) {
+    return word
+  }
+  let result = word
+
+  // Plurals
+  if (result.endsWith("sses")) {
+    result = result.slice(0, -2)
+  } else if (result.endsWith("ies")) {
+    result = result.slice(0, -3) + "i"
+  } else if (result.endsWith("s") && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1)
+  }
+
+  // -ing / -ed, undoubling the final consonant ("running" -> "run")
+  const inflection = /(ing|ed)$/.exec(result)
+  if (inflection) {
+    let base = result.slice(0, -inflection[0].length)
+    if (base.length < 3 && inflection[0] === "ed") {
+      base = result.slice(0, -1) // "used" -> "use"
+    } else if (base.length < 3 && hasVowel(base)) {
+      base += "e" // "using" -> "use"
+    }
+    if (base.length >= 3 && hasVowel(base)) {
+      if (/([^aeiouylsz])\1$/.test(base)) {
+        base = base.slice(0, -1)
+      }
+      result = base
+    }
+  }
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 4) {
+      result = result.slice(0, -suffix.length) + replacement
+      break
+    }
+  }
+
+  // Final -e and -y ("store"/"stored", "battery"/"batteries")
+  if (result.length > 4 && result.endsWith("e")) {
+    result = result.slice(0, -1)
+  } else if (result.length > 3 && /[^aeiou]y$/.test(result)) {
+    result = result.slice(0, -1) + "i"
+  }
+  return result
+}
+
+/**
+ * Split text into analyzed terms with their positions in the text
+ * Stopwords and single letters are dropped; tokens with digits are lowercased but not stemmed.
+ *
+ * @param {string} text - Text to analyze
+ * @returns {Array<{term: string, start: number, end: number}>} Terms in text order
+ */
+export function analyze(text) {
+  const terms = []
+  for (const match of (text || "").matchAll(TOKEN_PATTERN)) {
+    const token = match[0]
+    const lower = token.toLowerCase()
+    if (STOPWORDS.has(lower) || (token.length === 1 && !/\p{N}/u.test(token))) {
+      continue
+    }
+    const term = /\p{N}/u.test(token) ? lower : stem(lower)
+    terms.push({ term, start: match.index, end: match.index + token.length })
+  }
+  return terms
+}
+
+/**
+ * Parse a message into query terms and phrases
+ *
+ * @param {string} message - User message
+ * @returns {{terms: string[], phrases: Array<{terms: string[], weight: number}>}} Unique terms, and the
+ *   quoted phrases and consecutive term pairs to reward
+ */
+export function parseQuery(message) {
+  const analyzed = analyze(message).map((entry) => entry.term)
+  const phrases = []
+
+  for (const match of (message || "").matchAll(/"([^"]+)"/g)) {
+    const phraseTerms = analyze(match[1]).map((entry) => entry.term)
+    if (phraseTerms.length >= 2) {
+      phrases.push({ terms: phraseTerms, weight: QUOTED_PHRASE_WEIGHT })
+    }
+  }
+  for (let i = 0; i + 1 < analyzed.length; i++) {
+    const pair = [analyzed[i], analyzed[i + 1]]
+    if (pair[0] !== pair[1] && !phrases.some((phrase) => phrase.terms.join(" ") === pair.join(" "))) {
+      phrases.push({ terms: pair, weight: TERM_PAIR_WEIGHT })
+    }
+  }
+
+  return { terms: [...new Set(analyzed)], phrases }
+}
+
+// Count the occurrences of a phrase in a term sequence
+function countPhrase(sequence, phraseTerms) {
+  let count = 0
+  for (let i = 0; i + phraseTerms.length <= sequence.length; i++) {
+    if (phraseTerms.every((term, offset) => sequence[i + offset] === term)) {
+      count++
+    }
+  }
+  return count
+}
+
+/**
+ * Score texts against a query with BM25 plus phrase bonuses
+ * Document frequencies and the average length come from the given texts.
+ *
+ * @param {string[]} texts - Texts to score (the chunks of the selected documents)
+ * @param {{terms: string[], phrases: Array<{terms: string[], weight: number}>}} query - Result of parseQuery
+ * @returns {number[]} Score per text, in input order (0 when no query term occurs)
+ */
+export function scoreBm25(texts, query) {
+  const sequences = texts.map((text) => analyze(text).map((entry) => entry.term))
+  if (sequences.length === 0 || query.terms.length === 0) {
+    return sequences.map(() => 0)
+  }
+
+  const averageLength = sequences.reduce((sum, sequence) => sum + sequence.length, 0) / sequences.length || 1
+  const documentFrequency = new Map(query.terms.map((term) => [term, 0]))
+  const termCounts = sequences.map((sequence) => {
+    const counts = new Map()
+    for (const term of sequence) {
+      if (documentFrequency.has(term)) {
+        counts.set(term, (counts.get(term) || 0) + 1)
+      }
+    }
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, documentFrequency.get(term) + 1)
+    }
+    return counts
+  })
+
+  const idf = new Map(
+    [...documentFrequency].map(([term, df]) => [
+      term,
+      Math.log(1 + (sequences.length - df + 0.5) / (df + 0.5)),
+    ])
+  )
+
+  return sequences.map((sequence, index) => {
+    const counts = termCounts[index]
+    if (counts.size === 0) {
+      return 0
+    }
+    const lengthNorm = K1 * (1 - B + (B * sequence.length) / averageLength)
+    let score = 0
+    for (const [term, tf] of counts) {
+      score += (idf.get(term) * tf * (K1 + 1)) / (tf + lengthNorm)
+    }
+    for (const phrase of query.phrases) {
+      const occurrences = countPhrase(sequence, phrase.terms)
+      if (occurrences > 0) {
+        const phraseIdf = phrase.terms.reduce((sum, term) => sum + (idf.get(term) ?? 0), 0)
+        score += (phrase.weight * phraseIdf * occurrences * (K1 + 1)) / (occurrences + K1)
+      }
+    }
+    return score
+  })
+}
+
+/**
+ * Find the query terms in a text (used to highlight citations)
+ *
+ * @param {string} text - Chunk text content
+ * @param {{terms: string[]}} query - Result of parseQuery
+ * @returns {Array<[number, number]>} Non-overlapping [start, end) ranges within the text, in order
+ */
+export function findTermRanges(text, query) {
+  const terms = new Set(query.terms)
+  return analyze(text)
+    .filter((entry) => terms.has(entry.term))
+    .map((entry) => [entry.start, entry.end])
+}
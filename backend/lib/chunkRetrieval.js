@@ -1,82 +1,73 @@
 /**
  * Chunk Retrieval Helper
- * Retrieves relevant document chunks based on message keywords (MVP without embeddings)
+ * Retrieves relevant document chunks for a message: by nearest-neighbour search over chunk embeddings
+ * in Postgres when ENABLE_EMBEDDINGS is on, otherwise (and for documents uploaded without embeddings)
+ * by BM25 keyword ranking (lib/bm25.js)
  */
 
 import getSupabaseClient from "./supabaseClient.js"
+import { EMBEDDINGS_ENABLED, EMBEDDING_MODEL, embedQuery } from "./embeddings.js"
+import { parseQuery, scoreBm25, findTermRanges } from "./bm25.js"
 
 /**
- * Tokenize message into keywords (words with length >= 4, lowercase, unique)
- * 
- * @param {string} message - User message to tokenize
- * @returns {string[]} Array of unique keywords
+ * Find the documents whose chunks were embedded with the current model
+ *
+ * @param {string[]} docIds - Document IDs
+ * @returns {Promise<Set<string>>} IDs of the embedded documents
  */
-function tokenizeMessage(message) {
-  if (!message || typeof message !== "string") {
-    return []
-  }
+async function findEmbeddedDocuments(docIds) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.from("documents").select("doc_id, metadata_json").in("doc_id", docIds)
 
-  // Extract words, filter by length >= 4, convert to lowercase, get unique
-  const words = message
-    .toLowerCase()
-    .split(/\W+/)
-    .filter((word) => word.length >= 4)
-    .filter((word, index, arr) => arr.indexOf(word) === index) // Get unique
-
-  return words
+  if (error) {
+    throw new Error(`Failed to fetch documents: ${error.message}`)
+  }
+  return new Set(
+    (data || []).filter((row) => row.metadata_json?.embedding_model === EMBEDDING_MODEL).map((row) => row.doc_id)
+  )
 }
 
 /**
- * Score a chunk based on keyword occurrences
- * 
- * @param {string} chunkContent - Chunk text content
- * @param {string[]} keywords - Array of keywords to search for
- * @returns {number} Score (number of keyword matches)
+ * Retrieve the chunks nearest to the message embedding
+ * The search runs in Postgres (match_document_chunks, db/supabase.sql), so only the top chunks are fetched
+ *
+ * @param {string[]} docIds - Embedded documents to search in
+ * @param {string} message - User message
+ * @param {number} topK - Number of chunks to return
+ * @returns {Promise<Array>} Chunks with their cosine similarity, best first
  */
-function scoreChunk(chunkContent, keywords) {
-  if (!chunkContent || !keywords || keywords.length === 0) {
-    return 0
+async function retrieveBySimilarity(docIds, message, topK) {
+  const queryEmbedding = await embedQuery(message)
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase.rpc("match_document_chunks", {
+    query_embedding: queryEmbedding,
+    filter_doc_ids: docIds,
+    match_count: topK,
+  })
+
+  if (error) {
+    throw new Error(`Failed to search chunk embeddings: ${error.message}`)
   }
-
-  const lowerContent = chunkContent.toLowerCase()
-  let score = 0
-
-  for (const keyword of keywords) {
-    // Count occurrences of keyword in chunk
-    const regex = new RegExp(keyword, "gi")
-    const matches = lowerContent.match(regex)
-    if (matches) {
-      score += matches.length
-    }
-  }
-
-  return score
+  return (data || []).map((chunk) => ({ ...chunk, similarity: Math.round(chunk.similarity * 1000) / 1000 }))
 }
 
 /**
  * Retrieve top chunks from documents based on message keywords
- * MVP implementation without embeddings - uses keyword matching
+ * Loads every chunk of the documents and ranks them in Node with BM25 (term statistics across
+ * all chunks of the given documents). Chunks matching no query term are left out.
  * 
- * @param {Object} params - Retrieval parameters
- * @param {string[]} params.docIds - Array of document IDs to search in
- * @param {string} params.message - User message to match against
- * @param {number} params.topK - Number of top chunks to return (default: 12)
- * @returns {Promise<Array<{doc_id: string, chunk_index: number, content: string, metadata_json: object}>>} Array of retrieved chunks
+ * @param {string[]} docIds - Array of document IDs to search in
+ * @param {{terms: string[], phrases: Array}} query - Message parsed by parseQuery
+ * @param {number} topK - Number of top chunks to return
+ * @returns {Promise<Array>} Chunk rows with their bm25 score, best first
  */
-export async function retrieveTopChunks({ docIds, message, topK = 12 }) {
-  if (!docIds || docIds.length === 0) {
+async function retrieveByKeywords(docIds, query, topK) {
+  if (docIds.length === 0) {
     return []
   }
 
-  if (!message || typeof message !== "string") {
-    return []
-  }
-
-  // Tokenize message into keywords
-  const keywords = tokenizeMessage(message)
-
-  // If no keywords found, return empty array
-  if (keywords.length === 0) {
+  // If no query terms found (only stopwords), return empty array
+  if (query.terms.length === 0) {
     return []
   }
 
@@ -100,43 +91,91 @@ export async function retrieveTopChunks({ docIds, message, topK = 12 }) {
       return []
     }
 
-    // Score each chunk based on keyword matches
-    const scoredChunks = allChunks.map((chunk) => ({
-      ...chunk,
-      score: scoreChunk(chunk.content, keywords),
-    }))
+    // Score each chunk with BM25, keeping only chunks that match the query
+    const scores = scoreBm25(allChunks.map((chunk) => chunk.content), query)
+    const scoredChunks = allChunks
+      .map((chunk, index) => ({ ...chunk, bm25: Math.round(scores[index] * 1000) / 1000 }))
+      .filter((chunk) => chunk.bm25 > 0)
 
     // Sort by score descending, then by chunk_index ascending
     scoredChunks.sort((a, b) => {
-      if (b.score !== a.score) {
-        return b.score - a.score
+      if (b.bm25 !== a.bm25) {
+        return b.bm25 - a.bm25
       }
       return a.chunk_index - b.chunk_index
     })
 
-    // Take top K chunks
-    const topChunks = scoredChunks.slice(0, topK)
-
-    // If we don't have enough chunks with scores > 0, fill with remaining chunks by chunk_index
-    if (topChunks.length < topK && scoredChunks.length > topChunks.length) {
-      const remainingChunks = scoredChunks
-        .slice(topK)
-        .filter((chunk) => !topChunks.some((tc) => tc.chunk_pk === chunk.chunk_pk))
-        .slice(0, topK - topChunks.length)
-
-      topChunks.push(...remainingChunks)
-    }
-
-    // Return chunks in the format expected by the API
-    return topChunks.map((chunk) => ({
-      doc_id: chunk.doc_id,
-      chunk_index: chunk.chunk_index,
-      content: chunk.content,
-      metadata_json: chunk.metadata_json || {},
-    }))
+    return scoredChunks.slice(0, topK)
   } catch (error) {
     console.error("[chunkRetrieval] Error retrieving chunks:", error)
     throw error
   }
 }
 
+/**
+ * Merge two ranked lists by taking a chunk from each in turn; when one runs out, the rest of
+ * the other fills the remaining slots
+ */
+function interleave(first, second) {
+  const merged = []
+  for (let i = 0; i < Math.max(first.length, second.length); i++) {
+    if (i < first.length) merged.push(first[i])
+    if (i < second.length) merged.push(second[i])
+  }
+  return merged
+}
+
+/**
+ * Retrieve top chunks from documents for a message
+ * With ENABLE_EMBEDDINGS, documents embedded with the current model are searched by similarity and
+ * the others by keywords; the two ranked lists are interleaved, so a selection mixing both kinds of
+ * documents cites both. The two scores are not comparable, so each
+ * chunk carries the one it was ranked by (similarity or bm25, the other is null). If the embedding
+ * search fails, all documents fall back to keywords.
+ *
+ * @param {Object} params - Retrieval parameters
+ * @param {string[]} params.docIds - Array of document IDs to search in
+ * @param {string} params.message - User message to match against
+ * @param {number} params.topK - Number of top chunks to return (default: 12)
+ * @returns {Promise<Array<{doc_id: string, chunk_index: number, content: string, metadata_json: object, similarity: number|null, bm25: number|null, highlights: Array<[number, number]>}>>} Array of retrieved chunks
+ */
+export async function retrieveTopChunks({ docIds, message, topK = 12 }) {
+  if (!docIds || docIds.length === 0) {
+    return []
+  }
+
+  if (!message || typeof message !== "string") {
+    return []
+  }
+
+  const query = parseQuery(message)
+  let similarityChunks = []
+  let keywordDocIds = docIds
+  if (EMBEDDINGS_ENABLED) {
+    try {
+      const embeddedDocIds = await findEmbeddedDocuments(docIds)
+      if (embeddedDocIds.size > 0) {
+        similarityChunks = await retrieveBySimilarity([...embeddedDocIds], message, topK)
+        keywordDocIds = docIds.filter((docId) => !embeddedDocIds.has(docId))
+      }
+    } catch (error) {
+      console.error("[chunkRetrieval] Embedding search failed, using keywords:", error.message)
+      similarityChunks = []
+      keywordDocIds = docIds
+    }
+  }
+  const keywordChunks = await retrieveByKeywords(keywordDocIds, query, topK)
+  const chunks = interleave(similarityChunks, keywordChunks).slice(0, topK)
+
+  // Return chunks in the format expected by the API
+  return chunks.map((chunk) => ({
+    doc_id: chunk.doc_id,
+    chunk_index: chunk.chunk_index,
+    content: chunk.content,
+    metadata_json: chunk.metadata_json || {},
+    similarity: chunk.similarity ?? null,
+    bm25: chunk.bm25 ?? null,
+    highlights: findTermRanges(chunk.content, query),
+  }))
+}
+
@@ -1,46 +1,230 @@
 /**
  * Text Chunking Helper
  * Splits text into overlapping chunks for embedding and retrieval
+ *
+ * Chunks follow the document's structure: they end on paragraph or sentence boundaries, a section
+ * heading always starts a new chunk, and chunks never span two sections. Each chunk records its
+ * character range, the pages it covers (for paged formats) and the title of its section.
  */
 
+export const DEFAULT_CHUNK_SIZE = 1200
+export const DEFAULT_CHUNK_OVERLAP = 200
+export const MIN_CHUNK_SIZE = 200
+export const MAX_CHUNK_SIZE = 8000
+
+// Longest line treated as a heading
+const MAX_HEADING_CHARS = 120
+
+/**
+ * Check whether a line looks like a section heading
+ * Markdown headings, numbered headings ("2.1 Results") and short all-caps lines
+ */
+function isHeading(line) {
+  const trimmed = line.trim()
+  if (!trimmed || trimmed.length > MAX_HEADING_CHARS) {
+    return false
+  }
+  if (/^#{1,6}\s+\S/.test(trimmed)) {
+    return true
+  }
+  if (/^\d+(\.\d+)*\.?\s+\p{Lu}/u.test(trimmed) && !/[.:;,]$/.test(trimmed) && trimmed.split(/\s+/).length <= 12) {
+    return true
+  }
+  const letters = trimmed.replace(/[^\p{L}]/gu, "")
+  return letters.length >= 3 && letters === letters.toUpperCase() && letters !== letters.toLowerCase()
+}
+
+// Heading text without Markdown markers
+function headingTitle(line) {
+  return line.trim().replace(/^#{1,6}\s+/, "").replace(/\s+#+$/, "")
+}
+
+/**
+ * Split a text range into sentences, hard-splitting sentences longer than maxChars at whitespace
+ * The first piece is limited to firstMaxChars (room left next to a heading).
+ *
+ * @returns {Array<{start: number, end: number}>} Sentence ranges (trailing whitespace excluded)
+ */
+function splitSentences(text, start, end, maxChars, firstMaxChars = maxChars) {
+  const sentences = []
+
+  const addSentence = (sentenceStart, sentenceEnd) => {
+    // Sentences longer than a chunk are cut at the last whitespace before the limit
+    let limit = sentences.length === 0 ? firstMaxChars : maxChars
+    while (sentenceEnd - sentenceStart > limit) {
+      const cut = text.slice(sentenceStart, sentenceStart + limit).search(/\s\S*$/)
+      const pieceEnd = sentenceStart + (cut > 0 ? cut : limit)
+      sentences.push({ start: sentenceStart, end: pieceEnd })
+      sentenceStart = pieceEnd
+      while (sentenceStart < sentenceEnd && /\s/.test(text[sentenceStart])) sentenceStart++
+      limit = maxChars
+    }
+    if (sentenceStart < sentenceEnd) {
+      sentences.push({ start: sentenceStart, end: sentenceEnd })
+    }
+  }
+
+  // Sentence ends: terminal punctuation (with closing quotes or brackets) followed by whitespace
+  const boundary = /[.!?]+["')\]]*\s+/g
+  const paragraph = text.slice(start, end)
+  let sentenceStart = 0
+  let match
+  while ((match = boundary.exec(paragraph)) !== null) {
+    addSentence(start + sentenceStart, start + match.index + match[0].trimEnd().length)
+    sentenceStart = match.index + match[0].length
+  }
+  addSentence(start + sentenceStart, end)
+  return sentences
+}
+
+/**
+ * Split text into structural units: headings, whole paragraphs, and the sentences of
+ * paragraphs too long for one chunk. The first unit after headings leaves room for them,
+ * since they open the same chunk.
+ *
+ * @returns {Array<{start: number, end: number, heading: string|null}>}
+ */
+function splitUnits(text, maxChars) {
+  const units = []
+  let headingStart = null // Start of the headings waiting for their first paragraph
+  const paragraphPattern = /\S[\s\S]*?(?=\n[ \t]*\n|$)/g
+  let match
+  while ((match = paragraphPattern.exec(text)) !== null) {
+    let start = match.index
+    const end = match.index + match[0].trimEnd().length
+
+    // Leading heading lines (PDF text often runs a heading into its paragraph)
+    let lineEnd = text.indexOf("\n", start)
+    while (start < end) {
+      const headingEnd = lineEnd === -1 || lineEnd > end ? end : lineEnd
+      const line = text.slice(start, headingEnd)
+      if (!isHeading(line)) break
+      if (headingStart === null) headingStart = start
+      units.push({ start, end: start + line.trimEnd().length, heading: headingTitle(line) })
+      start = headingEnd
+      while (start < end && /\s/.test(text[start])) start++
+      lineEnd = text.indexOf("\n", start)
+    }
+    if (start >= end) continue
+
+    // Never leave less than half a chunk for text under a long run of headings
+    const firstMaxChars = headingStart === null ? maxChars : Math.max(maxChars - (start - headingStart), Math.floor(maxChars / 2))
+    headingStart = null
+    if (end - start <= firstMaxChars) {
+      units.push({ start, end, heading: null })
+    } else {
+      for (const sentence of splitSentences(text, start, end, maxChars, firstMaxChars)) {
+        units.push({ ...sentence, heading: null })
+      }
+    }
+  }
+  return units
+}
+
 /**
  * Split text into chunks with overlap
- * 
+ * Overlap repeats whole trailing sentences or paragraphs of the previous chunk (up to overlapChars)
+ * within the same section.
+ *
  * @param {string} text - Text to chunk
- * @param {number} chunkSizeChars - Maximum characters per chunk (default: 1200)
- * @param {number} overlapChars - Number of overlapping characters between chunks (default: 200)
- * @returns {Array<{content: string, char_start: number, char_end: number}>} Array of chunks with metadata
+ * @param {object} [options]
+ * @param {number} [options.chunkSizeChars] - Maximum characters per chunk (default: 1200)
+ * @param {number} [options.overlapChars] - Maximum overlapping characters between chunks (default: 200)
+ * @param {Array<{page: number, char_start: number, char_end: number}>|null} [options.pages] - Page ranges from the extractor
+ * @returns {Array<{content: string, char_start: number, char_end: number, page_start: number|null, page_end: number|null, section: string|null}>} Array of chunks with metadata
  */
-export function splitIntoChunks(text, chunkSizeChars = 1200, overlapChars = 200) {
+export function splitIntoChunks(
+  text,
+  { chunkSizeChars = DEFAULT_CHUNK_SIZE, overlapChars = DEFAULT_CHUNK_OVERLAP, pages = null } = {}
+) {
   if (!text || text.length === 0) {
     return []
   }
 
   const chunks = []
-  let startIndex = 0
-
-  while (startIndex < text.length) {
-    const endIndex = Math.min(startIndex + chunkSizeChars, text.length)
-    const chunkContent = text.substring(startIndex, endIndex)
-
-    // Only add non-empty chunks
-    if (chunkContent.trim().length > 0) {
-      chunks.push({
-        content: chunkContent,
-        char_start: startIndex,
-        char_end: endIndex,
-      })
+  let section = null
+  let current = [] // Units in the chunk being built
+  let hasContent = false // Whether the current chunk has more than headings and overlap
+
+  const flush = () => {
+    if (!hasContent) return
+    const charStart = current[0].start
+    const charEnd = current[current.length - 1].end
+    const covered = (pages || []).filter((page) => page.char_start < charEnd && page.char_end > charStart)
+    chunks.push({
+      content: text.slice(charStart, charEnd),
+      char_start: charStart,
+      char_end: charEnd,
+      page_start: covered.length > 0 ? covered[0].page : null,
+      page_end: covered.length > 0 ? covered[covered.length - 1].page : null,
+      section,
+    })
+  }
+
+  for (const unit of splitUnits(text, chunkSizeChars)) {
+    // A heading closes the current chunk and starts a new section
+    if (unit.heading !== null) {
+      if (hasContent) {
+        flush()
+        current = []
+        hasContent = false
+      } else if (current.some((u) => u.heading === null)) {
+        current = [] // Drop overlap carried into a section with no content of its own
+      }
+      current.push(unit)
+      section = unit.heading
+      continue
     }
 
-    // Move start index forward by chunk size minus overlap
-    startIndex = endIndex - overlapChars
+    if (current.length > 0 && hasContent && unit.end - current[0].start > chunkSizeChars) {
+      flush()
+      // Carry trailing units of the closed chunk as overlap
+      const overlap = []
+      let overlapLength = 0
+      for (let i = current.length - 1; i >= 0 && current[i].heading === null; i--) {
+        overlapLength += current[i].end - current[i].start
+        if (overlapLength > overlapChars || unit.end - current[i].start > chunkSizeChars) break
+        overlap.unshift(current[i])
+      }
+      current = overlap
+      hasContent = false
+    }
 
-    // Prevent infinite loop if overlap is too large
-    if (startIndex <= chunks[chunks.length - 1]?.char_start || startIndex < 0) {
-      startIndex = endIndex
+    // Headings that leave no room for the text are left out of the chunk (the section is kept)
+    while (!hasContent && current.length > 0 && current[0].heading !== null && unit.end - current[0].start > chunkSizeChars) {
+      current.shift()
     }
+
+    current.push(unit)
+    hasContent = true
+  }
+  // A text made only of headings is still kept as one chunk
+  if (chunks.length === 0 && current.length > 0) {
+    hasContent = true
   }
+  flush()
 
   return chunks
 }
 
+/**
+ * Parse the chunking options of an upload (multipart fields chunk_size and chunk_overlap)
+ * Missing fields use the defaults; overlap must be smaller than half the chunk size
+ *
+ * @param {{chunk_size?: string, chunk_overlap?: string}} fields - Upload form fields
+ * @returns {{options?: {chunkSizeChars: number, overlapChars: number}, error?: string}}
+ */
+export function parseChunkingOptions({ chunk_size, chunk_overlap }) {
+  const chunkSizeChars = chunk_size === undefined || chunk_size === "" ? DEFAULT_CHUNK_SIZE : Number(chunk_size)
+  if (!Number.isInteger(chunkSizeChars) || chunkSizeChars < MIN_CHUNK_SIZE || chunkSizeChars > MAX_CHUNK_SIZE) {
+    return { error: `chunk_size must be an integer between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}` }
+  }
+  const overlapChars =
+    chunk_overlap === undefined || chunk_overlap === ""
+      ? Math.min(DEFAULT_CHUNK_OVERLAP, Math.floor(chunkSizeChars / 4))
+      : Number(chunk_overlap)
+  if (!Number.isInteger(overlapChars) || overlapChars < 0 || overlapChars >= chunkSizeChars / 2) {
+    return { error: "chunk_overlap must be a non-negative integer smaller than half of chunk_size" }
+  }
+  return { options: { chunkSizeChars, overlapChars } }
+}
@@ -0,0 +1,197 @@
+/**
+ * Document Store Helper
+ * Reads uploaded documents (`documents` table) and their chunks (`document_chunks` table)
+ */
+
+import getSupabaseClient from "./supabaseClient.js"
+
+/**
+ * List the documents uploaded in a session
+ *
+ * @param {string} sessionId - Session identifier (stored in documents.metadata_json.session_id)
+ * @returns {Promise<object[]>} Document rows, oldest first
+ */
+export async function fetchSessionDocuments(sessionId) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("documents")
+    .select("*")
+    .eq("metadata_json->>session_id", sessionId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch documents: ${error.message}`)
+  }
+  return data || []
+}
+
+/**
+ * Fetch every chunk of the given documents
+ *
+ * @param {string[]} docIds - Document IDs
+ * @returns {Promise<Array<{doc_id: string, chunk_index: number, content: string, metadata_json: object}>>} Chunks ordered by document and index
+ */
+export async function fetchChunks(docIds) {
+  if (!docIds || docIds.length === 0) {
+    return []
+  }
+
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("document_chunks")
+    .select("doc_id, chunk_index, content, metadata_json")
+    .in("doc_id", docIds)
+    .order("doc_id", { ascending: true })
+    .order("chunk_index", { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch chunks: ${error.message}`)
+  }
+  return (data || []).map((chunk) => ({ ...chunk, metadata_json: chunk.metadata_json || {} }))
+}
+
+/**
+ * Fetch a single chunk
+ *
+ * @param {string} docId - Document ID
+ * @param {number} chunkIndex - Chunk index within the document
+ * @returns {Promise<object|null>} Chunk, or null if it does not exist
+ */
+export async function fetchChunk(docId, chunkIndex) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("document_chunks")
+    .select("doc_id, chunk_index, content, metadata_json")
+    .eq("doc_id", docId)
+    .eq("chunk_index", chunkIndex)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch chunk: ${error.message}`)
+  }
+  return data ? { ...data, metadata_json: data.metadata_json || {} } : null
+}
+
+/**
+ * Look up the file names of documents
+ *
+ * @param {string[]} docIds - Document IDs
+ * @returns {Promise<Map<string, string|null>>} doc_id -> file_name (unknown documents are left out)
+ */
+export async function fetchDocumentNames(docIds) {
+  if (!docIds || docIds.length === 0) {
+    return new Map()
+  }
+
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("documents")
+    .select("doc_id, file_name")
+    .in("doc_id", docIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch documents: ${error.message}`)
+  }
+  return new Map((data || []).map((document) => [document.doc_id, document.file_name || null]))
+}
+
+/**
+ * Fetch a document row by ID
+ *
+ * @param {string} docId - Document ID
+ * @returns {Promise<object|null>} Document row, or null if it does not exist
+ */
+export async function fetchDocument(docId) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("documents")
+    .select("*")
+    .eq("doc_id", docId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch document: ${error.message}`)
+  }
+  return data || null
+}
+
+/**
+ * Count the chunks of each document
+ *
+ * @param {string[]} docIds - Document IDs
+ * @returns {Promise<Map<string, number>>} doc_id -> number of chunks
+ */
+export async function countChunks(docIds) {
+  const supabase = getSupabaseClient()
+  const counts = await Promise.all(
+    (docIds || []).map(async (docId) => {
+      const { count, error } = await supabase
+        .from("document_chunks")
+        .select("doc_id", { count: "exact", head: true })
+        .eq("doc_id", docId)
+
+      if (error) {
+        throw new Error(`Failed to count chunks: ${error.message}`)
+      }
+      return [docId, count ?? 0]
+    })
+  )
+  return new Map(counts)
+}
+
+/**
+ * Summarize a document row for the document library
+ * text_extraction is the state recorded by the upload ("ocr" when scanned pages were OCR'd,
+ * "failed_or_empty"), "ok" once the document is chunked, or null while it is unknown
+ *
+ * @param {object} row - `documents` row
+ * @param {number} chunksCount - Number of stored chunks
+ */
+export function summarizeDocument(row, chunksCount) {
+  const metadata = row.metadata_json || {}
+  return {
+    doc_id: row.doc_id,
+    file_name: row.file_name,
+    mime_type: row.mime_type,
+    status: row.status,
+    created_at: row.created_at,
+    session_id: metadata.session_id ?? null,
+    size_bytes: metadata.size_bytes ?? null,
+    chunks_count: chunksCount,
+    text_extraction: metadata.text_extraction || (row.status === "chunked" ? "ok" : null),
+    ocr_pages: metadata.ocr_pages?.length ?? 0,
+    ocr_confidence: metadata.ocr_confidence ?? null,
+    embedding_model: metadata.embedding_model || null,
+    chunk_error: metadata.chunk_error || null,
+  }
+}
+
+/**
+ * Delete a document with its chunks and its storage object
+ * The rows are deleted in one transaction (delete_document, db/supabase.sql); the storage object
+ * is removed last, so a failure there leaves an orphaned file rather than a half-deleted document.
+ *
+ * @param {object} document - `documents` row
+ * @param {string} bucket - Supabase Storage bucket holding the original file
+ * @returns {Promise<{chunks_deleted: number, storage_deleted: boolean}>}
+ */
+export async function deleteDocument(document, bucket) {
+  const supabase = getSupabaseClient()
+
+  const { data: chunksDeleted, error } = await supabase.rpc("delete_document", { target_doc_id: document.doc_id })
+  if (error) {
+    throw new Error(`Failed to delete document: ${error.message}`)
+  }
+
+  let storageDeleted = false
+  if (document.storage_path && bucket) {
+    const { error: storageError } = await supabase.storage.from(bucket).remove([document.storage_path])
+    if (storageError) {
+      console.warn("[documentStore] Failed to delete storage object", document.storage_path, storageError.message)
+    } else {
+      storageDeleted = true
+    }
+  }
+
+  return { chunks_deleted: chunksDeleted ?? 0, storage_deleted: storageDeleted }
+}
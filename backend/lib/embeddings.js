@@ -0,0 +1,81 @@
+/**
+ * Chunk Embeddings
+ * Computes sentence embeddings with a local transformers.js model (ONNX runtime in Node, no API calls)
+ * so chunks can be retrieved by nearest-neighbour search in Postgres (pgvector, see db/supabase.sql).
+ *
+ * Configured with ENABLE_EMBEDDINGS (default false), EMBEDDING_MODEL (default Xenova/all-MiniLM-L6-v2,
+ * 384 dimensions, fetched from the Hugging Face hub once and cached) and EMBEDDING_MODEL_DIR (directory
+ * with pre-downloaded models; when set, models are only loaded from there).
+ */
+
+export const EMBEDDINGS_ENABLED = process.env.ENABLE_EMBEDDINGS === "true"
+export const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || "Xenova/all-MiniLM-L6-v2"
+// Must match the vector column size in db/supabase.sql
+export const EMBEDDING_DIMENSIONS = 384
+
+const EMBEDDING_MODEL_DIR = process.env.EMBEDDING_MODEL_DIR || ""
+const EMBEDDING_BATCH_SIZE = 16
+
+let extractorPromise = null
+
+/**
+ * Load the feature extraction pipeline once (lazy, shared by all requests)
+ */
+function getExtractor() {
+  if (!extractorPromise) {
+    extractorPromise = (async () => {
+      const { pipeline, env } = await import("@huggingface/transformers")
+      if (EMBEDDING_MODEL_DIR) {
+        env.localModelPath = EMBEDDING_MODEL_DIR
+        env.allowRemoteModels = false
+      }
+      console.log("[embeddings] Loading model", EMBEDDING_MODEL)
+      return pipeline("feature-extraction", EMBEDDING_MODEL)
+    })().catch((error) => {
+      // Allow a later call to retry (e.g. after the model becomes reachable)
+      extractorPromise = null
+      throw error
+    })
+  }
+  return extractorPromise
+}
+
+/**
+ * Replace the feature extraction pipeline (tests use a fake that needs no model)
+ *
+ * @param {Function|null} extractor - Pipeline to use, or null to load EMBEDDING_MODEL again
+ */
+export function setEmbeddingExtractor(extractor) {
+  extractorPromise = extractor ? Promise.resolve(extractor) : null
+}
+
+/**
+ * Embed texts (mean-pooled, L2-normalized, so cosine distance ranks them)
+ *
+ * @param {string[]} texts - Texts to embed
+ * @returns {Promise<number[][]>} One EMBEDDING_DIMENSIONS vector per text
+ * @throws {Error} If the model cannot be loaded or returns vectors of another size
+ */
+export async function embedTexts(texts) {
+  const extractor = await getExtractor()
+  const vectors = []
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const output = await extractor(texts.slice(i, i + EMBEDDING_BATCH_SIZE), { pooling: "mean", normalize: true })
+    vectors.push(...output.tolist())
+  }
+  if (vectors.some((vector) => vector.length !== EMBEDDING_DIMENSIONS)) {
+    throw new Error(`${EMBEDDING_MODEL} does not produce ${EMBEDDING_DIMENSIONS}-dimension embeddings`)
+  }
+  return vectors
+}
+
+/**
+ * Embed a single query
+ *
+ * @param {string} text - Query text
+ * @returns {Promise<number[]>} Query vector
+ */
+export async function embedQuery(text) {
+  const [vector] = await embedTexts([text])
+  return vector
+}
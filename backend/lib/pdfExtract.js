@@ -2,29 +2,28 @@
  * PDF Text Extraction Helper
  * Extracts text content from PDF files using pdf-parse library
  * 
- * Note: pdf-parse is a CommonJS module, so we use dynamic import for ESM compatibility
+ * Note: pdf-parse v2 exposes a PDFParse class; it is loaded with a dynamic import so a broken
+ * install only disables PDF text extraction
  */
 
 /**
- * Extract text content from a PDF buffer
+ * Extract the text layer of each page of a PDF buffer
  * 
  * @param {Buffer} pdfBuffer - PDF file as Buffer
- * @returns {Promise<string>} Extracted text content (empty string if extraction fails)
+ * @returns {Promise<Array<{page: number, text: string}>>} Text per page (empty array if extraction fails)
  */
-export async function extractTextFromPdf(pdfBuffer) {
+export async function extractPdfPages(pdfBuffer) {
+  let parser = null
   try {
-    // Use dynamic import to load pdf-parse (CommonJS module) in ESM context
-    const pdfParseModule = await import("pdf-parse")
-    // pdf-parse exports a default function, access it via .default
-    const pdfParse = pdfParseModule.default || pdfParseModule
-    
-    // pdf-parse returns a promise that resolves to { text, ... }
-    const data = await pdfParse(pdfBuffer)
-    return data.text || ""
+    const { PDFParse } = await import("pdf-parse")
+    parser = new PDFParse({ data: pdfBuffer })
+    const result = await parser.getText()
+    return result.pages.map((page) => ({ page: page.num, text: page.text || "" }))
   } catch (error) {
-    // Return empty string instead of throwing - allows PDF upload without text extraction
+    // Return no pages instead of throwing - allows PDF upload without text extraction
     console.warn("[pdfExtract] Failed to extract text from PDF:", error.message)
-    return ""
+    return []
+  } finally {
+    await parser?.destroy().catch(() => {})
   }
 }
-
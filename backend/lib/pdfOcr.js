@@ -0,0 +1,86 @@
+/**
+ * PDF OCR Fallback
+ * Recognizes the text of scanned (image-only) PDF pages locally: pages are rendered with pdf-parse
+ * and read by tesseract.js with the bundled English model, so no network access is needed.
+ *
+ * Configured with ENABLE_OCR (default true), OCR_MIN_PAGE_CHARS (pages whose text layer has fewer
+ * non-whitespace characters are OCR'd, default 20) and OCR_MAX_PAGES (default 50).
+ */
+
+import { createRequire } from "module"
+import path from "path"
+
+const require = createRequire(import.meta.url)
+
+export const OCR_ENABLED = process.env.ENABLE_OCR !== "false"
+const OCR_MIN_PAGE_CHARS = Number(process.env.OCR_MIN_PAGE_CHARS || 20)
+const OCR_MAX_PAGES = Number(process.env.OCR_MAX_PAGES || 50)
+
+// Render scale for OCR (PDF points at 72 dpi, so 2 is about 144 dpi)
+const OCR_RENDER_SCALE = 2
+
+/**
+ * Check whether a page's text layer is too thin to use, so the page should be OCR'd
+ */
+export function needsOcr(pageText) {
+  return pageText.replace(/\s/g, "").length < OCR_MIN_PAGE_CHARS
+}
+
+/**
+ * OCR pages of a PDF
+ * Pages beyond OCR_MAX_PAGES are skipped; a page that fails to render or recognize is left out
+ *
+ * @param {Buffer} pdfBuffer - PDF file as Buffer
+ * @param {number[]} pageNumbers - 1-based pages to OCR
+ * @returns {Promise<Map<number, {text: string, confidence: number}>>} Text and mean word confidence (0-100) per page
+ */
+export async function ocrPdfPages(pdfBuffer, pageNumbers) {
+  const results = new Map()
+  if (!OCR_ENABLED || pageNumbers.length === 0) {
+    return results
+  }
+
+  const pages = pageNumbers.slice(0, OCR_MAX_PAGES)
+  if (pages.length < pageNumbers.length) {
+    console.warn(`[pdfOcr] OCR limited to the first ${OCR_MAX_PAGES} of ${pageNumbers.length} scanned pages`)
+  }
+
+  let parser = null
+  let worker = null
+  try {
+    const { PDFParse } = await import("pdf-parse")
+    const { createWorker } = await import("tesseract.js")
+    parser = new PDFParse({ data: pdfBuffer })
+    worker = await createWorker("eng", 1, {
+      // Local model from @tesseract.js-data/eng instead of the default CDN
+      langPath: path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0_best_int"),
+      gzip: true,
+      cacheMethod: "none",
+    })
+
+    // One page at a time to keep rendered images out of memory
+    for (const pageNumber of pages) {
+      try {
+        const screenshot = await parser.getScreenshot({
+          partial: [pageNumber],
+          scale: OCR_RENDER_SCALE,
+          imageBuffer: true,
+          imageDataUrl: false,
+        })
+        const image = screenshot.pages[0]?.data
+        if (!image) continue
+        const { data } = await worker.recognize(Buffer.from(image))
+        results.set(pageNumber, { text: (data.text || "").trim(), confidence: Math.round(data.confidence) })
+      } catch (error) {
+        console.warn(`[pdfOcr] Failed to OCR page ${pageNumber}:`, error.message)
+      }
+    }
+  } catch (error) {
+    // OCR is a fallback - the upload continues with the text layer only
+    console.warn("[pdfOcr] OCR unavailable:", error.message)
+  } finally {
+    await worker?.terminate().catch(() => {})
+    await parser?.destroy().catch(() => {})
+  }
+  return results
+}
@@ -0,0 +1,457 @@
+/**
+ * Evaluation Report
+ * Renders a session and its VUK as a stakeholder report: technology summary, onboarding
+ * answers, classification, TRL with cited evidence excerpts, scores and the audit log
+ *
+ * buildReport() produces a format-neutral list of sections; renderMarkdown(), renderHtml()
+ * and renderPdf() render the same sections, so the three exports never drift apart.
+ * PDFs are generated locally with pdfkit (no external service) and embed DejaVu Sans, so
+ * Hebrew, Greek, Cyrillic and other non-Latin text renders (Helvetica only covers WinAnsi).
+ */
+
+import { readFileSync } from "fs"
+import { createRequire } from "module"
+import path from "path"
+import PDFDocument from "pdfkit"
+import { fetchChunk, fetchDocumentNames } from "./documentStore.js"
+import { parseEvidenceRef } from "./trlAssessment.js"
+
+const require = createRequire(import.meta.url)
+
+// Unicode fonts embedded in PDFs, from the dejavu-fonts-ttf package
+const PDF_FONT_FILES = {
+  regular: "DejaVuSans.ttf",
+  bold: "DejaVuSans-Bold.ttf",
+  italic: "DejaVuSans-Oblique.ttf",
+  boldItalic: "DejaVuSans-BoldOblique.ttf",
+}
+
+// Built-in fonts used if the TTF files are missing (Latin text only)
+const STANDARD_PDF_FONTS = {
+  regular: "Helvetica",
+  bold: "bold",
+  italic: "italic",
+  boldItalic: "boldItalic",
+}
+
+let pdfFonts = null
+
+export const REPORT_FORMATS = {
+  md: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+  pdf: { contentType: "application/pdf", extension: "pdf" },
+}
+
+// Onboarding answers in wizard order (src/lib/onboarding.ts)
+const ONBOARDING_LABELS = {
+  scientific_basis: "Scientific basis",
+  primary_applications: "Primary applications",
+  secondary_applications: "Secondary applications",
+  exclusions: "Exclusions",
+  example_entities: "Example entities",
+  deployment_layer: "Deployment layer",
+  strategic_focus: "Strategic focus",
+}
+
+// Characters of chunk content shown around a cited passage
+const EXCERPT_CONTEXT_CHARS = 120
+
+function formatValue(value) {
+  if (value === null || value === undefined || value === "") return "—"
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—"
+  if (typeof value === "number") return String(Math.round(value * 10) / 10)
+  return String(value)
+}
+
+function formatPath(levels) {
+  return levels.filter(Boolean).join(" › ") || "—"
+}
+
+/**
+ * Resolve TRL evidence refs into excerpts of their document chunks
+ * Refs that are malformed or no longer resolve are kept with an empty excerpt.
+ *
+ * @param {string[]} refs - vuk.trl.evidence_refs
+ * @returns {Promise<Array<{ref: string, file_name: string|null, passage: string, before: string, after: string}>>}
+ */
+export async function collectEvidence(refs) {
+  const parsed = (refs || []).map((ref) => ({ ref, parsed: parseEvidenceRef(ref) }))
+  const names = await fetchDocumentNames([...new Set(parsed.filter((e) => e.parsed).map((e) => e.parsed.doc_id))])
+
+  const evidence = []
+  for (const { ref, parsed: location } of parsed) {
+    const chunk = location ? await fetchChunk(location.doc_id, location.chunk_index) : null
+    if (!chunk) {
+      evidence.push({ ref, file_name: null, passage: "", before: "", after: "" })
+      continue
+    }
+    const content = chunk.content || ""
+    evidence.push({
+      ref,
+      file_name: names.get(location.doc_id) ?? null,
+      passage: content.slice(location.char_start, location.char_end),
+      before: content.slice(Math.max(0, location.char_start - EXCERPT_CONTEXT_CHARS), location.char_start),
+      after: content.slice(location.char_end, location.char_end + EXCERPT_CONTEXT_CHARS),
+    })
+  }
+  return evidence
+}
+
+/**
+ * Build the report sections
+ * Blocks: { type: "fields", rows: [[label, value]] }, { type: "paragraph", text },
+ * { type: "quote", text, before, after, source }, { type: "table", header, rows }
+ *
+ * @param {object} session - Session
+ * @param {object|null} vuk - VUK created from the session, if any
+ * @param {Array} evidence - Result of collectEvidence(vuk.trl.evidence_refs)
+ * @returns {{title: string, subtitle: string, generated_at: string, sections: Array<{title: string, blocks: Array}>}}
+ */
+export function buildReport(session, vuk, evidence = []) {
+  const sections = []
+
+  // Technology summary
+  const technologyRows = [
+    ["Session", session.session_id],
+    ["Session status", session.status],
+    ["Initial description", session.raw_input.initial_description],
+  ]
+  if (vuk) {
+    technologyRows.push(
+      ["VUK", vuk.vuk_id],
+      ["VUK status", vuk.audit.approved ? `${vuk.status} (by ${vuk.audit.approved_by}, ${vuk.audit.approved_at})` : vuk.status],
+      ["Name", vuk.technology.name],
+      ["One-liner", vuk.technology.one_liner],
+      ["Keywords", vuk.technology.keywords],
+      ["Exclusions", vuk.technology.exclusions]
+    )
+  }
+  const technologyBlocks = [{ type: "fields", rows: technologyRows.map(([label, value]) => [label, formatValue(value)]) }]
+  if (vuk?.technology.description) {
+    technologyBlocks.push({ type: "paragraph", text: vuk.technology.description })
+  }
+  sections.push({ title: "Technology", blocks: technologyBlocks })
+
+  // Onboarding answers
+  sections.push({
+    title: "Onboarding answers",
+    blocks: [
+      {
+        type: "fields",
+        rows: Object.entries(ONBOARDING_LABELS).map(([field, label]) => [label, formatValue(session.onboarding_answers[field])]),
+      },
+    ],
+  })
+
+  // Classification
+  const selected = session.classification.selected
+  const classificationRows = [["Selected", `${formatPath([selected.l1, selected.l2, selected.l3])} (${formatValue(selected.node_id)})`]]
+  if (vuk) {
+    const { l1, l2, l3, node_id } = vuk.taxonomy
+    classificationRows.push(["VUK taxonomy", `${formatPath([l1, l2, l3])} (${formatValue(node_id)})`])
+  }
+  const classificationBlocks = [{ type: "fields", rows: classificationRows }]
+  const candidates = [...(session.classification.taxonomy_candidates || [])].sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+  if (candidates.length > 0) {
+    classificationBlocks.push({
+      type: "table",
+      header: ["Candidate", "Path", "Score", "Rationale"],
+      rows: candidates.map((c) => [c.node_id, formatPath([c.l1, c.l2, c.l3]), formatValue(c.score), formatValue(c.rationale)]),
+    })
+  }
+  sections.push({ title: "Classification", blocks: classificationBlocks })
+
+  // TRL with cited evidence
+  if (vuk) {
+    const trlBlocks = [
+      {
+        type: "fields",
+        rows: [
+          ["TRL", formatValue(vuk.trl.value)],
+          ["Confidence", formatValue(vuk.confidence.value)],
+        ],
+      },
+    ]
+    if (vuk.trl.rationale) trlBlocks.push({ type: "paragraph", text: vuk.trl.rationale })
+    if (vuk.confidence.rationale) trlBlocks.push({ type: "paragraph", text: `Confidence: ${vuk.confidence.rationale}` })
+    for (const item of evidence) {
+      trlBlocks.push({
+        type: "quote",
+        text: item.passage || "(passage not available)",
+        before: item.before,
+        after: item.after,
+        source: item.file_name ? `${item.file_name} — ${item.ref}` : item.ref,
+      })
+    }
+    sections.push({ title: "TRL", blocks: trlBlocks })
+  }
+
+  // Scores (engine result, see scoring.js)
+  const scores = session.artifacts.scores
+  if (scores && typeof scores.engine_version === "string" && scores.dimensions) {
+    sections.push({
+      title: "Scores",
+      blocks: [
+        {
+          type: "fields",
+          rows: [
+            ["Overall", formatValue(scores.overall)],
+            ["Weights version", formatValue(scores.inputs?.weights?.version)],
+            ["Engine version", scores.engine_version],
+            ["Computed at", formatValue(scores.computed_at)],
+            ["Inputs hash", formatValue(scores.inputs_hash)],
+          ],
+        },
+        {
+          type: "table",
+          header: ["Dimension", "Score", "Weight", "Effective weight", "Missing metrics"],
+          rows: Object.entries(scores.dimensions).map(([name, d]) => [
+            name,
+            formatValue(d.score),
+            formatValue(d.weight),
+            d.effective_weight === null ? "—" : String(d.effective_weight),
+            formatValue(d.missing_metrics),
+          ]),
+        },
+      ],
+    })
+  } else {
+    sections.push({ title: "Scores", blocks: [{ type: "paragraph", text: "No scores computed yet." }] })
+  }
+
+  // Audit log (session and VUK entries, oldest first)
+  const entries = [
+    ...(session.logs || []).map((entry) => ({ ...entry, source: "session" })),
+    ...(vuk?.logs || []).map((entry) => ({ ...entry, source: "vuk" })),
+  ].sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)))
+  sections.push({
+    title: "Audit log",
+    blocks: [
+      {
+        type: "table",
+        header: ["Timestamp", "Source", "Step", "Description", "Fields"],
+        rows: entries.map((e) => [e.timestamp, e.source, e.step, formatValue(e.description), formatValue(e.affected_fields)]),
+      },
+    ],
+  })
+
+  return {
+    title: `Evaluation report: ${vuk?.technology.name || session.raw_input.initial_description || session.session_id}`,
+    subtitle: vuk ? `Session ${session.session_id} · VUK ${vuk.vuk_id}` : `Session ${session.session_id}`,
+    generated_at: new Date().toISOString(),
+    sections,
+  }
+}
+
+function escapeMarkdownCell(value) {
+  return String(value).replace(/\|/g, "\\|").replace(/\n/g, " ")
+}
+
+/**
+ * Render a report as Markdown
+ */
+export function renderMarkdown(report) {
+  const lines = [`# ${report.title}`, "", `${report.subtitle} · generated ${report.generated_at}`, ""]
+
+  for (const section of report.sections) {
+    lines.push(`## ${section.title}`, "")
+    for (const block of section.blocks) {
+      if (block.type === "fields") {
+        for (const [label, value] of block.rows) lines.push(`- **${label}:** ${value}`)
+      } else if (block.type === "paragraph") {
+        lines.push(block.text)
+      } else if (block.type === "quote") {
+        lines.push(`> …${block.before}**${block.text}**${block.after}…`.replace(/\n/g, " "), ">", `> — ${block.source}`)
+      } else if (block.type === "table") {
+        lines.push(`| ${block.header.join(" | ")} |`, `| ${block.header.map(() => "---").join(" | ")} |`)
+        for (const row of block.rows) lines.push(`| ${row.map(escapeMarkdownCell).join(" | ")} |`)
+      }
+      lines.push("")
+    }
+  }
+
+  return lines.join("\n")
+}
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; max-width: 900px; margin: 2rem auto; padding: 0 1rem; line-height: 1.45; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.2rem; }
+  h2 { font-size: 1.15rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.2rem; margin-top: 2rem; break-after: avoid; }
+  .meta { color: #6b7280; font-size: 0.85rem; }
+  dl { display: grid; grid-template-columns: 12rem 1fr; gap: 0.25rem 1rem; font-size: 0.9rem; }
+  dt { color: #6b7280; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.8rem; margin: 0.5rem 0; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  tr { break-inside: avoid; }
+  blockquote { margin: 0.75rem 0; padding: 0.5rem 0.75rem; border-left: 3px solid #93c5fd; background: #f9fafb; font-size: 0.85rem; break-inside: avoid; }
+  blockquote .context { color: #6b7280; }
+  blockquote mark { background: #fef08a; }
+  blockquote footer { color: #6b7280; font-size: 0.75rem; margin-top: 0.25rem; }
+  @media print { body { margin: 0; max-width: none; } }
+`
+
+/**
+ * Render a report as a standalone, printable HTML page
+ */
+export function renderHtml(report) {
+  const body = report.sections
+    .map((section) => {
+      const blocks = section.blocks
+        .map((block) => {
+          if (block.type === "fields") {
+            return `<dl>${block.rows.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join("")}</dl>`
+          }
+          if (block.type === "paragraph") {
+            return `<p>${escapeHtml(block.text)}</p>`
+          }
+          if (block.type === "quote") {
+            return (
+              `<blockquote><span class="context">…${escapeHtml(block.before)}</span><mark>${escapeHtml(block.text)}</mark>` +
+              `<span class="context">${escapeHtml(block.after)}…</span><footer>${escapeHtml(block.source)}</footer></blockquote>`
+            )
+          }
+          if (block.type === "table") {
+            const header = block.header.map((cell) => `<th>${escapeHtml(cell)}</th>`).join("")
+            const rows = block.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`).join("")
+            return `<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`
+          }
+          return ""
+        })
+        .join("\n")
+      return `<section><h2>${escapeHtml(section.title)}</h2>\n${blocks}</section>`
+    })
+    .join("\n")
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">${escapeHtml(report.subtitle)} · generated ${escapeHtml(report.generated_at)}</p>
+${body}
+</body>
+</html>
+`
+}
+
+/**
+ * Load the PDF fonts once (TTF bytes per style, or the built-in fonts as a fallback)
+ */
+function loadPdfFonts() {
+  if (!pdfFonts) {
+    try {
+      const fontDir = path.join(path.dirname(require.resolve("dejavu-fonts-ttf/package.json")), "ttf")
+      pdfFonts = Object.fromEntries(
+        Object.entries(PDF_FONT_FILES).map(([style, file]) => [style, readFileSync(path.join(fontDir, file))])
+      )
+    } catch (error) {
+      console.warn("[report] Unicode fonts not available, PDFs fall back to Helvetica:", error.message)
+      pdfFonts = STANDARD_PDF_FONTS
+    }
+  }
+  return pdfFonts
+}
+
+/**
+ * Render a report as a PDF
+ *
+ * @param {object} report - Result of buildReport
+ * @returns {Promise<Buffer>} PDF bytes
+ */
+export function renderPdf(report) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: report.title } })
+    for (const [style, font] of Object.entries(loadPdfFonts())) {
+      doc.registerFont(style, font)
+    }
+    const buffers = []
+    doc.on("data", (data) => buffers.push(data))
+    doc.on("end", () => resolve(Buffer.concat(buffers)))
+    doc.on("error", reject)
+
+    const left = doc.page.margins.left
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right
+
+    // Start a new page when the next element would not fit
+    const ensureSpace = (height) => {
+      if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage()
+      }
+    }
+
+    doc.font("bold").fontSize(18).text(report.title, left, doc.y, { width })
+    doc.font("regular").fontSize(9).fillColor("#6b7280").text(`${report.subtitle} · generated ${report.generated_at}`)
+    doc.fillColor("#111827")
+
+    for (const section of report.sections) {
+      doc.moveDown(1.2)
+      ensureSpace(40)
+      doc.font("bold").fontSize(13).text(section.title, left, doc.y, { width })
+      doc.moveDown(0.4)
+
+      for (const block of section.blocks) {
+        if (block.type === "fields") {
+          const labelWidth = 130
+          doc.fontSize(9)
+          for (const [label, value] of block.rows) {
+            const height = Math.max(
+              doc.font("regular").heightOfString(value, { width: width - labelWidth }),
+              doc.font("bold").heightOfString(label, { width: labelWidth - 10 })
+            )
+            ensureSpace(height)
+            const y = doc.y
+            doc.font("bold").fillColor("#6b7280").text(label, left, y, { width: labelWidth - 10 })
+            doc.font("regular").fillColor("#111827").text(value, left + labelWidth, y, { width: width - labelWidth })
+            doc.y = y + height + 3
+          }
+        } else if (block.type === "paragraph") {
+          doc.font("regular").fontSize(9).text(block.text, left, doc.y, { width })
+        } else if (block.type === "quote") {
+          const text = `…${block.before}${block.text}${block.after}…`.replace(/\s+/g, " ")
+          doc.font("italic").fontSize(8.5)
+          ensureSpace(doc.heightOfString(text, { width: width - 12 }) + 16)
+          const y = doc.y
+          doc.text(`…${block.before}`.replace(/\s+/g, " "), left + 12, y, { width: width - 12, continued: true })
+          doc.font("boldItalic").text(block.text.replace(/\s+/g, " "), { continued: true })
+          doc.font("italic").text(`${block.after}…`.replace(/\s+/g, " "))
+          doc.font("regular").fontSize(7.5).fillColor("#6b7280").text(`— ${block.source}`, left + 12, doc.y, { width: width - 12 })
+          doc.fillColor("#111827")
+          doc.moveTo(left + 4, y).lineTo(left + 4, doc.y).strokeColor("#93c5fd").lineWidth(2).stroke()
+        } else if (block.type === "table") {
+          const columnWidth = width / block.header.length
+          const drawRow = (cells, font) => {
+            doc.font(font).fontSize(7.5)
+            const height = Math.max(...cells.map((cell) => doc.heightOfString(String(cell), { width: columnWidth - 6 }))) + 4
+            ensureSpace(height)
+            const y = doc.y
+            cells.forEach((cell, i) => {
+              doc.text(String(cell), left + i * columnWidth + 3, y + 2, { width: columnWidth - 6 })
+            })
+            doc.moveTo(left, y + height).lineTo(left + width, y + height).strokeColor("#e5e7eb").lineWidth(0.5).stroke()
+            doc.y = y + height
+          }
+          drawRow(block.header, "bold")
+          for (const row of block.rows) drawRow(row, "regular")
+        }
+        doc.x = left
+        doc.moveDown(0.6)
+      }
+    }
+
+    doc.end()
+  })
+}
@@ -0,0 +1,111 @@
+/**
+ * JSON Schema Validation Helper
+ * Minimal validator for the draft-07 subset used by the files in schemas/
+ * (type, const, enum, required, properties, additionalProperties, items, minLength, minimum, maximum)
+ */
+
+import { readFileSync } from "fs"
+
+// Schemas live at the repository root, shared with the frontend
+const SCHEMAS_DIR = new URL("../../schemas/", import.meta.url)
+
+/**
+ * Load a JSON schema from the shared schemas/ directory
+ *
+ * @param {string} fileName - Schema file name (e.g. "session_schema_v1.json")
+ * @returns {object} Parsed schema
+ */
+export function loadSchema(fileName) {
+  return JSON.parse(readFileSync(new URL(fileName, SCHEMAS_DIR), "utf8"))
+}
+
+function jsonTypeOf(value) {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number"
+  }
+  return typeof value
+}
+
+function matchesType(value, allowed) {
+  const types = Array.isArray(allowed) ? allowed : [allowed]
+  const actual = jsonTypeOf(value)
+  return types.some((t) => t === actual || (t === "number" && actual === "integer"))
+}
+
+function joinPath(parent, key) {
+  return parent ? `${parent}.${key}` : String(key)
+}
+
+/**
+ * Validate a value against a JSON schema
+ *
+ * @param {*} value - Value to validate
+ * @param {object} schema - Schema to validate against
+ * @param {string} path - Dot-notation path of the value (used for nested errors)
+ * @returns {Array<{path: string, message: string}>} Violations (empty when valid)
+ */
+export function validateAgainstSchema(value, schema, path = "") {
+  const violations = []
+
+  if (schema.type !== undefined && !matchesType(value, schema.type)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(" | ") : schema.type
+    violations.push({ path, message: `expected ${expected}, got ${jsonTypeOf(value)}` })
+    // Further checks make no sense on a value of the wrong type
+    return violations
+  }
+
+  if ("const" in schema && value !== schema.const) {
+    violations.push({ path, message: `must equal ${JSON.stringify(schema.const)}` })
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    violations.push({
+      path,
+      message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    })
+  }
+
+  if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+    violations.push({ path, message: `must be at least ${schema.minLength} characters` })
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `must be >= ${schema.minimum}` })
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `must be <= ${schema.maximum}` })
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      violations.push(...validateAgainstSchema(item, schema.items, joinPath(path, index)))
+    })
+  }
+
+  if (jsonTypeOf(value) === "object") {
+    const properties = schema.properties || {}
+
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        violations.push({ path: joinPath(path, key), message: "is required" })
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = joinPath(path, key)
+      if (properties[key]) {
+        violations.push(...validateAgainstSchema(child, properties[key], childPath))
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: childPath, message: "is not allowed" })
+      } else if (typeof schema.additionalProperties === "object") {
+        violations.push(...validateAgainstSchema(child, schema.additionalProperties, childPath))
+      }
+    }
+  }
+
+  return violations
+}
@@ -0,0 +1,199 @@
+/**
+ * Scoring Engine
+ * Computes per-dimension and overall scores from a weights configuration
+ * (artifacts.weights) and a metrics set (artifacts.metrics)
+ *
+ * Weights: { version, dimensions: { <dimension>: { weight, metrics: { <metric>: weight } } } }
+ * Metrics: { <metric>: { value, min, max, direction?: "higher_is_better" | "lower_is_better" } }
+ *
+ * Each metric is normalized to 0-100 within [min, max] (inverted for lower_is_better).
+ * A dimension score is the weighted mean of its available metrics; the overall score is
+ * the weighted mean of the dimensions that have at least one metric. Missing metrics are
+ * left out and the remaining weights renormalized; the breakdown lists them.
+ *
+ * The result is a pure function of the inputs: it embeds the inputs and their hash so
+ * any score can be reproduced later with computeScores(result.inputs.weights, result.inputs.metrics).
+ */
+
+import { createHash } from "crypto"
+
+// Bump when the scoring rules change so stored scores can be traced to their rules
+export const SCORING_ENGINE_VERSION = "1.0.0"
+
+const DIRECTIONS = ["higher_is_better", "lower_is_better"]
+
+function isPlainObject(value) {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+function isNonNegativeNumber(value) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+}
+
+// Round to 4 decimals so results are stable across platforms
+function round(value) {
+  return Math.round(value * 10000) / 10000
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted (stable input for hashing)
+ */
+export function canonicalJson(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`
+  }
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value).sort()
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(",")}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Hash scoring inputs (sha256 of their canonical JSON)
+ */
+export function hashScoringInputs(weights, metrics) {
+  return createHash("sha256").update(canonicalJson({ weights, metrics })).digest("hex")
+}
+
+/**
+ * Validate a weights configuration and metrics set
+ *
+ * @param {object} weights - Weights configuration
+ * @param {object} metrics - Metrics set
+ * @returns {Array<{path: string, message: string}>} Violations (empty when valid)
+ */
+export function validateScoringInputs(weights, metrics) {
+  const violations = []
+
+  if (!isPlainObject(weights) || !isPlainObject(weights.dimensions)) {
+    violations.push({ path: "weights.dimensions", message: "must be an object of dimensions" })
+  } else {
+    const dimensions = Object.entries(weights.dimensions)
+    if (dimensions.length === 0) {
+      violations.push({ path: "weights.dimensions", message: "must define at least one dimension" })
+    }
+    for (const [name, dimension] of dimensions) {
+      const path = `weights.dimensions.${name}`
+      if (!isPlainObject(dimension)) {
+        violations.push({ path, message: "must be an object" })
+        continue
+      }
+      if (!isNonNegativeNumber(dimension.weight)) {
+        violations.push({ path: `${path}.weight`, message: "must be a non-negative number" })
+      }
+      if (!isPlainObject(dimension.metrics) || Object.keys(dimension.metrics).length === 0) {
+        violations.push({ path: `${path}.metrics`, message: "must map at least one metric to its weight" })
+        continue
+      }
+      for (const [metric, weight] of Object.entries(dimension.metrics)) {
+        if (!isNonNegativeNumber(weight)) {
+          violations.push({ path: `${path}.metrics.${metric}`, message: "must be a non-negative number" })
+        }
+      }
+    }
+  }
+
+  if (!isPlainObject(metrics)) {
+    violations.push({ path: "metrics", message: "must be an object of metrics" })
+  } else {
+    for (const [name, metric] of Object.entries(metrics)) {
+      const path = `metrics.${name}`
+      if (!isPlainObject(metric)) {
+        violations.push({ path, message: "must be an object" })
+        continue
+      }
+      for (const key of ["value", "min", "max"]) {
+        if (typeof metric[key] !== "number" || !Number.isFinite(metric[key])) {
+          violations.push({ path: `${path}.${key}`, message: "must be a finite number" })
+        }
+      }
+      if (typeof metric.min === "number" && typeof metric.max === "number" && metric.max <= metric.min) {
+        violations.push({ path: `${path}.max`, message: "must be greater than min" })
+      }
+      if (metric.direction !== undefined && !DIRECTIONS.includes(metric.direction)) {
+        violations.push({ path: `${path}.direction`, message: `must be one of ${DIRECTIONS.join(", ")}` })
+      }
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Normalize a metric value to 0-100 within its range
+ */
+export function normalizeMetric({ value, min, max, direction }) {
+  const clamped = Math.min(Math.max(value, min), max)
+  const ratio = (clamped - min) / (max - min)
+  return (direction === "lower_is_better" ? 1 - ratio : ratio) * 100
+}
+
+/**
+ * Compute scores from validated inputs
+ *
+ * @param {object} weights - Weights configuration (see validateScoringInputs)
+ * @param {object} metrics - Metrics set
+ * @returns {object} { engine_version, overall, dimensions, inputs, inputs_hash }
+ */
+export function computeScores(weights, metrics) {
+  const dimensions = {}
+  let overallSum = 0
+  let overallWeight = 0
+
+  // Sort names so the breakdown does not depend on input key order
+  for (const name of Object.keys(weights.dimensions).sort()) {
+    const dimension = weights.dimensions[name]
+    const metricNames = Object.keys(dimension.metrics).sort()
+    const available = metricNames.filter((metric) => metrics[metric] !== undefined)
+    const availableWeight = available.reduce((sum, metric) => sum + dimension.metrics[metric], 0)
+
+    const breakdown = {}
+    let score = null
+    if (available.length > 0) {
+      score = 0
+      for (const metric of available) {
+        const normalized = normalizeMetric(metrics[metric])
+        // With all weights at zero, available metrics count equally
+        const effectiveWeight =
+          availableWeight > 0 ? dimension.metrics[metric] / availableWeight : 1 / available.length
+        const contribution = normalized * effectiveWeight
+        score += contribution
+        breakdown[metric] = {
+          value: metrics[metric].value,
+          min: metrics[metric].min,
+          max: metrics[metric].max,
+          direction: metrics[metric].direction || "higher_is_better",
+          normalized: round(normalized),
+          weight: dimension.metrics[metric],
+          effective_weight: round(effectiveWeight),
+          contribution: round(contribution),
+        }
+      }
+      overallSum += score * dimension.weight
+      overallWeight += dimension.weight
+    }
+
+    dimensions[name] = {
+      score: score === null ? null : round(score),
+      weight: dimension.weight,
+      effective_weight: null, // Filled in once the overall weight is known
+      metrics: breakdown,
+      missing_metrics: metricNames.filter((metric) => metrics[metric] === undefined),
+    }
+  }
+
+  for (const dimension of Object.values(dimensions)) {
+    if (dimension.score !== null) {
+      dimension.effective_weight = overallWeight > 0 ? round(dimension.weight / overallWeight) : null
+    }
+  }
+
+  return {
+    engine_version: SCORING_ENGINE_VERSION,
+    overall: overallWeight > 0 ? round(overallSum / overallWeight) : null,
+    dimensions,
+    inputs: { weights, metrics },
+    inputs_hash: hashScoringInputs(weights, metrics),
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Session Store Helper
+ * Reads and writes XRL sessions in the `sessions` table (db/schema.sql)
+ * and converts between table rows and session_schema_v1.json objects
+ */
+
+import getSupabaseClient from "./supabaseClient.js"
+import { loadSchema, validateAgainstSchema } from "./schemaValidator.js"
+
+const sessionSchema = loadSchema("session_schema_v1.json")
+
+// Fields clients may not change after creation
+const IMMUTABLE_FIELDS = ["version", "session_id", "created_at"]
+
+// Nested objects that are merged (not replaced) on partial updates
+const MERGED_OBJECTS = ["raw_input", "onboarding_answers", "classification", "artifacts"]
+
+/**
+ * Build a new session with schema defaults, overridden by the given fields
+ *
+ * @param {string} sessionId - Session identifier
+ * @param {object} fields - Partial session provided by the client
+ * @returns {object} Full session object (not yet validated)
+ */
+export function buildSession(sessionId, fields = {}) {
+  const now = new Date().toISOString()
+  const base = {
+    version: "v1",
+    session_id: sessionId,
+    created_at: now,
+    updated_at: now,
+    status: "initialized",
+    raw_input: {
+      initial_description: "",
+      source: "web",
+    },
+    onboarding_answers: {
+      scientific_basis: "",
+      primary_applications: "",
+      secondary_applications: "",
+      exclusions: "",
+      example_entities: [],
+      deployment_layer: "",
+      strategic_focus: [],
+    },
+    classification: {
+      taxonomy_candidates: [],
+      selected: { l1: null, l2: null, l3: null, node_id: null },
+    },
+    artifacts: {
+      mapping_profile: null,
+      weights: null,
+      datasets: {},
+      metrics: {},
+      scores: {},
+    },
+    logs: [],
+  }
+
+  return mergeSession(base, fields, { allowImmutable: true, touch: false })
+}
+
+/**
+ * Merge a partial update into a session
+ * Top-level fields are replaced; raw_input, onboarding_answers, classification
+ * and artifacts are merged one level deep
+ *
+ * @param {object} session - Current session
+ * @param {object} patch - Partial session
+ * @param {object} options - { allowImmutable: allow version/session_id/created_at, touch: refresh updated_at }
+ * @returns {object} New session object
+ */
+export function mergeSession(session, patch, { allowImmutable = false, touch = true } = {}) {
+  const merged = { ...session }
+
+  for (const [key, value] of Object.entries(patch || {})) {
+    if (!allowImmutable && IMMUTABLE_FIELDS.includes(key)) {
+      continue
+    }
+    if (MERGED_OBJECTS.includes(key) && value && typeof value === "object" && !Array.isArray(value)) {
+      merged[key] = { ...session[key], ...value }
+    } else {
+      merged[key] = value
+    }
+  }
+
+  if (touch) {
+    merged.updated_at = new Date().toISOString()
+  }
+  return merged
+}
+
+/**
+ * Validate a session against session_schema_v1.json
+ *
+ * @param {object} session - Session to validate
+ * @returns {Array<{path: string, message: string}>} Violations (empty when valid)
+ */
+export function validateSession(session) {
+  return validateAgainstSchema(session, sessionSchema)
+}
+
+/**
+ * Convert a session object into a `sessions` table row
+ */
+export function sessionToRow(session) {
+  return {
+    session_id: session.session_id,
+    created_at: session.created_at,
+    updated_at: session.updated_at,
+    version: session.version,
+    status: session.status,
+    initial_description: session.raw_input.initial_description,
+    source: session.raw_input.source,
+    scientific_basis: session.onboarding_answers.scientific_basis,
+    primary_applications: session.onboarding_answers.primary_applications,
+    secondary_applications: session.onboarding_answers.secondary_applications,
+    exclusions: session.onboarding_answers.exclusions,
+    example_entities: session.onboarding_answers.example_entities,
+    deployment_layer: session.onboarding_answers.deployment_layer,
+    strategic_focus: session.onboarding_answers.strategic_focus,
+    taxonomy_l1: session.classification.selected.l1,
+    taxonomy_l2: session.classification.selected.l2,
+    taxonomy_l3: session.classification.selected.l3,
+    taxonomy_node_id: session.classification.selected.node_id,
+    taxonomy_candidates: session.classification.taxonomy_candidates,
+    mapping_profile: session.artifacts.mapping_profile,
+    weights: session.artifacts.weights,
+    datasets: session.artifacts.datasets,
+    metrics: session.artifacts.metrics,
+    scores: session.artifacts.scores,
+    logs: session.logs,
+  }
+}
+
+/**
+ * Convert a `sessions` table row into a session object
+ */
+export function rowToSession(row) {
+  return {
+    version: row.version || "v1",
+    session_id: row.session_id,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+    status: row.status || "initialized",
+    raw_input: {
+      initial_description: row.initial_description || "",
+      source: row.source || "web",
+    },
+    onboarding_answers: {
+      scientific_basis: row.scientific_basis || "",
+      primary_applications: row.primary_applications || "",
+      secondary_applications: row.secondary_applications || "",
+      exclusions: row.exclusions || "",
+      example_entities: row.example_entities || [],
+      deployment_layer: row.deployment_layer || "",
+      strategic_focus: row.strategic_focus || [],
+    },
+    classification: {
+      taxonomy_candidates: row.taxonomy_candidates || [],
+      selected: {
+        l1: row.taxonomy_l1 ?? null,
+        l2: row.taxonomy_l2 ?? null,
+        l3: row.taxonomy_l3 ?? null,
+        node_id: row.taxonomy_node_id ?? null,
+      },
+    },
+    artifacts: {
+      mapping_profile: row.mapping_profile ?? null,
+      weights: row.weights ?? null,
+      datasets: row.datasets || {},
+      metrics: row.metrics || {},
+      scores: row.scores || {},
+    },
+    logs: row.logs || [],
+  }
+}
+
+/**
+ * Insert a new session
+ *
+ * @param {object} session - Validated session
+ * @returns {Promise<object>} Stored session
+ */
+export async function insertSession(session) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("sessions")
+    .insert(sessionToRow(session))
+    .select("*")
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to insert session: ${error.message}`)
+  }
+  return rowToSession(data)
+}
+
+/**
+ * Fetch a session by ID
+ *
+ * @param {string} sessionId - Session identifier
+ * @returns {Promise<object|null>} Session, or null if it does not exist
+ */
+export async function fetchSession(sessionId) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("sessions")
+    .select("*")
+    .eq("session_id", sessionId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch session: ${error.message}`)
+  }
+  return data ? rowToSession(data) : null
+}
+
+/**
+ * List sessions, newest first
+ *
+ * @param {Object} params - Query parameters
+ * @param {string} [params.status] - Only return sessions in this status
+ * @param {number} params.limit - Page size
+ * @param {number} params.offset - Number of sessions to skip
+ * @returns {Promise<{sessions: object[], total: number}>} Page of sessions and total count
+ */
+export async function listSessions({ status, limit, offset }) {
+  const supabase = getSupabaseClient()
+  let query = supabase
+    .from("sessions")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (status) {
+    query = query.eq("status", status)
+  }
+
+  const { data, error, count } = await query
+
+  if (error) {
+    throw new Error(`Failed to list sessions: ${error.message}`)
+  }
+  return { sessions: (data || []).map(rowToSession), total: count ?? 0 }
+}
+
+/**
+ * Replace a stored session, unless it changed since it was read
+ * The update only matches the row while it still has the updated_at the caller read, so
+ * concurrent updates cannot drop each other's log entries.
+ *
+ * @param {object} session - Validated session
+ * @param {string} expectedUpdatedAt - updated_at of the stored session the update is based on
+ * @returns {Promise<object|null>} Stored session, or null if the session changed (or was deleted) meanwhile
+ */
+export async function saveSession(session, expectedUpdatedAt) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("sessions")
+    .update(sessionToRow(session))
+    .eq("session_id", session.session_id)
+    .eq("updated_at", expectedUpdatedAt)
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update session: ${error.message}`)
+  }
+  return data ? rowToSession(data) : null
+}
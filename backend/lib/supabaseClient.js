@@ -48,6 +48,15 @@ function getSupabaseClient() {
   return supabaseInstance
 }
 
+/**
+ * Replace the client instance (tests use an in-memory fake)
+ *
+ * @param {object|null} client - Client to return from getSupabaseClient, or null to recreate it from env vars
+ */
+export function setSupabaseClient(client) {
+  supabaseInstance = client
+}
+
 // Export a getter function that creates the client on first access
 export default getSupabaseClient
 
@@ -0,0 +1,320 @@
+/**
+ * Taxonomy Registry Helper
+ * Loads versioned taxonomy trees (db/taxonomy/*.json or *.csv) into the `taxonomy_nodes`
+ * table, serves lookups/search from an in-memory copy and checks that taxonomy
+ * selections (l1/l2/l3/node_id) point at a real node
+ */
+
+import { readFileSync } from "fs"
+import { extname, basename } from "path"
+import getSupabaseClient from "./supabaseClient.js"
+
+// Taxonomy version used for validation and lookups
+export const TAXONOMY_VERSION = process.env.TAXONOMY_VERSION || "v1"
+
+// How long the in-memory registry is reused before re-reading the table
+const CACHE_TTL_MS = 60 * 1000
+
+// Page size when reading the table (Supabase returns at most 1000 rows per request)
+const PAGE_SIZE = 1000
+
+const LEVELS = ["l1", "l2", "l3"]
+
+// Cached registries by version: { registry, loadedAt }
+// Only versions with nodes are cached, so unknown ?version= values cannot grow it
+const cache = new Map()
+
+/**
+ * Split one CSV line into fields (supports double-quoted fields with "" escapes)
+ */
+function parseCsvLine(line) {
+  const fields = []
+  let current = ""
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      fields.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  fields.push(current.trim())
+  return fields
+}
+
+/**
+ * Flatten a JSON taxonomy tree ({ node_id, label, children }) into node rows
+ */
+function flattenTree(nodes, version, parent = null) {
+  const rows = []
+  for (const node of nodes || []) {
+    if (!node.node_id || !node.label) {
+      throw new Error(`Taxonomy node is missing node_id or label: ${JSON.stringify(node)}`)
+    }
+    const level = parent ? parent.level + 1 : 1
+    if (level > LEVELS.length) {
+      throw new Error(`Taxonomy node ${node.node_id} is deeper than L${LEVELS.length}`)
+    }
+    const row = {
+      version,
+      node_id: node.node_id,
+      parent_node_id: parent ? parent.node_id : null,
+      level,
+      label: node.label,
+      l1: parent ? parent.l1 : node.label,
+      l2: level === 2 ? node.label : parent?.l2 ?? null,
+      l3: level === 3 ? node.label : null,
+    }
+    rows.push(row, ...flattenTree(node.children, version, row))
+  }
+  return rows
+}
+
+/**
+ * Convert CSV rows (header: node_id,l1,l2,l3) into node rows
+ * Each row is one node; its level is the deepest non-empty column and its
+ * parent is the row whose path is one level shorter
+ */
+function csvToRows(text, version) {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "")
+  const header = parseCsvLine(lines[0] || "").map((h) => h.toLowerCase())
+  for (const column of ["node_id", "l1", "l2", "l3"]) {
+    if (!header.includes(column)) {
+      throw new Error(`Taxonomy CSV is missing the "${column}" column`)
+    }
+  }
+
+  const rows = lines.slice(1).map((line) => {
+    const values = parseCsvLine(line)
+    const record = Object.fromEntries(header.map((h, i) => [h, values[i] || null]))
+    const level = record.l3 ? 3 : record.l2 ? 2 : 1
+    if (!record.node_id || !record.l1 || (record.l3 && !record.l2)) {
+      throw new Error(`Invalid taxonomy CSV row: ${line}`)
+    }
+    return {
+      version,
+      node_id: record.node_id,
+      parent_node_id: null,
+      level,
+      label: record[LEVELS[level - 1]],
+      l1: record.l1,
+      l2: record.l2,
+      l3: record.l3,
+    }
+  })
+
+  // Link each node to its parent by path
+  const byPath = new Map(rows.map((row) => [pathKey(row), row]))
+  for (const row of rows) {
+    if (row.level === 1) continue
+    const parent = byPath.get(pathKey({ ...row, [LEVELS[row.level - 1]]: null }))
+    if (!parent) {
+      throw new Error(`Taxonomy node ${row.node_id} has no parent row for ${pathKey(row)}`)
+    }
+    row.parent_node_id = parent.node_id
+  }
+  return rows
+}
+
+function pathKey(row) {
+  return LEVELS.map((level) => row[level] || "").join("/").replace(/\/+$/, "")
+}
+
+/**
+ * Read a taxonomy file into node rows
+ * JSON files carry their own version ({ version, nodes: [...] }); CSV files take it
+ * from options.version or from a "_v<N>" suffix in the file name
+ *
+ * @param {string} filePath - Path to a .json or .csv taxonomy file
+ * @param {object} options - { version: override the file's version }
+ * @returns {{version: string, nodes: object[]}} Version and flat node rows
+ */
+export function parseTaxonomyFile(filePath, { version } = {}) {
+  const text = readFileSync(filePath, "utf8")
+  let result
+
+  if (extname(filePath).toLowerCase() === ".csv") {
+    const fileVersion = version || basename(filePath).match(/_(v\d+)\.csv$/i)?.[1]
+    if (!fileVersion) {
+      throw new Error("CSV taxonomy files need a version (pass one or name the file *_v<N>.csv)")
+    }
+    result = { version: fileVersion, nodes: csvToRows(text, fileVersion) }
+  } else {
+    const data = JSON.parse(text)
+    const fileVersion = version || data.version
+    if (!fileVersion) {
+      throw new Error("JSON taxonomy files need a top-level version")
+    }
+    result = { version: fileVersion, nodes: flattenTree(data.nodes, fileVersion) }
+  }
+
+  const seen = new Set()
+  for (const node of result.nodes) {
+    if (seen.has(node.node_id)) {
+      throw new Error(`Duplicate taxonomy node_id: ${node.node_id}`)
+    }
+    seen.add(node.node_id)
+  }
+  return result
+}
+
+/**
+ * Replace a taxonomy version in the `taxonomy_nodes` table
+ *
+ * @param {{version: string, nodes: object[]}} taxonomy - Parsed taxonomy
+ * @returns {Promise<number>} Number of nodes stored
+ */
+export async function importTaxonomy({ version, nodes }) {
+  const supabase = getSupabaseClient()
+
+  const { error: deleteError } = await supabase.from("taxonomy_nodes").delete().eq("version", version)
+  if (deleteError) {
+    throw new Error(`Failed to clear taxonomy ${version}: ${deleteError.message}`)
+  }
+
+  // Insert in batches of 200
+  const batchSize = 200
+  for (let i = 0; i < nodes.length; i += batchSize) {
+    const { error } = await supabase.from("taxonomy_nodes").insert(nodes.slice(i, i + batchSize))
+    if (error) {
+      throw new Error(`Failed to insert taxonomy nodes: ${error.message}`)
+    }
+  }
+
+  cache.delete(version)
+  return nodes.length
+}
+
+/**
+ * Load a taxonomy version from the table (cached for CACHE_TTL_MS)
+ * A version without nodes is not cached and is read again on the next call
+ *
+ * @param {string} version - Taxonomy version
+ * @returns {Promise<{version: string, nodes: object[], byId: Map<string, object>}>} Registry
+ */
+export async function loadTaxonomyRegistry(version = TAXONOMY_VERSION) {
+  const cached = cache.get(version)
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.registry
+  }
+
+  const supabase = getSupabaseClient()
+  const nodes = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("taxonomy_nodes")
+      .select("version, node_id, parent_node_id, level, label, l1, l2, l3")
+      .eq("version", version)
+      .order("node_id", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load taxonomy ${version}: ${error.message}`)
+    }
+    nodes.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const registry = { version, nodes, byId: new Map(nodes.map((node) => [node.node_id, node])) }
+  if (nodes.length > 0) {
+    cache.set(version, { registry, loadedAt: Date.now() })
+  } else {
+    cache.delete(version)
+  }
+  return registry
+}
+
+/**
+ * Search nodes by label, path or node_id (case-insensitive substring match)
+ * Exact node_id matches come first, then shallower nodes
+ *
+ * @param {object} registry - Loaded registry
+ * @param {string} query - Search text
+ * @param {number} limit - Maximum number of results
+ * @returns {object[]} Matching nodes
+ */
+export function searchTaxonomy(registry, query, limit) {
+  const q = query.trim().toLowerCase()
+  if (!q) return []
+
+  return registry.nodes
+    .filter((node) =>
+      [node.node_id, node.l1, node.l2, node.l3].some((value) => value && value.toLowerCase().includes(q))
+    )
+    .sort((a, b) => {
+      const exact = (b.node_id.toLowerCase() === q) - (a.node_id.toLowerCase() === q)
+      return exact || a.level - b.level || a.node_id.localeCompare(b.node_id)
+    })
+    .slice(0, limit)
+}
+
+/**
+ * Check a taxonomy selection against the registry
+ * An empty selection (no node_id and no levels) is allowed. Otherwise node_id must
+ * exist and l1/l2/l3 must equal the node's path (levels below the node stay empty).
+ * Empty strings and null are treated the same.
+ *
+ * @param {object} registry - Loaded registry
+ * @param {{l1, l2, l3, node_id}} selection - Selection to check
+ * @param {string} path - Path of the selection in the checked object (for messages)
+ * @returns {Array<{path: string, message: string}>} Violations (empty when valid)
+ */
+export function validateTaxonomySelection(registry, selection, path) {
+  const nodeId = selection?.node_id || null
+  const levels = LEVELS.map((level) => selection?.[level] || null)
+
+  if (!nodeId) {
+    return levels.some(Boolean) ? [{ path: `${path}.node_id`, message: "is required when l1/l2/l3 are set" }] : []
+  }
+
+  const node = registry.byId.get(nodeId)
+  if (!node) {
+    return [{ path: `${path}.node_id`, message: `"${nodeId}" does not exist in taxonomy ${registry.version}` }]
+  }
+
+  const violations = []
+  LEVELS.forEach((level, i) => {
+    const expected = node[level] || null
+    if (levels[i] !== expected) {
+      violations.push({
+        path: `${path}.${level}`,
+        message: expected
+          ? `must be "${expected}" for node ${nodeId}`
+          : `must be empty for node ${nodeId} (L${node.level})`,
+      })
+    }
+  })
+  return violations
+}
+
+/**
+ * Check every taxonomy reference in a session (selected node and candidates)
+ */
+export function validateSessionTaxonomy(registry, session) {
+  const violations = validateTaxonomySelection(registry, session.classification.selected, "classification.selected")
+  session.classification.taxonomy_candidates.forEach((candidate, i) => {
+    violations.push(...validateTaxonomySelection(registry, candidate, `classification.taxonomy_candidates.${i}`))
+  })
+  return violations
+}
+
+/**
+ * Check the taxonomy of a VUK
+ */
+export function validateVukTaxonomy(registry, vuk) {
+  return validateTaxonomySelection(registry, vuk.taxonomy, "taxonomy")
+}
@@ -0,0 +1,174 @@
+/**
+ * Document Text Extraction
+ * One extractor per supported upload format behind a common interface:
+ *
+ *   { format, label, mimeTypes, extensions, extract(buffer) => Promise<{ text, pages }> }
+ *
+ * Extractors return the document's plain text (empty string when nothing can be extracted)
+ * and never throw, so an upload is stored even if its text cannot be read. Paged formats (PDF)
+ * also return where each page sits in the text:
+ *
+ *   pages: [{ page, char_start, char_end, ocr_confidence }]  (null for formats without pages)
+ *
+ * ocr_confidence is the OCR engine's confidence (0-100) for scanned pages, null for text-layer pages.
+ */
+
+import { extractPdfPages } from "./pdfExtract.js"
+import { OCR_ENABLED, needsOcr, ocrPdfPages } from "./pdfOcr.js"
+
+// Named HTML entities decoded by the HTML extractor (numeric entities are decoded generically)
+const HTML_ENTITIES = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+}
+
+/**
+ * Extract text from a PDF buffer, page by page
+ * Pages without a usable text layer (scans) are OCR'd locally when OCR is enabled
+ */
+async function extractTextFromPdfPages(buffer) {
+  const layers = await extractPdfPages(buffer)
+  const scanned = OCR_ENABLED ? layers.filter((layer) => needsOcr(layer.text)).map((layer) => layer.page) : []
+  const ocr = await ocrPdfPages(buffer, scanned)
+
+  // Join pages with blank lines, recording each page's character range
+  let text = ""
+  const pages = []
+  for (const layer of layers) {
+    const recognized = ocr.get(layer.page)
+    const pageText = recognized ? recognized.text : layer.text.trim()
+    if (!pageText) continue
+    if (text) text += "\n\n"
+    pages.push({
+      page: layer.page,
+      char_start: text.length,
+      char_end: text.length + pageText.length,
+      ocr_confidence: recognized ? recognized.confidence : null,
+    })
+    text += pageText
+  }
+  return { text, pages }
+}
+
+/**
+ * Extract text from a DOCX buffer with mammoth (raw text, paragraphs separated by blank lines)
+ */
+async function extractTextFromDocx(buffer) {
+  try {
+    const mammothModule = await import("mammoth")
+    const mammoth = mammothModule.default || mammothModule
+    const result = await mammoth.extractRawText({ buffer })
+    return { text: (result.value || "").trim(), pages: null }
+  } catch (error) {
+    console.warn("[textExtract] Failed to extract text from DOCX:", error.message)
+    return { text: "", pages: null }
+  }
+}
+
+/**
+ * Convert an HTML page to plain text
+ * Drops scripts, styles and markup, keeps block elements on their own lines and decodes entities
+ */
+export function htmlToText(html) {
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|header|footer|li|tr|h[1-6]|blockquote|pre|table)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (entity, name) => HTML_ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/[ \t\f\v\r]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+async function extractTextFromHtml(buffer) {
+  return { text: htmlToText(buffer.toString("utf8")), pages: null }
+}
+
+// Plain text and Markdown are stored as written (Markdown syntax is readable as text)
+async function extractPlainText(buffer) {
+  return { text: buffer.toString("utf8").replace(/^\uFEFF/, "").trim(), pages: null }
+}
+
+// Supported upload formats, in the order they are listed to users
+export const EXTRACTORS = [
+  {
+    format: "pdf",
+    label: "PDF",
+    mimeTypes: ["application/pdf"],
+    extensions: [".pdf"],
+    extract: extractTextFromPdfPages,
+  },
+  {
+    format: "docx",
+    label: "Word",
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: [".docx"],
+    extract: extractTextFromDocx,
+  },
+  {
+    format: "html",
+    label: "HTML",
+    mimeTypes: ["text/html", "application/xhtml+xml"],
+    extensions: [".html", ".htm", ".xhtml"],
+    extract: extractTextFromHtml,
+  },
+  {
+    format: "markdown",
+    label: "Markdown",
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+    extensions: [".md", ".markdown"],
+    extract: extractPlainText,
+  },
+  {
+    format: "text",
+    label: "Text",
+    mimeTypes: ["text/plain"],
+    extensions: [".txt", ".text"],
+    extract: extractPlainText,
+  },
+]
+
+/**
+ * Find the extractor for an uploaded file
+ * The file extension wins over the MIME type, since browsers often send a generic or empty type
+ * for Markdown and text notes
+ *
+ * @param {{mimetype?: string, originalname?: string}} file - Multer file (or the same fields)
+ * @returns {object|null} Extractor, or null if the format is not supported
+ */
+export function findExtractor({ mimetype, originalname }) {
+  const name = (originalname || "").toLowerCase()
+  const byExtension = EXTRACTORS.find((extractor) => extractor.extensions.some((ext) => name.endsWith(ext)))
+  if (byExtension) {
+    return byExtension
+  }
+  return EXTRACTORS.find((extractor) => extractor.mimeTypes.includes(mimetype)) || null
+}
+
+/**
+ * Find the pages a character range of the extracted text falls on
+ *
+ * @param {Array|null} pages - Page ranges returned by an extractor
+ * @param {number} charStart - Range start (inclusive)
+ * @param {number} charEnd - Range end (exclusive)
+ * @returns {Array} Pages overlapping the range (empty for formats without pages)
+ */
+export function pagesInRange(pages, charStart, charEnd) {
+  return (pages || []).filter((page) => page.char_start < charEnd && page.char_end > charStart)
+}
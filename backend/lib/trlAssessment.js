@@ -0,0 +1,285 @@
+/**
+ * TRL Assessment Helper
+ * Proposes a Technology Readiness Level (1-9) from a rubric by scanning document chunks
+ * for rubric indicators, and links each piece of evidence to a concrete chunk
+ *
+ * Each level is scored by the number of distinct passages that mention one of its indicators;
+ * mentions that are negated or only planned ("not yet certified", "a field trial is planned")
+ * are ignored. The proposal is the highest level with at least MIN_LEVEL_EVIDENCE passages.
+ *
+ * Evidence refs (vuk.trl.evidence_refs) use the format "<doc_id>#<chunk_index>:<char_start>-<char_end>",
+ * where the char range is relative to the chunk's content
+ */
+
+import { fetchChunks } from "./documentStore.js"
+
+// TRL rubric: level definitions and the phrases that indicate them (lowercase)
+export const TRL_RUBRIC = [
+  {
+    level: 1,
+    title: "Basic principles observed",
+    indicators: ["basic principle", "theoretical", "first principles", "scientific observation"],
+  },
+  {
+    level: 2,
+    title: "Technology concept formulated",
+    indicators: ["concept formulated", "proposed concept", "conceptual design", "speculative application"],
+  },
+  {
+    level: 3,
+    title: "Experimental proof of concept",
+    indicators: ["proof of concept", "proof-of-concept", "laboratory experiment", "analytical and experimental"],
+  },
+  {
+    level: 4,
+    title: "Technology validated in lab",
+    indicators: ["validated in the lab", "laboratory validation", "lab-scale", "breadboard"],
+  },
+  {
+    level: 5,
+    title: "Technology validated in relevant environment",
+    indicators: ["relevant environment", "validated in a relevant", "high-fidelity", "component validation"],
+  },
+  {
+    level: 6,
+    title: "Technology demonstrated in relevant environment",
+    indicators: ["prototype demonstrated", "prototype demonstration", "demonstrated in a relevant", "engineering model", "system prototype"],
+  },
+  {
+    level: 7,
+    title: "System prototype demonstration in operational environment",
+    indicators: ["operational environment", "field trial", "pilot deployment", "pilot plant"],
+  },
+  {
+    level: 8,
+    title: "System complete and qualified",
+    indicators: ["qualification test", "qualified for", "certified", "pre-production", "test and demonstration completed"],
+  },
+  {
+    level: 9,
+    title: "Actual system proven in operational environment",
+    indicators: ["commercially available", "in commercial operation", "mass production", "deployed at scale", "proven in operation"],
+  },
+]
+
+// Passages a level needs before it can be proposed
+export const MIN_LEVEL_EVIDENCE = 2
+
+// Evidence kept per level and in total
+const MAX_EVIDENCE_PER_LEVEL = 3
+const MAX_EVIDENCE = 8
+
+// Negation or future intent within the three words before an indicator ("has not yet been certified",
+// "is yet to be certified", "no field trial", "will be qualified for") or right after it
+// ("a field trial is planned")
+const NEGATION_BEFORE_PATTERN =
+  /\b(not|no|never|without|yet to|lacks?|lacking|pending|awaiting|planned|plans? to|will|intends? to)\b(\W+\w+){0,3}\W*$/
+const NEGATION_AFTER_PATTERN = /^\s+((is|are|was|were|still|being)\s+)*(planned|pending|scheduled|expected)\b/
+
+// Indicators match whole words only: "uncertified" or "non-certified" is not "certified"
+const INDICATOR_PATTERNS = new Map(
+  TRL_RUBRIC.flatMap(({ indicators }) => indicators).map((indicator) => [
+    indicator,
+    new RegExp(`(?<![\\w-])${indicator.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w-])`, "g"),
+  ])
+)
+
+// Longest passage cited for one piece of evidence
+const MAX_PASSAGE_CHARS = 300
+
+const EVIDENCE_REF_PATTERN = /^(.+)#(\d+):(\d+)-(\d+)$/
+
+/**
+ * Build an evidence ref string
+ */
+export function formatEvidenceRef({ doc_id, chunk_index, char_start, char_end }) {
+  return `${doc_id}#${chunk_index}:${char_start}-${char_end}`
+}
+
+/**
+ * Parse an evidence ref string
+ *
+ * @param {string} ref - Evidence ref
+ * @returns {{doc_id: string, chunk_index: number, char_start: number, char_end: number}|null} Parsed ref, or null if malformed
+ */
+export function parseEvidenceRef(ref) {
+  const match = typeof ref === "string" ? ref.match(EVIDENCE_REF_PATTERN) : null
+  if (!match) {
+    return null
+  }
+  return {
+    doc_id: match[1],
+    chunk_index: Number(match[2]),
+    char_start: Number(match[3]),
+    char_end: Number(match[4]),
+  }
+}
+
+/**
+ * Find the sentence around a match, capped at MAX_PASSAGE_CHARS
+ */
+function sentenceBounds(content, index, length) {
+  let start = index
+  while (start > 0 && !/[.!?\n]/.test(content[start - 1]) && index - start < MAX_PASSAGE_CHARS / 2) {
+    start--
+  }
+  let end = index + length
+  while (end < content.length && !/[.!?\n]/.test(content[end]) && end - start < MAX_PASSAGE_CHARS) {
+    end++
+  }
+  if (end < content.length && /[.!?]/.test(content[end])) {
+    end++
+  }
+  // Skip leading whitespace so the passage starts at the first word
+  while (start < index && /\s/.test(content[start])) {
+    start++
+  }
+  return { start, end }
+}
+
+/**
+ * Check whether the sentence around an indicator negates it or only plans it
+ */
+function isNegated(content, sentence, index, length) {
+  return (
+    NEGATION_BEFORE_PATTERN.test(content.slice(sentence.start, index).toLowerCase()) ||
+    NEGATION_AFTER_PATTERN.test(content.slice(index + length, sentence.end).toLowerCase())
+  )
+}
+
+/**
+ * Identify a mention within its document, so a sentence repeated in the overlap of two
+ * neighbouring chunks counts once: the document offset of the indicator when the chunk knows
+ * where it starts, otherwise the passage text with whitespace and case normalized
+ */
+function passageKey(chunk, index, passage) {
+  const chunkStart = chunk.metadata_json?.char_start
+  if (Number.isInteger(chunkStart)) {
+    return `${chunk.doc_id}@${chunkStart + index}`
+  }
+  return `${chunk.doc_id}:${passage.replace(/\s+/g, " ").trim().toLowerCase()}`
+}
+
+/**
+ * Propose a TRL from document chunks
+ * Every non-negated mention of a rubric indicator becomes a piece of evidence. The proposed
+ * level is the highest level with at least MIN_LEVEL_EVIDENCE distinct passages; evidence for
+ * it comes first, followed by evidence for lower levels.
+ *
+ * @param {Array<{doc_id: string, chunk_index: number, content: string, metadata_json: object}>} chunks - Chunks to scan
+ * @returns {{value: number|null, rationale: string, evidence_refs: string[], evidence: object[]}} Proposed TRL
+ */
+export function assessTrl(chunks) {
+  const findings = []
+
+  for (const chunk of chunks) {
+    const content = chunk.content || ""
+    const lower = content.toLowerCase()
+    for (const { level, indicators } of TRL_RUBRIC) {
+      for (const indicator of indicators) {
+        for (const { index } of lower.matchAll(INDICATOR_PATTERNS.get(indicator))) {
+          const { start, end } = sentenceBounds(content, index, indicator.length)
+          if (isNegated(content, { start, end }, index, indicator.length)) continue
+
+          const ref = formatEvidenceRef({ doc_id: chunk.doc_id, chunk_index: chunk.chunk_index, char_start: start, char_end: end })
+          const key = passageKey(chunk, index, content.slice(start, end))
+          if (findings.some((f) => f.key === key && f.level === level)) continue
+          findings.push({
+            key,
+            ref,
+            level,
+            indicator,
+            passage: content.slice(start, end),
+            file_name: chunk.metadata_json?.file_name || null,
+          })
+        }
+      }
+    }
+  }
+
+  // Distinct passages per level
+  const counts = new Map()
+  for (const finding of findings) {
+    counts.set(finding.level, (counts.get(finding.level) || 0) + 1)
+  }
+  const supported = [...counts].filter(([, count]) => count >= MIN_LEVEL_EVIDENCE).map(([level]) => level)
+
+  if (supported.length === 0) {
+    const mentioned = [...counts.keys()].sort((a, b) => a - b)
+    return {
+      value: null,
+      rationale:
+        mentioned.length === 0
+          ? "No TRL rubric indicators were found in the session's documents."
+          : `The documents mention indicators of TRL ${mentioned.join(", ")}, but no level has the ${MIN_LEVEL_EVIDENCE} passages of evidence needed to propose it.`,
+      evidence_refs: [],
+      evidence: [],
+    }
+  }
+
+  // Proposed level first, then lower levels; keep a few distinct passages per level
+  const value = Math.max(...supported)
+  findings.sort((a, b) => b.level - a.level)
+  const evidence = []
+  for (const finding of findings.filter((f) => f.level <= value)) {
+    const sameLevel = evidence.filter((e) => e.level === finding.level).length
+    if (sameLevel < MAX_EVIDENCE_PER_LEVEL && !evidence.some((e) => e.ref === finding.ref || e.key === finding.key)) {
+      evidence.push(finding)
+    }
+    if (evidence.length === MAX_EVIDENCE) break
+  }
+
+  const rubric = TRL_RUBRIC.find((r) => r.level === value)
+  const indicators = [...new Set(evidence.filter((e) => e.level === value).map((e) => `"${e.indicator}"`))]
+  const lowerLevels = [...new Set(evidence.filter((e) => e.level < value).map((e) => e.level))]
+  const weakerHigherLevels = [...counts.keys()].filter((level) => level > value).sort((a, b) => a - b)
+
+  let rationale = `Proposed TRL ${value} (${rubric.title}): ${counts.get(value)} passages mention ${indicators.join(", ")}.`
+  if (lowerLevels.length > 0) {
+    rationale += ` Supporting evidence for TRL ${lowerLevels.join(", ")}.`
+  }
+  if (weakerHigherLevels.length > 0) {
+    rationale += ` TRL ${weakerHigherLevels.join(", ")} ${weakerHigherLevels.length === 1 ? "is" : "are"} mentioned too rarely to propose.`
+  }
+
+  return { value, rationale, evidence_refs: evidence.map((e) => e.ref), evidence: evidence.map(({ key, ...e }) => e) }
+}
+
+/**
+ * Check that evidence refs point at existing chunks and fit inside them
+ * Refs in `verified` (already stored) are not checked again, so an edit is not rejected because
+ * a previously cited document was deleted since.
+ *
+ * @param {string[]} refs - Evidence refs
+ * @param {string} path - Path of the refs in the checked object (for messages)
+ * @param {string[]} [verified] - Refs accepted earlier
+ * @returns {Promise<Array<{path: string, message: string}>>} Violations (empty when valid)
+ */
+export async function verifyEvidenceRefs(refs, path, verified = []) {
+  const known = new Set(verified)
+  const checked = refs
+    .map((value, i) => ({ i, value, ref: parseEvidenceRef(value) }))
+    .filter(({ value }) => !known.has(value))
+  const violations = []
+  checked.forEach(({ i, ref }) => {
+    if (!ref) {
+      violations.push({ path: `${path}.${i}`, message: "must look like <doc_id>#<chunk_index>:<char_start>-<char_end>" })
+    } else if (ref.char_start >= ref.char_end) {
+      violations.push({ path: `${path}.${i}`, message: "char_start must be before char_end" })
+    }
+  })
+  if (violations.length > 0 || checked.length === 0) {
+    return violations
+  }
+
+  const chunks = await fetchChunks([...new Set(checked.map(({ ref }) => ref.doc_id))])
+  checked.forEach(({ i, ref }) => {
+    const chunk = chunks.find((c) => c.doc_id === ref.doc_id && c.chunk_index === ref.chunk_index)
+    if (!chunk) {
+      violations.push({ path: `${path}.${i}`, message: `chunk ${ref.chunk_index} of document ${ref.doc_id} does not exist` })
+    } else if (ref.char_end > chunk.content.length) {
+      violations.push({ path: `${path}.${i}`, message: `char range exceeds the chunk length (${chunk.content.length})` })
+    }
+  })
+  return violations
+}
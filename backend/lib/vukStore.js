@@ -0,0 +1,264 @@
+/**
+ * VUK Store Helper
+ * Reads and writes VUKs (Validated Units of Knowledge) in the `vuks` table (db/schema.sql)
+ * and converts between table rows and vuk_schema_v1.json objects
+ */
+
+import getSupabaseClient from "./supabaseClient.js"
+import { loadSchema, validateAgainstSchema } from "./schemaValidator.js"
+import { createLogEntry } from "./auditLog.js"
+
+const vukSchema = loadSchema("vuk_schema_v1.json")
+
+// Fields clients may not change through a regular edit
+const IMMUTABLE_FIELDS = ["schema_version", "vuk_id", "created_at", "created_from_session_id"]
+
+// Nested objects that are merged (not replaced) on partial updates
+const MERGED_OBJECTS = ["technology", "taxonomy", "trl", "confidence", "audit"]
+
+// Review workflow: action -> statuses it can be taken from and the resulting status
+// Approved VUKs have no outgoing transitions and are therefore locked
+export const VUK_TRANSITIONS = {
+  submit: { from: ["draft"], to: "in_review", description: "Submitted VUK for review" },
+  withdraw: { from: ["in_review"], to: "draft", description: "Withdrew VUK from review" },
+  approve: { from: ["in_review"], to: "approved", description: "Approved VUK" },
+  reject: { from: ["in_review"], to: "rejected", description: "Rejected VUK" },
+  reopen: { from: ["rejected"], to: "draft", description: "Reopened rejected VUK as draft" },
+}
+
+// Actions that record a reviewer decision and therefore require an actor
+const REVIEW_ACTIONS = ["approve", "reject"]
+
+/**
+ * Merge a partial update into a VUK
+ * Top-level fields are replaced; technology, taxonomy, trl, confidence and audit
+ * are merged one level deep
+ *
+ * @param {object} vuk - Current VUK
+ * @param {object} patch - Partial VUK
+ * @returns {object} New VUK object with updated_at refreshed
+ */
+export function mergeVuk(vuk, patch) {
+  const merged = { ...vuk }
+
+  for (const [key, value] of Object.entries(patch || {})) {
+    if (IMMUTABLE_FIELDS.includes(key)) {
+      continue
+    }
+    if (MERGED_OBJECTS.includes(key) && value && typeof value === "object" && !Array.isArray(value)) {
+      merged[key] = { ...vuk[key], ...value }
+    } else {
+      merged[key] = value
+    }
+  }
+
+  merged.updated_at = new Date().toISOString()
+  return merged
+}
+
+/**
+ * Apply a review workflow transition to a VUK
+ * Approving stamps audit.approved_by / approved_at; any other transition clears the
+ * approval. The returned VUK has one log entry appended describing the transition.
+ *
+ * @param {object} vuk - Current VUK
+ * @param {string} action - Key of VUK_TRANSITIONS
+ * @param {object} options - { actor: who performs the transition, comment: optional note }
+ * @returns {{vuk?: object, error?: string, status?: number}} Updated VUK, or an error with HTTP status
+ */
+export function applyVukTransition(vuk, action, { actor, comment } = {}) {
+  const transition = VUK_TRANSITIONS[action]
+  if (!transition) {
+    return { error: `Unknown action: ${action}`, status: 400 }
+  }
+  if (REVIEW_ACTIONS.includes(action) && !actor) {
+    return { error: `${action} requires an actor`, status: 400 }
+  }
+  if (!transition.from.includes(vuk.status)) {
+    return { error: `Cannot ${action} a VUK that is ${vuk.status}`, status: 409 }
+  }
+
+  const now = new Date().toISOString()
+  const next = {
+    ...vuk,
+    status: transition.to,
+    audit:
+      action === "approve"
+        ? { approved: true, approved_by: actor, approved_at: now }
+        : { approved: false, approved_by: null, approved_at: null },
+    updated_at: now,
+  }
+
+  const entry = {
+    ...createLogEntry(vuk, next, `vuk_${action}`, comment ? `${transition.description}: ${comment}` : transition.description),
+    actor: actor || null,
+    from_status: vuk.status,
+    to_status: transition.to,
+  }
+  next.logs = [...(vuk.logs || []), entry]
+
+  return { vuk: next }
+}
+
+/**
+ * Validate a VUK against vuk_schema_v1.json
+ *
+ * @param {object} vuk - VUK to validate
+ * @returns {Array<{path: string, message: string}>} Violations (empty when valid)
+ */
+export function validateVuk(vuk) {
+  return validateAgainstSchema(vuk, vukSchema)
+}
+
+/**
+ * Convert a VUK object into a `vuks` table row
+ */
+export function vukToRow(vuk) {
+  return {
+    vuk_id: vuk.vuk_id,
+    created_at: vuk.created_at,
+    updated_at: vuk.updated_at,
+    schema_version: vuk.schema_version,
+    created_from_session_id: vuk.created_from_session_id,
+    status: vuk.status,
+    technology_name: vuk.technology.name,
+    technology_one_liner: vuk.technology.one_liner,
+    technology_description: vuk.technology.description,
+    technology_keywords: vuk.technology.keywords,
+    technology_exclusions: vuk.technology.exclusions,
+    taxonomy_l1: vuk.taxonomy.l1,
+    taxonomy_l2: vuk.taxonomy.l2,
+    taxonomy_l3: vuk.taxonomy.l3,
+    taxonomy_node_id: vuk.taxonomy.node_id,
+    trl_value: vuk.trl.value,
+    trl_rationale: vuk.trl.rationale,
+    trl_evidence_refs: vuk.trl.evidence_refs,
+    mapping_profile_ref: vuk.mapping_profile_ref,
+    scores: vuk.scores,
+    confidence_value: vuk.confidence.value,
+    confidence_rationale: vuk.confidence.rationale,
+    approved: vuk.audit.approved,
+    approved_by: vuk.audit.approved_by,
+    approved_at: vuk.audit.approved_at,
+    logs: vuk.logs,
+  }
+}
+
+/**
+ * Convert a `vuks` table row into a VUK object
+ */
+export function rowToVuk(row) {
+  return {
+    schema_version: row.schema_version || "v1",
+    vuk_id: row.vuk_id,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+    created_from_session_id: row.created_from_session_id,
+    status: row.status || "draft",
+    technology: {
+      name: row.technology_name || "",
+      one_liner: row.technology_one_liner || "",
+      description: row.technology_description || "",
+      keywords: row.technology_keywords || [],
+      exclusions: row.technology_exclusions || [],
+    },
+    taxonomy: {
+      l1: row.taxonomy_l1 || "",
+      l2: row.taxonomy_l2 || "",
+      l3: row.taxonomy_l3 || "",
+      node_id: row.taxonomy_node_id || "",
+    },
+    trl: {
+      value: row.trl_value ?? null,
+      rationale: row.trl_rationale || "",
+      evidence_refs: row.trl_evidence_refs || [],
+    },
+    mapping_profile_ref: row.mapping_profile_ref ?? null,
+    scores: row.scores || {},
+    confidence: {
+      // DECIMAL columns come back as strings
+      value: row.confidence_value === null || row.confidence_value === undefined ? null : Number(row.confidence_value),
+      rationale: row.confidence_rationale || "",
+    },
+    audit: {
+      approved: !!row.approved,
+      approved_by: row.approved_by ?? null,
+      approved_at: row.approved_at ? new Date(row.approved_at).toISOString() : null,
+    },
+    logs: row.logs || [],
+  }
+}
+
+/**
+ * Fetch a VUK by ID
+ *
+ * @param {string} vukId - VUK identifier
+ * @returns {Promise<object|null>} VUK, or null if it does not exist
+ */
+export async function fetchVuk(vukId) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("vuks")
+    .select("*")
+    .eq("vuk_id", vukId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch VUK: ${error.message}`)
+  }
+  return data ? rowToVuk(data) : null
+}
+
+/**
+ * Replace a stored VUK, unless it changed since it was read
+ * The update only matches the row while it still has the updated_at the caller read, so two
+ * concurrent edits cannot overwrite each other (or each other's log entries).
+ *
+ * @param {object} vuk - Validated VUK
+ * @param {string} expectedUpdatedAt - updated_at of the stored VUK the update is based on
+ * @returns {Promise<object|null>} Stored VUK, or null if the VUK changed (or was deleted) meanwhile
+ */
+export async function saveVuk(vuk, expectedUpdatedAt) {
+  const supabase = getSupabaseClient()
+  const { data, error } = await supabase
+    .from("vuks")
+    .update(vukToRow(vuk))
+    .eq("vuk_id", vuk.vuk_id)
+    .eq("updated_at", expectedUpdatedAt)
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update VUK: ${error.message}`)
+  }
+  return data ? rowToVuk(data) : null
+}
+
+/**
+ * List VUKs, most recently updated first
+ *
+ * @param {object} options - { status, sessionId, limit, offset }
+ * @returns {Promise<{vuks: object[], total: number}>} Page of VUKs and the total count
+ */
+export async function listVuks({ status, sessionId, limit, offset }) {
+  const supabase = getSupabaseClient()
+  let query = supabase
+    .from("vuks")
+    .select("*", { count: "exact" })
+    .order("updated_at", { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (status) {
+    query = query.eq("status", status)
+  }
+  if (sessionId) {
+    query = query.eq("created_from_session_id", sessionId)
+  }
+
+  const { data, error, count } = await query
+
+  if (error) {
+    throw new Error(`Failed to list VUKs: ${error.message}`)
+  }
+  return { vuks: (data || []).map(rowToVuk), total: count ?? 0 }
+}
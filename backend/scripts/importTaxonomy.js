@@ -0,0 +1,25 @@
+/**
+ * Taxonomy Import Script
+ * Loads a taxonomy file (JSON tree or CSV with node_id,l1,l2,l3 columns) into the
+ * `taxonomy_nodes` table, replacing any nodes already stored for that version
+ *
+ * Usage: npm run taxonomy:import -- [file] [version]
+ * Defaults to db/taxonomy/taxonomy_v1.json
+ */
+
+import "dotenv/config"
+import { fileURLToPath } from "url"
+import { parseTaxonomyFile, importTaxonomy } from "../lib/taxonomyRegistry.js"
+
+const DEFAULT_FILE = fileURLToPath(new URL("../../db/taxonomy/taxonomy_v1.json", import.meta.url))
+
+const [file = DEFAULT_FILE, version] = process.argv.slice(2)
+
+try {
+  const taxonomy = parseTaxonomyFile(file, { version })
+  const count = await importTaxonomy(taxonomy)
+  console.log(`[taxonomy:import] Stored ${count} nodes for taxonomy ${taxonomy.version} from ${file}`)
+} catch (err) {
+  console.error("[taxonomy:import] Error:", err?.message || err)
+  process.exit(1)
+}
@@ -8,10 +8,49 @@ import express from "express"
 import cors from "cors"
 import multer from "multer"
 import { randomUUID } from "crypto"
+import { fileURLToPath } from "url"
 import getSupabaseClient from "./lib/supabaseClient.js"
-import { extractTextFromPdf } from "./lib/pdfExtract.js"
-import { splitIntoChunks } from "./lib/chunking.js"
+import { EXTRACTORS, findExtractor, pagesInRange } from "./lib/textExtract.js"
+import { splitIntoChunks, parseChunkingOptions } from "./lib/chunking.js"
 import { retrieveTopChunks } from "./lib/chunkRetrieval.js"
+import { EMBEDDINGS_ENABLED, EMBEDDING_MODEL, embedTexts } from "./lib/embeddings.js"
+import {
+  buildSession,
+  mergeSession,
+  validateSession,
+  insertSession,
+  fetchSession,
+  listSessions,
+  saveSession,
+} from "./lib/sessionStore.js"
+import { createLogEntry, verifyLogAppend } from "./lib/auditLog.js"
+import {
+  VUK_TRANSITIONS,
+  applyVukTransition,
+  mergeVuk,
+  validateVuk,
+  fetchVuk,
+  saveVuk,
+  listVuks,
+} from "./lib/vukStore.js"
+import {
+  loadTaxonomyRegistry,
+  searchTaxonomy,
+  validateSessionTaxonomy,
+  validateVukTaxonomy,
+} from "./lib/taxonomyRegistry.js"
+import {
+  fetchSessionDocuments,
+  fetchChunks,
+  fetchChunk,
+  fetchDocument,
+  countChunks,
+  summarizeDocument,
+  deleteDocument,
+} from "./lib/documentStore.js"
+import { assessTrl, verifyEvidenceRefs } from "./lib/trlAssessment.js"
+import { validateScoringInputs, computeScores } from "./lib/scoring.js"
+import { REPORT_FORMATS, buildReport, collectEvidence, renderHtml, renderMarkdown, renderPdf } from "./lib/report.js"
 
 const app = express()
 
@@ -21,11 +60,11 @@ const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 100 * 1024 * 1024 }, // 100MB limit
   fileFilter: (req, file, cb) => {
-    // Accept only PDF files
-    if (file.mimetype === "application/pdf") {
+    // Accept only formats with a text extractor (lib/textExtract.js)
+    if (findExtractor(file)) {
       cb(null, true)
     } else {
-      cb(new Error("Only PDF files are allowed"), false)
+      cb(new Error(`Unsupported file type. Supported: ${EXTRACTORS.map((e) => e.label).join(", ")}`), false)
     }
   },
 })
@@ -37,7 +76,7 @@ const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN || "http://localhost:5173"
 app.use(
   cors({
     origin: FRONTEND_ORIGIN,
-    methods: ["GET", "POST", "OPTIONS"],
+    methods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
     allowedHeaders: ["Content-Type", "Authorization", "x-callback-secret"],
   })
 )
@@ -82,7 +121,31 @@ function extractTextFromChatStyle(n8nRaw) {
   return typeof text === "string" ? text : ""
 }
 
-function buildAssistantPayload(n8nRaw) {
+function extractSession(n8nRaw) {
+  // Session object may be returned at the top level or in the first item of an array
+  const first = Array.isArray(n8nRaw) ? n8nRaw[0] : n8nRaw
+  const session = first?.session
+  return session && typeof session === "object" ? session : null
+}
+
+function extractIdentifiers(n8nRaw, session) {
+  // n8n may return identifiers at the top level, inside the session, or in the first array item
+  const first = Array.isArray(n8nRaw) ? n8nRaw[0] : n8nRaw
+  const session_id = first?.session_id || session?.session_id || null
+  const vuk_id = first?.vuk_id || null
+  return {
+    session_id: typeof session_id === "string" ? session_id : null,
+    vuk_id: typeof vuk_id === "string" ? vuk_id : null,
+  }
+}
+
+function buildAssistantPayload(n8nRaw, fallbackIds = {}) {
+  const session = extractSession(n8nRaw)
+  const ids = extractIdentifiers(n8nRaw, session)
+  // Identifiers returned by n8n win over the ones the request was sent with
+  const session_id = ids.session_id || fallbackIds.session_id || null
+  const vuk_id = ids.vuk_id || fallbackIds.vuk_id || null
+
   // 1) Prefer explicit llm.confirmation_question when available
   const llm = n8nRaw?.llm
   if (llm && typeof llm === "object") {
@@ -93,6 +156,9 @@ function buildAssistantPayload(n8nRaw) {
       n8n_raw: n8nRaw,
       assistant_text,
       assistant_json: llm,
+      session,
+      session_id,
+      vuk_id,
     }
   }
 
@@ -112,9 +178,34 @@ function buildAssistantPayload(n8nRaw) {
     n8n_raw: n8nRaw,
     assistant_text,
     assistant_json,
+    session,
+    session_id,
+    vuk_id,
   }
 }
 
+/**
+ * Forward a payload to the n8n webhook
+ * Returns the upstream response together with its parsed body (JSON or text)
+ */
+async function postToN8n(payload) {
+  const upstream = await fetch(N8N_WEBHOOK_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(N8N_CALLBACK_SECRET ? { "x-callback-secret": N8N_CALLBACK_SECRET } : {}),
+    },
+    body: JSON.stringify(payload),
+  })
+
+  const contentType = upstream.headers.get("content-type") || ""
+  const raw = contentType.includes("application/json")
+    ? await upstream.json()
+    : await upstream.text()
+
+  return { upstream, raw }
+}
+
 /**
  * Chat Endpoint
  * Handles chat messages, retrieves relevant document chunks if attachments are provided,
@@ -127,7 +218,7 @@ app.post("/api/chat", async (req, res) => {
 
   try {
     // Extract request body fields
-    const { session_id, message, attachments } = req.body || {}
+    const { session_id, vuk_id, message, attachments, confirmation } = req.body || {}
 
     // Validate message exists
     if (!message || typeof message !== "string") {
@@ -138,15 +229,28 @@ app.post("/api/chat", async (req, res) => {
     }
 
     // Prepare payload for n8n
+    // Mint a session_id on the first turn so every later turn continues the same n8n session
     let n8nPayload = {
-      session_id: session_id || null,
+      session_id: session_id || randomUUID(),
+      vuk_id: vuk_id || null,
       user_message: message,
     }
 
-    // If attachments include PDF doc_ids, retrieve relevant chunks
+    // Structured analyst decision on a technology guess (confirm / reject / refine)
+    if (confirmation && typeof confirmation === "object") {
+      if (!["confirm", "reject", "refine"].includes(confirmation.decision)) {
+        return res.status(400).json({ ok: false, error: "Invalid confirmation decision" })
+      }
+      n8nPayload.confirmation = confirmation
+    }
+
+    // Retrieved chunks returned to the UI as the turn's sources
+    let sources = []
+
+    // If attachments include uploaded documents (PDF or other formats), retrieve relevant chunks
     if (attachments && Array.isArray(attachments)) {
-      const pdfAttachments = attachments.filter((att) => att.type === "pdf" && att.doc_id)
-      const docIds = pdfAttachments.map((att) => att.doc_id)
+      const documentAttachments = attachments.filter((att) => ["pdf", "document"].includes(att.type) && att.doc_id)
+      const docIds = documentAttachments.map((att) => att.doc_id)
 
       if (docIds.length > 0) {
         console.log("[POST /api/chat] Retrieving chunks for doc_ids:", docIds)
@@ -164,6 +268,24 @@ app.post("/api/chat", async (req, res) => {
           // Add attachments and retrieved chunks to payload
           n8nPayload.attachments = attachments
           n8nPayload.retrieved_chunks = retrievedChunks
+
+          const fileNames = new Map(documentAttachments.map((att) => [att.doc_id, att.filename || null]))
+          // char_start / char_end locate the chunk in its document; highlights are the
+          // keyword matches within the chunk content
+          sources = retrievedChunks.map((chunk) => ({
+            doc_id: chunk.doc_id,
+            chunk_index: chunk.chunk_index,
+            char_start: chunk.metadata_json.char_start ?? null,
+            char_end: chunk.metadata_json.char_end ?? null,
+            page_start: chunk.metadata_json.page_start ?? null,
+            page_end: chunk.metadata_json.page_end ?? null,
+            section: chunk.metadata_json.section ?? null,
+            file_name: chunk.metadata_json.file_name || fileNames.get(chunk.doc_id) || null,
+            similarity: chunk.similarity,
+            bm25: chunk.bm25,
+            content: chunk.content,
+            highlights: chunk.highlights,
+          }))
         } catch (chunkError) {
           console.error("[POST /api/chat] Error retrieving chunks:", chunkError)
           // Continue without chunks - don't fail the request
@@ -171,7 +293,7 @@ app.post("/api/chat", async (req, res) => {
           n8nPayload.retrieved_chunks = []
         }
       } else {
-        // No PDF attachments, include attachments as-is
+        // No document attachments, include attachments as-is
         n8nPayload.attachments = attachments
       }
     }
@@ -184,19 +306,112 @@ app.post("/api/chat", async (req, res) => {
       chunks_count: n8nPayload.retrieved_chunks?.length || 0,
     })
 
-    const upstream = await fetch(N8N_WEBHOOK_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(N8N_CALLBACK_SECRET ? { "x-callback-secret": N8N_CALLBACK_SECRET } : {}),
-      },
-      body: JSON.stringify(n8nPayload),
+    const { upstream, raw } = await postToN8n(n8nPayload)
+
+    if (!upstream.ok) {
+      return res.status(upstream.status).json({
+        ok: false,
+        error: "n8n_error",
+        status: upstream.status,
+        n8n_raw: raw,
+      })
+    }
+
+    const payload = buildAssistantPayload(raw, {
+      session_id: n8nPayload.session_id,
+      vuk_id: n8nPayload.vuk_id,
+    })
+    return res.status(200).json({ ...payload, sources })
+  } catch (err) {
+    console.error("[POST /api/chat] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+// Onboarding answer fields and their expected types (session_schema_v1.json onboarding_answers)
+const ONBOARDING_FIELDS = {
+  scientific_basis: "string",
+  primary_applications: "string",
+  secondary_applications: "string",
+  exclusions: "string",
+  example_entities: "array",
+  deployment_layer: "string",
+  strategic_focus: "array",
+}
+
+function validateOnboardingAnswers(answers) {
+  if (!answers || typeof answers !== "object" || Array.isArray(answers)) {
+    return "onboarding_answers must be an object"
+  }
+  for (const key of Object.keys(answers)) {
+    if (!(key in ONBOARDING_FIELDS)) {
+      return `Unknown onboarding field: ${key}`
+    }
+  }
+  for (const [key, type] of Object.entries(ONBOARDING_FIELDS)) {
+    const value = answers[key]
+    if (type === "array") {
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        return `${key} must be an array of strings`
+      }
+    } else if (typeof value !== "string") {
+      return `${key} must be a string`
+    }
+  }
+  return null
+}
+
+/**
+ * Onboarding Endpoint
+ * Receives structured onboarding answers from the wizard, saves them to the session's
+ * onboarding_answers with an "onboarding" log entry (creating the session if the backend
+ * does not know it yet), and forwards them to n8n together with the session_id
+ */
+app.post("/api/onboarding", async (req, res) => {
+  if (!N8N_WEBHOOK_URL) {
+    return res.status(500).json({ ok: false, error: "Missing N8N_WEBHOOK_URL" })
+  }
+
+  try {
+    const { session_id, onboarding_answers } = req.body || {}
+
+    const validationError = validateOnboardingAnswers(onboarding_answers)
+    if (validationError) {
+      return res.status(400).json({ ok: false, error: validationError })
+    }
+
+    // Save the answers first so they are kept even if the pipeline fails
+    if (session_id) {
+      const current = await fetchSession(session_id)
+      const base = current || buildSession(session_id)
+      const updated = mergeSession(base, { onboarding_answers })
+      updated.logs = [...base.logs, createLogEntry(base, updated, "onboarding", "Submitted onboarding answers")]
+
+      const violations = validateSession(updated)
+      if (violations.length > 0) {
+        return res.status(400).json({ ok: false, error: "validation_error", details: violations })
+      }
+      const stored = current ? await saveSession(updated, current.updated_at) : await insertSession(updated)
+      if (!stored) {
+        return res.status(409).json({ ok: false, error: "conflict", message: "Session was changed by another request; reload it and retry" })
+      }
+      console.log("[POST /api/onboarding] Saved onboarding answers:", stored.session_id)
+    }
+
+    console.log("[POST /api/onboarding] Sending to n8n:", {
+      session_id: session_id || null,
+      fields: Object.keys(onboarding_answers),
     })
 
-    const contentType = upstream.headers.get("content-type") || ""
-    const raw = contentType.includes("application/json")
-      ? await upstream.json()
-      : await upstream.text()
+    const { upstream, raw } = await postToN8n({
+      session_id: session_id || null,
+      action: "onboarding",
+      onboarding_answers,
+    })
 
     if (!upstream.ok) {
       return res.status(upstream.status).json({
@@ -207,10 +422,9 @@ app.post("/api/chat", async (req, res) => {
       })
     }
 
-    const payload = buildAssistantPayload(raw)
-    return res.status(200).json(payload)
+    return res.status(200).json(buildAssistantPayload(raw, { session_id: session_id || null }))
   } catch (err) {
-    console.error("[POST /api/chat] Error:", err)
+    console.error("[POST /api/onboarding] Error:", err)
     return res.status(500).json({
       ok: false,
       error: "backend_error",
@@ -219,21 +433,593 @@ app.post("/api/chat", async (req, res) => {
   }
 })
 
+// Pagination defaults for list endpoints
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+function parsePagination(query) {
+  const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const offset = Math.max(parseInt(query.offset, 10) || 0, 0)
+  return { limit, offset }
+}
+
+function isPlainObject(value) {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
 /**
- * PDF Upload Handler
- * Handles PDF upload, stores in Supabase Storage, extracts text, chunks it, and stores in Postgres
+ * Create Session
+ * Body: partial session (session_id optional); missing fields get schema defaults
+ */
+app.post("/api/sessions", async (req, res) => {
+  try {
+    const body = req.body || {}
+    if (!isPlainObject(body)) {
+      return res.status(400).json({ ok: false, error: "Request body must be a session object" })
+    }
+
+    let session = buildSession(body.session_id || randomUUID(), body)
+
+    // Record the creation itself unless the client supplied its own log
+    if (!Array.isArray(body.logs) || body.logs.length === 0) {
+      const defaults = buildSession(session.session_id, {
+        created_at: session.created_at,
+        updated_at: session.updated_at,
+      })
+      session = {
+        ...session,
+        logs: [createLogEntry(defaults, session, "create_session", "Session created")],
+      }
+    }
+
+    const violations = validateSession(session)
+    if (violations.length > 0) {
+      return res.status(400).json({ ok: false, error: "validation_error", details: violations })
+    }
+
+    const taxonomyViolations = validateSessionTaxonomy(await loadTaxonomyRegistry(), session)
+    if (taxonomyViolations.length > 0) {
+      return res.status(400).json({ ok: false, error: "invalid_taxonomy", details: taxonomyViolations })
+    }
+
+    if (await fetchSession(session.session_id)) {
+      return res.status(409).json({ ok: false, error: "Session already exists" })
+    }
+
+    const stored = await insertSession(session)
+    console.log("[POST /api/sessions] Created session:", stored.session_id)
+    return res.status(201).json({ ok: true, session: stored })
+  } catch (err) {
+    console.error("[POST /api/sessions] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * List Sessions
+ * Query: status (optional filter), limit (default 20, max 100), offset (default 0)
+ */
+app.get("/api/sessions", async (req, res) => {
+  try {
+    const { limit, offset } = parsePagination(req.query)
+    const status = typeof req.query.status === "string" && req.query.status ? req.query.status : undefined
+
+    const { sessions, total } = await listSessions({ status, limit, offset })
+    return res.status(200).json({ ok: true, sessions, total, limit, offset })
+  } catch (err) {
+    console.error("[GET /api/sessions] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Get Session
+ */
+app.get("/api/sessions/:id", async (req, res) => {
+  try {
+    const session = await fetchSession(req.params.id)
+    if (!session) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+    return res.status(200).json({ ok: true, session })
+  } catch (err) {
+    console.error("[GET /api/sessions/:id] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Update Session
+ * Body: partial session; raw_input, onboarding_answers, classification and artifacts
+ * are merged one level deep, other fields are replaced. The result must still
+ * conform to session_schema_v1.json, and `logs` must be the stored log plus one
+ * new entry whose affected_fields cover every changed field.
+ */
+app.patch("/api/sessions/:id", async (req, res) => {
+  try {
+    const patch = req.body || {}
+    if (!isPlainObject(patch)) {
+      return res.status(400).json({ ok: false, error: "Request body must be a partial session object" })
+    }
+
+    const current = await fetchSession(req.params.id)
+    if (!current) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+
+    const updated = mergeSession(current, patch)
+    const violations = validateSession(updated)
+    if (violations.length > 0) {
+      return res.status(400).json({ ok: false, error: "validation_error", details: violations })
+    }
+
+    // Only re-check the taxonomy when the update touches it
+    if ("classification" in patch) {
+      const taxonomyViolations = validateSessionTaxonomy(await loadTaxonomyRegistry(), updated)
+      if (taxonomyViolations.length > 0) {
+        return res.status(400).json({ ok: false, error: "invalid_taxonomy", details: taxonomyViolations })
+      }
+    }
+
+    const logError = verifyLogAppend(current, updated)
+    if (logError) {
+      return res.status(400).json({ ok: false, error: "log_entry_required", message: logError })
+    }
+
+    const stored = await saveSession(updated, current.updated_at)
+    if (!stored) {
+      return res.status(409).json({ ok: false, error: "conflict", message: "Session was changed by another request; reload it and retry" })
+    }
+    console.log("[PATCH /api/sessions/:id] Updated session:", stored.session_id, "fields:", Object.keys(patch))
+    return res.status(200).json({ ok: true, session: stored })
+  } catch (err) {
+    console.error("[PATCH /api/sessions/:id] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Score session
+ * Body (optional): { weights, metrics } replacing artifacts.weights / artifacts.metrics;
+ * otherwise the stored ones are used. Computes artifacts.scores with lib/scoring.js
+ * (per-dimension and overall scores, breakdown, recorded inputs and their hash) and
+ * saves weights, metrics and scores with one "scoring" log entry.
+ */
+app.post("/api/sessions/:id/scores", async (req, res) => {
+  try {
+    const body = req.body || {}
+    if (!isPlainObject(body)) {
+      return res.status(400).json({ ok: false, error: "Request body must be an object" })
+    }
+
+    const current = await fetchSession(req.params.id)
+    if (!current) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+
+    const weights = body.weights ?? current.artifacts.weights
+    const metrics = body.metrics ?? current.artifacts.metrics
+    const inputViolations = validateScoringInputs(weights, metrics)
+    if (inputViolations.length > 0) {
+      return res.status(400).json({ ok: false, error: "invalid_scoring_inputs", details: inputViolations })
+    }
+
+    const scores = { ...computeScores(weights, metrics), computed_at: new Date().toISOString() }
+    const updated = mergeSession(current, { artifacts: { weights, metrics, scores } })
+    const violations = validateSession(updated)
+    if (violations.length > 0) {
+      return res.status(400).json({ ok: false, error: "validation_error", details: violations })
+    }
+
+    const overall = scores.overall === null ? "n/a" : scores.overall.toFixed(1)
+    updated.logs = [
+      ...current.logs,
+      {
+        ...createLogEntry(current, updated, "scoring", `Computed scores (overall ${overall})`),
+        engine_version: scores.engine_version,
+        inputs_hash: scores.inputs_hash,
+      },
+    ]
+
+    const stored = await saveSession(updated, current.updated_at)
+    if (!stored) {
+      return res.status(409).json({ ok: false, error: "conflict", message: "Session was changed by another request; reload it and retry" })
+    }
+    console.log("[POST /api/sessions/:id/scores] Scored session:", stored.session_id, "overall:", scores.overall)
+    return res.status(200).json({ ok: true, session: stored })
+  } catch (err) {
+    console.error("[POST /api/sessions/:id/scores] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Session document library
+ * Lists the documents uploaded in a session (oldest first) with status, chunk count and
+ * text extraction state
+ */
+app.get("/api/sessions/:id/documents", async (req, res) => {
+  try {
+    const rows = await fetchSessionDocuments(req.params.id)
+    const counts = await countChunks(rows.map((row) => row.doc_id))
+    const documents = rows.map((row) => summarizeDocument(row, counts.get(row.doc_id) ?? 0))
+    return res.status(200).json({ ok: true, documents })
+  } catch (err) {
+    console.error("[GET /api/sessions/:id/documents] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Session report
+ * Query: format (md | html | pdf, default html), vuk_id (optional; defaults to the most
+ * recently updated VUK created from the session). Renders the technology summary, onboarding
+ * answers, classification, TRL with cited evidence excerpts, scores and audit log.
+ * Markdown and PDF are sent as attachments; HTML is shown inline for printing.
+ */
+app.get("/api/sessions/:id/report", async (req, res) => {
+  try {
+    const format = typeof req.query.format === "string" && req.query.format ? req.query.format : "html"
+    const output = REPORT_FORMATS[format]
+    if (!output) {
+      return res.status(400).json({
+        ok: false,
+        error: "invalid_format",
+        message: `format must be one of ${Object.keys(REPORT_FORMATS).join(", ")}`,
+      })
+    }
+
+    const session = await fetchSession(req.params.id)
+    if (!session) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+
+    let vuk = null
+    if (typeof req.query.vuk_id === "string" && req.query.vuk_id) {
+      vuk = await fetchVuk(req.query.vuk_id)
+      if (!vuk) {
+        return res.status(404).json({ ok: false, error: "not_found", message: "VUK not found" })
+      }
+    } else {
+      const { vuks } = await listVuks({ sessionId: session.session_id, limit: 1, offset: 0 })
+      vuk = vuks[0] || null
+    }
+
+    const evidence = vuk ? await collectEvidence(vuk.trl.evidence_refs) : []
+    const report = buildReport(session, vuk, evidence)
+    const fileName = `report-${session.session_id}.${output.extension}`
+
+    let body
+    if (format === "pdf") {
+      body = await renderPdf(report)
+    } else if (format === "md") {
+      body = renderMarkdown(report)
+    } else {
+      body = renderHtml(report)
+    }
+
+    console.log("[GET /api/sessions/:id/report]", session.session_id, "format:", format, "vuk:", vuk?.vuk_id || "(none)")
+    res.setHeader("Content-Type", output.contentType)
+    res.setHeader("Content-Disposition", `${format === "html" ? "inline" : "attachment"}; filename="${fileName}"`)
+    return res.status(200).send(body)
+  } catch (err) {
+    console.error("[GET /api/sessions/:id/report] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * List VUKs
+ * Query: status (optional filter), session_id (optional: VUKs created from that session),
+ * limit (default 20, max 100), offset (default 0)
+ */
+app.get("/api/vuks", async (req, res) => {
+  try {
+    const { limit, offset } = parsePagination(req.query)
+    const status = typeof req.query.status === "string" && req.query.status ? req.query.status : undefined
+    const sessionId =
+      typeof req.query.session_id === "string" && req.query.session_id ? req.query.session_id : undefined
+
+    const { vuks, total } = await listVuks({ status, sessionId, limit, offset })
+    return res.status(200).json({ ok: true, vuks, total, limit, offset })
+  } catch (err) {
+    console.error("[GET /api/vuks] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Get VUK
+ */
+app.get("/api/vuks/:id", async (req, res) => {
+  try {
+    const vuk = await fetchVuk(req.params.id)
+    if (!vuk) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+    return res.status(200).json({ ok: true, vuk })
+  } catch (err) {
+    console.error("[GET /api/vuks/:id] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Update VUK
+ * Only VUKs in `draft` status can be edited. Body: partial VUK; technology, taxonomy,
+ * trl and confidence are merged one level deep. status and audit are not editable here.
+ * The result must conform to vuk_schema_v1.json and append one matching log entry.
+ */
+app.patch("/api/vuks/:id", async (req, res) => {
+  try {
+    const patch = req.body || {}
+    if (!isPlainObject(patch)) {
+      return res.status(400).json({ ok: false, error: "Request body must be a partial VUK object" })
+    }
+    if ("status" in patch || "audit" in patch) {
+      return res.status(400).json({ ok: false, error: "status and audit cannot be edited directly" })
+    }
+
+    const current = await fetchVuk(req.params.id)
+    if (!current) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+    if (current.status !== "draft") {
+      return res.status(409).json({ ok: false, error: `VUK is ${current.status} and cannot be edited` })
+    }
+
+    const updated = mergeVuk(current, patch)
+    const violations = validateVuk(updated)
+    if (violations.length > 0) {
+      return res.status(400).json({ ok: false, error: "validation_error", details: violations })
+    }
+
+    if ("taxonomy" in patch) {
+      const taxonomyViolations = validateVukTaxonomy(await loadTaxonomyRegistry(), updated)
+      if (taxonomyViolations.length > 0) {
+        return res.status(400).json({ ok: false, error: "invalid_taxonomy", details: taxonomyViolations })
+      }
+    }
+
+    if ("trl" in patch) {
+      // Only refs added by this edit are checked against the stored chunks
+      const evidenceViolations = await verifyEvidenceRefs(
+        updated.trl.evidence_refs,
+        "trl.evidence_refs",
+        current.trl.evidence_refs
+      )
+      if (evidenceViolations.length > 0) {
+        return res.status(400).json({ ok: false, error: "invalid_evidence", details: evidenceViolations })
+      }
+    }
+
+    const logError = verifyLogAppend(current, updated)
+    if (logError) {
+      return res.status(400).json({ ok: false, error: "log_entry_required", message: logError })
+    }
+
+    const stored = await saveVuk(updated, current.updated_at)
+    if (!stored) {
+      return res.status(409).json({ ok: false, error: "conflict", message: "VUK was changed by another request; reload it and retry" })
+    }
+    console.log("[PATCH /api/vuks/:id] Updated VUK:", stored.vuk_id, "fields:", Object.keys(patch))
+    return res.status(200).json({ ok: true, vuk: stored })
+  } catch (err) {
+    console.error("[PATCH /api/vuks/:id] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Review workflow transition
+ * Body: { action: "submit" | "withdraw" | "approve" | "reject" | "reopen", actor?, comment? }
+ * draft -> in_review -> approved / rejected; in_review can be withdrawn to draft and
+ * rejected VUKs reopened as draft. approve and reject require `actor`; approving
+ * stamps audit.approved_by / approved_at and locks the VUK. Each transition appends a log entry.
+ */
+app.post("/api/vuks/:id/transitions", async (req, res) => {
+  try {
+    const { action, actor, comment } = req.body || {}
+    if (!action || !VUK_TRANSITIONS[action]) {
+      return res.status(400).json({
+        ok: false,
+        error: `action must be one of: ${Object.keys(VUK_TRANSITIONS).join(", ")}`,
+      })
+    }
+    if ((actor !== undefined && typeof actor !== "string") || (comment !== undefined && typeof comment !== "string")) {
+      return res.status(400).json({ ok: false, error: "actor and comment must be strings" })
+    }
+
+    const current = await fetchVuk(req.params.id)
+    if (!current) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+
+    const result = applyVukTransition(current, action, { actor: actor?.trim(), comment: comment?.trim() })
+    if (result.error) {
+      return res.status(result.status).json({ ok: false, error: result.error })
+    }
+
+    const violations = validateVuk(result.vuk)
+    if (violations.length > 0) {
+      return res.status(400).json({ ok: false, error: "validation_error", details: violations })
+    }
+
+    const stored = await saveVuk(result.vuk, current.updated_at)
+    if (!stored) {
+      return res.status(409).json({ ok: false, error: "conflict", message: "VUK was changed by another request; reload it and retry" })
+    }
+    console.log("[POST /api/vuks/:id/transitions]", stored.vuk_id, `${current.status} -> ${stored.status}`, "by:", actor || "(anonymous)")
+    return res.status(200).json({ ok: true, vuk: stored })
+  } catch (err) {
+    console.error("[POST /api/vuks/:id/transitions] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * TRL assessment
+ * Proposes a TRL (1-9) for a VUK from the rubric in lib/trlAssessment.js, scanning the
+ * chunks of the documents uploaded in the VUK's session. Nothing is saved: the client
+ * applies the proposal through PATCH /api/vuks/:id (with its log entry).
+ */
+app.post("/api/vuks/:id/trl-assessment", async (req, res) => {
+  try {
+    const vuk = await fetchVuk(req.params.id)
+    if (!vuk) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+
+    const documents = await fetchSessionDocuments(vuk.created_from_session_id)
+    const chunks = await fetchChunks(documents.map((doc) => doc.doc_id))
+    const assessment = assessTrl(chunks)
+
+    console.log(
+      "[POST /api/vuks/:id/trl-assessment]",
+      vuk.vuk_id,
+      "documents:",
+      documents.length,
+      "chunks:",
+      chunks.length,
+      "proposed TRL:",
+      assessment.value
+    )
+    return res.status(200).json({ ok: true, assessment })
+  } catch (err) {
+    console.error("[POST /api/vuks/:id/trl-assessment] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Get the taxonomy registry
+ * Returns every node of the active version (TAXONOMY_VERSION, default v1) as a flat
+ * list; each node has node_id, parent_node_id, level, label and its l1/l2/l3 path.
+ * Query: ?version= to read another loaded version.
+ */
+app.get("/api/taxonomy", async (req, res) => {
+  try {
+    const registry = await loadTaxonomyRegistry(req.query.version || undefined)
+    return res.status(200).json({ ok: true, version: registry.version, nodes: registry.nodes })
+  } catch (err) {
+    console.error("[GET /api/taxonomy] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Search taxonomy nodes
+ * Query: ?q= (matched against node_id and l1/l2/l3), ?limit= (max 100, default 20)
+ */
+app.get("/api/taxonomy/search", async (req, res) => {
+  try {
+    const q = typeof req.query.q === "string" ? req.query.q : ""
+    if (!q.trim()) {
+      return res.status(400).json({ ok: false, error: "q is required" })
+    }
+    const { limit } = parsePagination(req.query)
+    const registry = await loadTaxonomyRegistry()
+    return res.status(200).json({ ok: true, version: registry.version, nodes: searchTaxonomy(registry, q, limit) })
+  } catch (err) {
+    console.error("[GET /api/taxonomy/search] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Get a taxonomy node with its direct children
+ */
+app.get("/api/taxonomy/nodes/:id", async (req, res) => {
+  try {
+    const registry = await loadTaxonomyRegistry()
+    const node = registry.byId.get(req.params.id)
+    if (!node) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+    const children = registry.nodes.filter((n) => n.parent_node_id === node.node_id)
+    return res.status(200).json({ ok: true, version: registry.version, node, children })
+  } catch (err) {
+    console.error("[GET /api/taxonomy/nodes/:id] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Document Upload Handler
+ * Handles one uploaded document (PDF, DOCX, HTML, text or Markdown), stores it in Supabase Storage,
+ * extracts its text with the matching extractor, chunks it, and stores the chunks in Postgres
  * 
  * Steps:
- * 1. Validate file (PDF, max 100MB)
+ * 1. Validate file (supported format, max 100MB)
  * 2. Generate doc_id (UUID)
  * 3. Upload to Supabase Storage
  * 4. Insert document record in Postgres
- * 5. Extract text from PDF
+ * 5. Extract text (lib/textExtract.js)
  * 6. Chunk the text
  * 7. Insert chunks into Postgres
  * 8. Update document status
  */
-async function handlePdfUpload(req, res) {
+async function handleDocumentUpload(req, res) {
   console.log("[POST /api/upload] Request received")
 
   try {
@@ -250,26 +1036,35 @@ async function handlePdfUpload(req, res) {
     })
 
     // Validate file type (multer already filters, but double-check)
-    if (req.file.mimetype !== "application/pdf") {
+    const extractor = findExtractor(req.file)
+    if (!extractor) {
       console.log("[POST /api/upload] Invalid file type:", req.file.mimetype)
-      return res.status(400).json({ ok: false, error: "Only PDF files are supported" })
+      return res.status(400).json({ ok: false, error: "Unsupported file type" })
+    }
+    const mimeType = extractor.mimeTypes[0]
+
+    // Chunk size and overlap may be set per upload
+    const chunking = parseChunkingOptions(req.body)
+    if (chunking.error) {
+      console.log("[POST /api/upload] Invalid chunking options:", chunking.error)
+      return res.status(400).json({ ok: false, error: "invalid_chunking", message: chunking.error })
     }
 
     // Generate unique document ID
     const docId = randomUUID()
     const sessionId = req.body.session_id || null
-    const fileName = req.body.filename || req.file.originalname || "document.pdf"
-    const storagePath = `${docId}/original.pdf`
+    const fileName = req.body.filename || req.file.originalname || `document${extractor.extensions[0]}`
+    const storagePath = `${docId}/original${extractor.extensions[0]}`
 
     console.log("[POST /api/upload] Generated doc_id:", docId)
 
-    // Step 1: Upload PDF to Supabase Storage
+    // Step 1: Upload the original file to Supabase Storage
     console.log("[POST /api/upload] Uploading to Supabase Storage...")
     const supabase = getSupabaseClient()
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from(SUPABASE_STORAGE_BUCKET)
       .upload(storagePath, req.file.buffer, {
-        contentType: "application/pdf",
+        contentType: mimeType,
         upsert: true,
       })
 
@@ -290,13 +1085,15 @@ async function handlePdfUpload(req, res) {
       doc_id: docId,
       source: "upload",
       file_name: fileName,
-      mime_type: "application/pdf",
+      mime_type: mimeType,
       storage_path: storagePath,
       status: "uploaded",
       metadata_json: {
         session_id: sessionId,
         size_bytes: req.file.size,
         original_filename: req.file.originalname,
+        format: extractor.format,
+        chunking: { chunk_size: chunking.options.chunkSizeChars, chunk_overlap: chunking.options.overlapChars },
       },
     }
 
@@ -313,51 +1110,91 @@ async function handlePdfUpload(req, res) {
 
     console.log("[POST /api/upload] Document record inserted")
 
-    // Step 3: Extract text from PDF (optional - continue even if extraction fails)
-    let extractedText = ""
-    console.log("[POST /api/upload] Extracting text from PDF...")
-    extractedText = await extractTextFromPdf(req.file.buffer)
-    
+    // Step 3: Extract text (optional - continue even if extraction fails)
+    // Scanned PDF pages are OCR'd by the extractor (lib/pdfOcr.js)
+    console.log("[POST /api/upload] Extracting text with the", extractor.format, "extractor...")
+    const { text: extractedText, pages } = await extractor.extract(req.file.buffer)
+    const ocrPages = (pages || []).filter((page) => page.ocr_confidence !== null)
+    let textExtraction = null
+    let ocrConfidence = null
+
     if (extractedText.length === 0) {
-      console.log("[POST /api/upload] No text extracted from PDF (may be image-based or encrypted)")
+      console.log("[POST /api/upload] No text extracted (may be encrypted, empty or unreadable by OCR)")
+      textExtraction = "failed_or_empty"
       // Update metadata to indicate no text was extracted
       await supabase
         .from("documents")
         .update({
           metadata_json: {
             ...documentRecord.metadata_json,
-            text_extraction: "failed_or_empty",
+            text_extraction: textExtraction,
           },
         })
         .eq("doc_id", docId)
+    } else if (ocrPages.length > 0) {
+      textExtraction = "ocr"
+      ocrConfidence = Math.round(ocrPages.reduce((sum, page) => sum + page.ocr_confidence, 0) / ocrPages.length)
+      console.log("[POST /api/upload] Extracted text length:", extractedText.length, "- OCR'd pages:", ocrPages.length)
+      // Record that (part of) the text comes from OCR, with the mean page confidence
+      // (kept on documentRecord so later metadata updates preserve it)
+      Object.assign(documentRecord.metadata_json, {
+        text_extraction: textExtraction,
+        ocr_pages: ocrPages.map((page) => page.page),
+        ocr_confidence: ocrConfidence,
+      })
+      await supabase.from("documents").update({ metadata_json: documentRecord.metadata_json }).eq("doc_id", docId)
     } else {
+      textExtraction = "ok"
       console.log("[POST /api/upload] Extracted text length:", extractedText.length)
     }
 
     // Step 4: Chunk the extracted text (only if text was extracted)
     let chunks = []
+    let embeddings = null
     let finalStatus = "uploaded"
     
     if (extractedText.length > 0) {
       console.log("[POST /api/upload] Chunking text...")
-      chunks = splitIntoChunks(extractedText, 1200, 200)
+      chunks = splitIntoChunks(extractedText, { ...chunking.options, pages })
       console.log("[POST /api/upload] Created", chunks.length, "chunks")
 
+      // Embed the chunks with the local model (ENABLE_EMBEDDINGS); without embeddings the
+      // document is still retrieved by keywords
+      if (EMBEDDINGS_ENABLED && chunks.length > 0) {
+        try {
+          console.log("[POST /api/upload] Embedding", chunks.length, "chunks with", EMBEDDING_MODEL)
+          embeddings = await embedTexts(chunks.map((chunk) => chunk.content))
+          documentRecord.metadata_json.embedding_model = EMBEDDING_MODEL
+        } catch (embeddingError) {
+          console.error("[POST /api/upload] Embedding error:", embeddingError.message)
+        }
+      }
+
       // Step 5: Insert chunks into Postgres in batches of 200
       if (chunks.length > 0) {
         console.log("[POST /api/upload] Inserting chunks into database...")
-        const chunkRecords = chunks.map((chunk, index) => ({
-          doc_id: docId,
-          chunk_index: index,
-          content: chunk.content,
-          metadata_json: {
-            source: "pdf",
-            file_name: fileName,
-            char_start: chunk.char_start,
-            char_end: chunk.char_end,
-          },
-          embedding: null, // No embeddings in MVP
-        }))
+        const chunkRecords = chunks.map((chunk, index) => {
+          // OCR confidence of the scanned pages this chunk was read from
+          const chunkOcrPages = pagesInRange(ocrPages, chunk.char_start, chunk.char_end)
+          return {
+            doc_id: docId,
+            chunk_index: index,
+            content: chunk.content,
+            metadata_json: {
+              source: extractor.format,
+              file_name: fileName,
+              char_start: chunk.char_start,
+              char_end: chunk.char_end,
+              page_start: chunk.page_start,
+              page_end: chunk.page_end,
+              section: chunk.section,
+              ...(chunkOcrPages.length > 0 && {
+                ocr: chunkOcrPages.map((page) => ({ page: page.page, confidence: page.ocr_confidence })),
+              }),
+            },
+            embedding: embeddings ? embeddings[index] : null,
+          }
+        })
 
         // Insert in batches of 200
         const batchSize = 200
@@ -367,7 +1204,7 @@ async function handlePdfUpload(req, res) {
 
           if (chunkError) {
             console.error("[POST /api/upload] Chunk insert error:", chunkError)
-            // Update document status but don't fail - PDF is still uploaded
+            // Update document status but don't fail - the file is still uploaded
             await supabase
               .from("documents")
               .update({
@@ -379,7 +1216,7 @@ async function handlePdfUpload(req, res) {
               })
               .eq("doc_id", docId)
             
-            // Continue without chunks - PDF is still uploaded successfully
+            // Continue without chunks - the file is still uploaded successfully
             chunks = []
             break
           }
@@ -392,7 +1229,7 @@ async function handlePdfUpload(req, res) {
       }
     } else {
       console.log("[POST /api/upload] No text extracted - skipping chunking")
-      // PDF uploaded successfully but no text chunks
+      // File uploaded successfully but no text chunks
       finalStatus = "uploaded"
     }
 
@@ -400,7 +1237,10 @@ async function handlePdfUpload(req, res) {
     console.log("[POST /api/upload] Updating document status to", finalStatus)
     const { error: updateError } = await supabase
       .from("documents")
-      .update({ status: finalStatus })
+      .update({
+        status: finalStatus,
+        ...(finalStatus === "chunked" && embeddings && { metadata_json: documentRecord.metadata_json }),
+      })
       .eq("doc_id", docId)
 
     if (updateError) {
@@ -415,6 +1255,11 @@ async function handlePdfUpload(req, res) {
       status: finalStatus,
       chunks_count: chunks.length,
       file_name: fileName,
+      mime_type: mimeType,
+      format: extractor.format,
+      text_extraction: textExtraction,
+      ocr_confidence: ocrConfidence,
+      embedded: finalStatus === "chunked" && embeddings !== null,
       storage_path: storagePath,
     })
   } catch (err) {
@@ -427,16 +1272,120 @@ async function handlePdfUpload(req, res) {
   }
 }
 
-// PDF upload endpoints (both /api/upload and /api/documents/upload)
-app.post("/api/upload", upload.single("file"), handlePdfUpload)
-app.post("/api/documents/upload", upload.single("file"), handlePdfUpload)
+// Run the upload middleware, reporting rejected files (type, size) as JSON errors
+function acceptUpload(req, res, next) {
+  upload.single("file")(req, res, (err) => {
+    if (err) {
+      console.log("[POST /api/upload] Rejected file:", err.message)
+      return res.status(400).json({ ok: false, error: "invalid_file", message: err.message })
+    }
+    next()
+  })
+}
 
-const PORT = Number(process.env.PORT || 3000)
-app.listen(PORT, () => {
-  console.log(`Backend listening on ${PORT}`)
-  console.log(`N8N Webhook URL: ${N8N_WEBHOOK_URL || "NOT SET"}`)
-  console.log(`N8N Upload Webhook URL: ${N8N_UPLOAD_WEBHOOK_URL || "NOT SET"}`)
-  console.log(`Frontend Origin: ${FRONTEND_ORIGIN || "NOT SET"}`)
-  console.log(`Supabase Storage Bucket: ${SUPABASE_STORAGE_BUCKET || "NOT SET"}`)
-  console.log(`Available endpoints: GET /, GET /health, POST /api/chat, POST /api/upload, POST /api/documents/upload`)
+// Document upload endpoints (both /api/upload and /api/documents/upload)
+app.post("/api/upload", acceptUpload, handleDocumentUpload)
+app.post("/api/documents/upload", acceptUpload, handleDocumentUpload)
+
+/**
+ * Get a document chunk
+ * Used to show the passage cited by a TRL evidence ref; includes the document's file name
+ */
+app.get("/api/documents/:docId/chunks/:chunkIndex", async (req, res) => {
+  try {
+    const chunkIndex = parseInt(req.params.chunkIndex, 10)
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0) {
+      return res.status(400).json({ ok: false, error: "chunkIndex must be a non-negative integer" })
+    }
+
+    const chunk = await fetchChunk(req.params.docId, chunkIndex)
+    if (!chunk) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+
+    const supabase = getSupabaseClient()
+    const { data: document } = await supabase
+      .from("documents")
+      .select("file_name")
+      .eq("doc_id", req.params.docId)
+      .maybeSingle()
+
+    return res.status(200).json({ ok: true, chunk: { ...chunk, file_name: document?.file_name || null } })
+  } catch (err) {
+    console.error("[GET /api/documents/:docId/chunks/:chunkIndex] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Get a document
+ * Library summary plus storage path and raw metadata
+ */
+app.get("/api/documents/:docId", async (req, res) => {
+  try {
+    const row = await fetchDocument(req.params.docId)
+    if (!row) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+    const counts = await countChunks([row.doc_id])
+    return res.status(200).json({
+      ok: true,
+      document: {
+        ...summarizeDocument(row, counts.get(row.doc_id) ?? 0),
+        storage_path: row.storage_path,
+        metadata_json: row.metadata_json || {},
+      },
+    })
+  } catch (err) {
+    console.error("[GET /api/documents/:docId] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
+})
+
+/**
+ * Delete a document
+ * Removes its chunks, its original file from Supabase Storage and the document row.
+ * TRL evidence refs that cite the document stop resolving.
+ */
+app.delete("/api/documents/:docId", async (req, res) => {
+  try {
+    const row = await fetchDocument(req.params.docId)
+    if (!row) {
+      return res.status(404).json({ ok: false, error: "not_found" })
+    }
+
+    const { chunks_deleted, storage_deleted } = await deleteDocument(row, SUPABASE_STORAGE_BUCKET)
+    console.log("[DELETE /api/documents/:docId] Deleted document:", row.doc_id, "chunks:", chunks_deleted, "storage object:", storage_deleted)
+    return res.status(200).json({ ok: true, doc_id: row.doc_id, chunks_deleted, storage_deleted })
+  } catch (err) {
+    console.error("[DELETE /api/documents/:docId] Error:", err)
+    return res.status(500).json({
+      ok: false,
+      error: "backend_error",
+      message: err?.message || String(err),
+    })
+  }
 })
+
+export default app
+
+// Listen only when run directly (tests import the app)
+const PORT = Number(process.env.PORT || 3000)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  app.listen(PORT, () => {
+    console.log(`Backend listening on ${PORT}`)
+    console.log(`N8N Webhook URL: ${N8N_WEBHOOK_URL || "NOT SET"}`)
+    console.log(`N8N Upload Webhook URL: ${N8N_UPLOAD_WEBHOOK_URL || "NOT SET"}`)
+    console.log(`Frontend Origin: ${FRONTEND_ORIGIN || "NOT SET"}`)
+    console.log(`Supabase Storage Bucket: ${SUPABASE_STORAGE_BUCKET || "NOT SET"}`)
+    console.log(`Available endpoints: GET /, GET /health, POST /api/chat, POST /api/onboarding, POST/GET /api/sessions, GET/PATCH /api/sessions/:id, POST /api/sessions/:id/scores, GET /api/sessions/:id/report, GET /api/sessions/:id/documents, GET /api/vuks, GET/PATCH /api/vuks/:id, POST /api/vuks/:id/transitions, POST /api/vuks/:id/trl-assessment, GET /api/taxonomy, GET /api/taxonomy/search, GET /api/taxonomy/nodes/:id, POST /api/upload, POST /api/documents/upload, GET/DELETE /api/documents/:docId, GET /api/documents/:docId/chunks/:chunkIndex`)
+  })
+}
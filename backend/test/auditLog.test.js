@@ -0,0 +1,124 @@
+/**
+ * Audit log
+ * Dot-notation diffs and the append-only log contract checked on every update
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { createLogEntry, diffFields, verifyLogAppend } from "../lib/auditLog.js"
+
+const ENTRY = {
+  timestamp: "2026-01-01T10:00:00.000Z",
+  step: "create",
+  description: "Created session",
+  affected_fields: [],
+}
+
+const before = {
+  session_id: "session-1",
+  updated_at: "2026-01-01T10:00:00.000Z",
+  status: "initialized",
+  onboarding_answers: { scientific_basis: "Ion transport", example_entities: ["QuantumScape"] },
+  artifacts: { scores: { overall: 40, dimensions: { market: 3 } } },
+  logs: [ENTRY],
+}
+
+// Apply a change and append the entry a client would send
+function update(changes, affected_fields) {
+  const after = { ...before, ...changes, updated_at: "2026-01-02T10:00:00.000Z" }
+  const entry = { ...ENTRY, step: "edit", description: "Edited", affected_fields }
+  return { ...after, logs: [...before.logs, entry] }
+}
+
+test("diffFields reports nested changes in dot notation", () => {
+  const after = {
+    ...before,
+    onboarding_answers: { ...before.onboarding_answers, exclusions: "Lead-acid" },
+    artifacts: { scores: { overall: 40, dimensions: { market: 4 } } },
+  }
+
+  assert.deepEqual(diffFields(before, after), ["artifacts.scores.dimensions.market", "onboarding_answers.exclusions"])
+})
+
+test("diffFields compares arrays as a whole and skips bookkeeping fields", () => {
+  const after = {
+    ...before,
+    updated_at: "2026-01-02T10:00:00.000Z",
+    onboarding_answers: { ...before.onboarding_answers, example_entities: ["QuantumScape", "Solid Power"] },
+    logs: [...before.logs, ENTRY],
+  }
+
+  assert.deepEqual(diffFields(before, after), ["onboarding_answers.example_entities"])
+})
+
+test("createLogEntry lists the changed fields", () => {
+  const entry = createLogEntry(before, { ...before, status: "onboarding" }, "onboarding", "Started onboarding")
+
+  assert.equal(entry.step, "onboarding")
+  assert.deepEqual(entry.affected_fields, ["status"])
+})
+
+test("an entry naming every changed field is accepted", () => {
+  const after = update(
+    { status: "scored", artifacts: { scores: { overall: 55, dimensions: { market: 3 } } } },
+    ["artifacts.scores.overall", "status"]
+  )
+
+  assert.equal(verifyLogAppend(before, after), null)
+})
+
+test("a parent path covers its child fields", () => {
+  const after = update({ artifacts: { scores: { overall: 55, dimensions: { market: 5 } } } }, ["artifacts.scores"])
+
+  assert.equal(verifyLogAppend(before, after), null)
+})
+
+test("a path does not cover a sibling that shares its prefix", () => {
+  const after = update({ artifacts: { scores: { overall: 55, dimensions: { market: 3 } } } }, ["artifacts.score"])
+
+  assert.match(verifyLogAppend(before, after), /missing: artifacts\.scores\.overall/)
+})
+
+test("an update without a new entry is rejected", () => {
+  const after = { ...before, status: "scored" }
+
+  assert.match(verifyLogAppend(before, after), /append exactly one log entry/)
+})
+
+test("an update with more than one new entry is rejected", () => {
+  const after = update({ status: "scored" }, ["status"])
+  after.logs.push({ ...ENTRY, step: "extra" })
+
+  assert.match(verifyLogAppend(before, after), /append exactly one log entry/)
+})
+
+test("changing an earlier entry is rejected", () => {
+  const after = update({ status: "scored" }, ["status"])
+  after.logs[0] = { ...ENTRY, description: "Rewritten" }
+
+  assert.match(verifyLogAppend(before, after), /cannot be modified or removed/)
+})
+
+test("removing an earlier entry is rejected", () => {
+  const after = update({ status: "scored" }, ["status"])
+  const appended = after.logs.at(-1)
+  after.logs = [appended, { ...appended, step: "padding" }]
+
+  assert.match(verifyLogAppend(before, after), /cannot be modified or removed/)
+  assert.match(verifyLogAppend(before, { ...after, logs: [appended] }), /append exactly one log entry/)
+})
+
+test("an entry missing a changed field is rejected", () => {
+  const after = update(
+    { status: "scored", onboarding_answers: { ...before.onboarding_answers, scientific_basis: "Solid electrolytes" } },
+    ["status"]
+  )
+
+  assert.equal(verifyLogAppend(before, after), "Log entry affected_fields is missing: onboarding_answers.scientific_basis")
+})
+
+test("an entry without affected_fields is rejected", () => {
+  const after = update({ status: "scored" }, undefined)
+
+  assert.equal(verifyLogAppend(before, after), "Log entry must include affected_fields")
+})
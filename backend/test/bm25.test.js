@@ -0,0 +1,92 @@
+/**
+ * BM25 ranking and keyword retrieval
+ * Ranks the fixture corpus (test/fixtures/retrievalCorpus.json) for stemmed, stopword-only,
+ * acronym and quoted-phrase queries
+ */
+
+import { test, after } from "node:test"
+import assert from "node:assert/strict"
+import { readFileSync } from "node:fs"
+import { stem, parseQuery, scoreBm25 } from "../lib/bm25.js"
+import { retrieveTopChunks } from "../lib/chunkRetrieval.js"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+const { chunks } = JSON.parse(readFileSync(new URL("./fixtures/retrievalCorpus.json", import.meta.url), "utf8"))
+
+// Indexes of the chunks that match the message, best first
+function rank(message) {
+  const scores = scoreBm25(chunks, parseQuery(message))
+  return scores
+    .map((score, index) => ({ score, index }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.index)
+}
+
+after(() => {
+  setSupabaseClient(null)
+})
+
+test("inflections of a word share one stem", () => {
+  assert.equal(stem("using"), "use")
+  assert.equal(stem("used"), "use")
+  assert.equal(stem("uses"), "use")
+  assert.equal(stem("use"), "use")
+  assert.equal(stem("storing"), stem("store"))
+  assert.equal(stem("batteries"), stem("battery"))
+  assert.equal(stem("bring"), "bring")
+})
+
+test("stemmed queries match other inflections", () => {
+  assert.deepEqual(rank("battery storing"), [0, 1])
+  assert.deepEqual(rank("using"), [3, 2, 1])
+})
+
+test("short tokens and acronyms are kept", () => {
+  assert.deepEqual(parseQuery("TRL of a 5G or CRISPR kit").terms, ["trl", "5g", "crispr", "kit"])
+})
+
+test("acronym queries rank the chunk containing them first", () => {
+  assert.deepEqual(rank("TRL"), [6])
+  assert.deepEqual(rank("sensor TRL"), [6, 7])
+  assert.deepEqual(rank("5G network"), [6, 7])
+  assert.deepEqual(rank("CRISPR editing"), [5, 7])
+})
+
+test("stopword-only queries match nothing", () => {
+  assert.deepEqual(parseQuery("what is it and how does it").terms, [])
+  assert.deepEqual(rank("what is it and how does it"), [])
+})
+
+test("quoted phrases rank adjacent terms first", () => {
+  assert.deepEqual(rank('"solid electrolyte"'), [1, 0])
+  assert.deepEqual(rank("electrolyte solid"), [0, 1])
+})
+
+test("keyword retrieval returns only matching chunks with their BM25 score", async () => {
+  setSupabaseClient(
+    createFakeSupabase({
+      tables: {
+        document_chunks: chunks.map((content, index) => ({
+          chunk_pk: `chunk-${index}`,
+          doc_id: "doc-1",
+          chunk_index: index,
+          content,
+          metadata_json: {},
+        })),
+      },
+    })
+  )
+
+  const retrieved = await retrieveTopChunks({ docIds: ["doc-1"], message: "thermal validation", topK: 3 })
+
+  assert.equal(retrieved.length, 1)
+  assert.equal(retrieved[0].chunk_index, 3)
+  assert.ok(retrieved[0].bm25 > 0)
+  assert.equal(retrieved[0].similarity, null)
+  assert.deepEqual(
+    retrieved[0].highlights.map(([start, end]) => retrieved[0].content.slice(start, end)),
+    ["validate", "thermal"]
+  )
+})
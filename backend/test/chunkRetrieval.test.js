@@ -0,0 +1,79 @@
+/**
+ * Chunk retrieval with embeddings
+ * A selection mixing embedded and non-embedded documents cites both: the similarity and BM25
+ * rankings share the topK slots
+ */
+
+import { test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+let retrieveTopChunks
+let setEmbeddingExtractor
+let EMBEDDING_MODEL
+
+// Chunks of the embedded document, as match_document_chunks returns them (best first)
+const EMBEDDED_CHUNKS = Array.from({ length: 6 }, (_, index) => ({
+  doc_id: "embedded-doc",
+  chunk_index: index,
+  content: `Embedded chunk ${index} about solid electrolytes.`,
+  metadata_json: {},
+  similarity: 0.9 - index / 100,
+}))
+
+before(async () => {
+  // embeddings.js reads ENABLE_EMBEDDINGS when it is loaded
+  process.env.ENABLE_EMBEDDINGS = "true"
+  ;({ retrieveTopChunks } = await import("../lib/chunkRetrieval.js"))
+  ;({ setEmbeddingExtractor, EMBEDDING_MODEL } = await import("../lib/embeddings.js"))
+
+  setEmbeddingExtractor(async (texts) => ({ tolist: () => texts.map(() => new Array(384).fill(0)) }))
+  setSupabaseClient(
+    createFakeSupabase({
+      tables: {
+        documents: [
+          { doc_id: "embedded-doc", metadata_json: { embedding_model: EMBEDDING_MODEL } },
+          { doc_id: "keyword-doc", metadata_json: {} },
+        ],
+        document_chunks: [
+          { chunk_pk: 1, doc_id: "keyword-doc", chunk_index: 0, content: "The electrolyte passed thermal tests.", metadata_json: {} },
+          { chunk_pk: 2, doc_id: "keyword-doc", chunk_index: 1, content: "Pricing is not discussed here.", metadata_json: {} },
+        ],
+      },
+      rpc: {
+        match_document_chunks: ({ filter_doc_ids, match_count }) => ({
+          data: EMBEDDED_CHUNKS.filter((chunk) => filter_doc_ids.includes(chunk.doc_id)).slice(0, match_count),
+        }),
+      },
+    })
+  )
+})
+
+after(() => {
+  setEmbeddingExtractor(null)
+  setSupabaseClient(null)
+})
+
+test("embedded and non-embedded documents share the slots", async () => {
+  const chunks = await retrieveTopChunks({
+    docIds: ["embedded-doc", "keyword-doc"],
+    message: "electrolyte thermal",
+    topK: 4,
+  })
+
+  assert.deepEqual(
+    chunks.map((chunk) => `${chunk.doc_id}#${chunk.chunk_index}`),
+    ["embedded-doc#0", "keyword-doc#0", "embedded-doc#1", "embedded-doc#2"]
+  )
+  assert.equal(chunks[1].similarity, null)
+  assert.ok(chunks[1].bm25 > 0)
+  assert.equal(chunks[0].bm25, null)
+})
+
+test("embedded documents alone fill every slot", async () => {
+  const chunks = await retrieveTopChunks({ docIds: ["embedded-doc"], message: "electrolyte", topK: 4 })
+
+  assert.equal(chunks.length, 4)
+  assert.ok(chunks.every((chunk) => chunk.doc_id === "embedded-doc"))
+})
@@ -0,0 +1,50 @@
+/**
+ * Text chunking
+ * Chunks stay within chunk_size, including the section heading that opens them
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { splitIntoChunks } from "../lib/chunking.js"
+
+const CHUNK_SIZE = 300
+
+// Sentences of about 60 characters
+function sentences(count, word) {
+  return Array.from({ length: count }, (_, i) => `Sentence ${i + 1} describes the ${word} of the cell design.`).join(" ")
+}
+
+function assertWithinSize(chunks) {
+  for (const chunk of chunks) {
+    assert.ok(chunk.content.length <= CHUNK_SIZE, `chunk of ${chunk.content.length} chars: ${JSON.stringify(chunk.content)}`)
+    assert.equal(chunk.char_end - chunk.char_start, chunk.content.length)
+  }
+}
+
+test("a heading and a paragraph of nearly chunk_size are split to fit", () => {
+  const paragraph = sentences(5, "electrolyte").slice(0, CHUNK_SIZE - 5)
+  const text = `# Solid electrolyte results\n\n${paragraph}`
+  const chunks = splitIntoChunks(text, { chunkSizeChars: CHUNK_SIZE, overlapChars: 0 })
+
+  assertWithinSize(chunks)
+  assert.ok(chunks[0].content.startsWith("# Solid electrolyte results"))
+  assert.ok(chunks.every((chunk) => chunk.section === "Solid electrolyte results"))
+})
+
+test("a heading followed by one long sentence is split to fit", () => {
+  const text = `2.1 Results\n${"word ".repeat(120).trim()}`
+  const chunks = splitIntoChunks(text, { chunkSizeChars: CHUNK_SIZE, overlapChars: 50 })
+
+  assertWithinSize(chunks)
+  assert.ok(chunks[0].content.startsWith("2.1 Results"))
+})
+
+test("stacked headings never push a chunk over chunk_size", () => {
+  const heading = (n) => `## ${"Section heading ".repeat(6)}${n}`
+  const text = `${heading(1)}\n\n${heading(2)}\n\n${heading(3)}\n\n${sentences(4, "anode")}\n\n${sentences(8, "cathode")}`
+  const chunks = splitIntoChunks(text, { chunkSizeChars: CHUNK_SIZE, overlapChars: 60 })
+
+  assertWithinSize(chunks)
+  assert.ok(chunks.length > 1)
+  assert.ok(chunks.every((chunk) => chunk.section === `${"Section heading ".repeat(6)}3`))
+})
@@ -0,0 +1,78 @@
+/**
+ * Document deletion
+ * DELETE /api/documents/:docId deletes the rows through the delete_document function and
+ * removes the storage object only after they are gone
+ */
+
+import { test, before, after, beforeEach } from "node:test"
+import assert from "node:assert/strict"
+import app from "../server.js"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+const BUCKET = process.env.SUPABASE_STORAGE_BUCKET || "raw-ingest"
+
+let server
+let baseUrl
+let supabase
+let failDelete
+
+// Stand-in for the delete_document SQL function (db/supabase.sql)
+function deleteDocumentRpc({ target_doc_id }, tables) {
+  if (failDelete) {
+    return { error: { message: "deadlock detected" } }
+  }
+  const chunks = tables.document_chunks.filter((chunk) => chunk.doc_id === target_doc_id)
+  tables.document_chunks = tables.document_chunks.filter((chunk) => chunk.doc_id !== target_doc_id)
+  tables.documents = tables.documents.filter((document) => document.doc_id !== target_doc_id)
+  return { data: chunks.length }
+}
+
+before(async () => {
+  server = app.listen(0)
+  await new Promise((resolve) => server.once("listening", resolve))
+  baseUrl = `http://127.0.0.1:${server.address().port}`
+})
+
+beforeEach(async () => {
+  failDelete = false
+  supabase = createFakeSupabase({
+    tables: {
+      documents: [{ doc_id: "doc-1", session_id: "session-1", file_name: "notes.txt", storage_path: "session-1/notes.txt" }],
+      document_chunks: [
+        { doc_id: "doc-1", chunk_index: 0, content: "First" },
+        { doc_id: "doc-1", chunk_index: 1, content: "Second" },
+      ],
+    },
+    rpc: { delete_document: deleteDocumentRpc },
+  })
+  await supabase.storage.from(BUCKET).upload("session-1/notes.txt", "notes")
+  setSupabaseClient(supabase)
+})
+
+after(() => {
+  server.close()
+  setSupabaseClient(null)
+})
+
+test("deletes the rows, then the storage object", async () => {
+  const response = await fetch(`${baseUrl}/api/documents/doc-1`, { method: "DELETE" })
+  const body = await response.json()
+
+  assert.equal(response.status, 200, JSON.stringify(body))
+  assert.equal(body.chunks_deleted, 2)
+  assert.equal(body.storage_deleted, true)
+  assert.deepEqual(supabase.tables.documents, [])
+  assert.deepEqual(supabase.tables.document_chunks, [])
+  assert.equal(supabase.storage.objects.size, 0)
+})
+
+test("keeps the storage object when the rows cannot be deleted", async () => {
+  failDelete = true
+  const response = await fetch(`${baseUrl}/api/documents/doc-1`, { method: "DELETE" })
+
+  assert.equal(response.status, 500)
+  assert.equal(supabase.tables.documents.length, 1)
+  assert.equal(supabase.tables.document_chunks.length, 2)
+  assert.equal(supabase.storage.objects.size, 1)
+})
@@ -0,0 +1,159 @@
+/**
+ * In-memory Supabase client for tests
+ * Supports the query builder calls the backend uses (select / insert / update / delete with
+ * eq, in, is, order, range, single, maybeSingle), Storage upload/remove and rpc handlers.
+ */
+
+/**
+ * Create a fake client
+ *
+ * @param {object} [options]
+ * @param {Record<string, object[]>} [options.tables] - Initial rows per table
+ * @param {Record<string, (args: object, tables: Record<string, object[]>) => {data?: any, error?: any}>} [options.rpc] - RPC handlers
+ */
+export function createFakeSupabase({ tables = {}, rpc = {} } = {}) {
+  const store = Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.map((row) => ({ ...row }))]))
+  const storage = new Map()
+
+  const tableRows = (name) => {
+    if (!store[name]) store[name] = []
+    return store[name]
+  }
+
+  function from(table) {
+    const filters = []
+    let action = "select"
+    let payload = null
+    let returning = false
+    let countMode = null
+    let head = false
+    let order = null
+    let range = null
+    let single = null
+
+    const matches = (row) => filters.every((filter) => filter(row))
+
+    const run = () => {
+      const rows = tableRows(table)
+      let data = null
+      if (action === "insert") {
+        const inserted = (Array.isArray(payload) ? payload : [payload]).map((row) => ({ ...row }))
+        rows.push(...inserted)
+        data = inserted
+      } else if (action === "update") {
+        data = rows.filter(matches)
+        for (const row of data) Object.assign(row, payload)
+        data = data.map((row) => ({ ...row }))
+      } else if (action === "delete") {
+        data = rows.filter(matches)
+        store[table] = rows.filter((row) => !matches(row))
+      } else {
+        data = rows.filter(matches).map((row) => ({ ...row }))
+      }
+
+      const count = data.length
+      if (action === "select" || returning) {
+        if (order) {
+          const { column, ascending } = order
+          data.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1))
+        }
+        if (range) data = data.slice(range[0], range[1] + 1)
+      } else {
+        data = null
+      }
+      if (head) data = null
+
+      if (single) {
+        if (data.length > 1 || (single === "single" && data.length === 0)) {
+          return { data: null, error: { message: `Expected one row, got ${data.length}` }, count: null }
+        }
+        return { data: data[0] ?? null, error: null, count: countMode ? count : null }
+      }
+      return { data, error: null, count: countMode ? count : null }
+    }
+
+    const builder = {
+      select(_columns, options = {}) {
+        if (action === "select") action = "select"
+        else returning = true
+        countMode = options.count || null
+        head = !!options.head
+        return builder
+      },
+      insert(rows) {
+        action = "insert"
+        payload = rows
+        return builder
+      },
+      update(patch) {
+        action = "update"
+        payload = patch
+        return builder
+      },
+      delete(options = {}) {
+        action = "delete"
+        countMode = options.count || null
+        return builder
+      },
+      eq(column, value) {
+        filters.push((row) => row[column] === value)
+        return builder
+      },
+      in(column, values) {
+        filters.push((row) => values.includes(row[column]))
+        return builder
+      },
+      is(column, value) {
+        filters.push((row) => (row[column] ?? null) === value)
+        return builder
+      },
+      order(column, { ascending = true } = {}) {
+        order = { column, ascending }
+        return builder
+      },
+      range(start, end) {
+        range = [start, end]
+        return builder
+      },
+      single() {
+        single = "single"
+        return builder
+      },
+      maybeSingle() {
+        single = "maybeSingle"
+        return builder
+      },
+      then(resolve, reject) {
+        return Promise.resolve().then(run).then(resolve, reject)
+      },
+    }
+    return builder
+  }
+
+  return {
+    tables: store,
+    storage: {
+      objects: storage,
+      from(bucket) {
+        return {
+          async upload(path, body) {
+            storage.set(`${bucket}/${path}`, body)
+            return { data: { path }, error: null }
+          },
+          async remove(paths) {
+            for (const path of paths) storage.delete(`${bucket}/${path}`)
+            return { data: paths, error: null }
+          },
+        }
+      },
+    },
+    from,
+    async rpc(name, args) {
+      if (!rpc[name]) {
+        return { data: null, error: { message: `Unknown function ${name}` } }
+      }
+      const { data = null, error = null } = rpc[name](args, store) || {}
+      return { data, error }
+    },
+  }
+}
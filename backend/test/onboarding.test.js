@@ -0,0 +1,96 @@
+/**
+ * Onboarding endpoint
+ * POST /api/onboarding saves the answers to the session before forwarding them to a local
+ * stand-in for the n8n webhook
+ */
+
+import { test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { createServer } from "node:http"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { buildSession, fetchSession, insertSession } from "../lib/sessionStore.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+const ANSWERS = {
+  scientific_basis: "Solid electrolytes conduct lithium ions",
+  primary_applications: "Electric vehicles",
+  secondary_applications: "",
+  exclusions: "",
+  example_entities: ["QuantumScape"],
+  deployment_layer: "Cell",
+  strategic_focus: [],
+}
+
+let n8n
+let n8nStatus = 200
+let server
+let baseUrl
+
+before(async () => {
+  n8n = createServer((req, res) => {
+    res.writeHead(n8nStatus, { "Content-Type": "application/json" })
+    res.end(JSON.stringify({ assistant_text: "Thanks" }))
+  })
+  n8n.listen(0)
+  await new Promise((resolve) => n8n.once("listening", resolve))
+  // server.js reads the webhook URL when it is loaded
+  process.env.N8N_WEBHOOK_URL = `http://127.0.0.1:${n8n.address().port}/webhook`
+  const { default: app } = await import("../server.js")
+
+  setSupabaseClient(createFakeSupabase())
+  server = app.listen(0)
+  await new Promise((resolve) => server.once("listening", resolve))
+  baseUrl = `http://127.0.0.1:${server.address().port}`
+})
+
+after(() => {
+  server.close()
+  n8n.close()
+  setSupabaseClient(null)
+})
+
+function submit(sessionId, answers) {
+  return fetch(`${baseUrl}/api/onboarding`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ session_id: sessionId, onboarding_answers: answers }),
+  })
+}
+
+test("answers are saved to an existing session with a log entry", async () => {
+  await insertSession(buildSession("session-1"))
+
+  const response = await submit("session-1", ANSWERS)
+  assert.equal(response.status, 200, JSON.stringify(await response.clone().json()))
+
+  const stored = await fetchSession("session-1")
+  assert.deepEqual(stored.onboarding_answers, ANSWERS)
+  const entry = stored.logs.at(-1)
+  assert.equal(entry.step, "onboarding")
+  assert.deepEqual(entry.affected_fields, [
+    "onboarding_answers.deployment_layer",
+    "onboarding_answers.example_entities",
+    "onboarding_answers.primary_applications",
+    "onboarding_answers.scientific_basis",
+  ])
+})
+
+test("answers for an unknown session create it", async () => {
+  const response = await submit("session-2", ANSWERS)
+  assert.equal(response.status, 200)
+
+  const stored = await fetchSession("session-2")
+  assert.deepEqual(stored.onboarding_answers, ANSWERS)
+  assert.deepEqual(stored.logs.map((entry) => entry.step), ["onboarding"])
+})
+
+test("answers are kept when the pipeline fails", async () => {
+  n8nStatus = 502
+  try {
+    const response = await submit("session-3", { ...ANSWERS, deployment_layer: "Pack" })
+    assert.equal(response.status, 502)
+    assert.equal((await fetchSession("session-3")).onboarding_answers.deployment_layer, "Pack")
+  } finally {
+    n8nStatus = 200
+  }
+})
@@ -0,0 +1,40 @@
+/**
+ * PDF report rendering
+ * Non-Latin text is rendered with the embedded Unicode font and can be read back from the PDF
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { PDFParse } from "pdf-parse"
+import { renderPdf } from "../lib/report.js"
+
+const report = {
+  title: "Evaluation report",
+  subtitle: "Session session-1",
+  generated_at: "2026-01-01T10:00:00.000Z",
+  sections: [
+    {
+      title: "Technology",
+      blocks: [
+        { type: "fields", rows: [["Name", "סוללה מוצקה"]] },
+        { type: "paragraph", text: "Твердотельный аккумулятор · Μπαταρία στερεάς κατάστασης" },
+        { type: "table", header: ["Node", "Label"], rows: [["energy.storage", "אגירת אנרגיה"]] },
+      ],
+    },
+  ],
+}
+
+test("PDF embeds a Unicode font and keeps non-Latin text", async () => {
+  const pdf = await renderPdf(report)
+  assert.ok(pdf.includes("DejaVuSans"))
+
+  const parser = new PDFParse({ data: pdf })
+  try {
+    const { text } = await parser.getText()
+    for (const word of ["סוללה", "מוצקה", "Твердотельный", "Μπαταρία", "אנרגיה"]) {
+      assert.ok(text.includes(word), `${word} missing from ${JSON.stringify(text)}`)
+    }
+  } finally {
+    await parser.destroy()
+  }
+})
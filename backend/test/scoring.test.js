@@ -0,0 +1,79 @@
+/**
+ * Scoring engine
+ * Weights, missing inputs and inputs hash; the cases in test/fixtures/scoring.json are shared
+ * with the client-side preview (src/lib/scoring.test.ts)
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { readFileSync } from "node:fs"
+import { computeScores, hashScoringInputs, validateScoringInputs, SCORING_ENGINE_VERSION } from "../lib/scoring.js"
+
+const { cases } = JSON.parse(readFileSync(new URL("./fixtures/scoring.json", import.meta.url), "utf8"))
+const [weighted] = cases
+
+for (const { name, weights, metrics, expected } of cases) {
+  test(`computeScores: ${name}`, () => {
+    const result = computeScores(weights, metrics)
+    assert.equal(result.overall, expected.overall)
+    assert.deepEqual(result.dimensions, expected.dimensions)
+  })
+}
+
+test("computeScores records the engine version and its inputs", () => {
+  const result = computeScores(weighted.weights, weighted.metrics)
+  assert.equal(result.engine_version, SCORING_ENGINE_VERSION)
+  assert.deepEqual(result.inputs, { weights: weighted.weights, metrics: weighted.metrics })
+  assert.equal(result.inputs_hash, hashScoringInputs(weighted.weights, weighted.metrics))
+})
+
+test("inputs hash does not depend on key order", () => {
+  const reorderedWeights = {
+    dimensions: Object.fromEntries(Object.entries(weighted.weights.dimensions).reverse()),
+    version: weighted.weights.version,
+  }
+  const reorderedMetrics = Object.fromEntries(
+    Object.entries(weighted.metrics)
+      .reverse()
+      .map(([metric, value]) => [metric, Object.fromEntries(Object.entries(value).reverse())])
+  )
+
+  assert.equal(hashScoringInputs(reorderedWeights, reorderedMetrics), hashScoringInputs(weighted.weights, weighted.metrics))
+  // Pinned so a change to the canonical serialization is noticed (stored hashes would stop matching)
+  assert.equal(
+    hashScoringInputs(weighted.weights, weighted.metrics),
+    "9803151be0e43bea2fb1c31020d46515edc677b6bb2b26490b6ee1d26f85eab5"
+  )
+})
+
+test("inputs hash changes with any input value", () => {
+  const hash = hashScoringInputs(weighted.weights, weighted.metrics)
+  const metrics = { ...weighted.metrics, trl: { ...weighted.metrics.trl, value: 7 } }
+  const weights = {
+    ...weighted.weights,
+    dimensions: { ...weighted.weights.dimensions, market: { ...weighted.weights.dimensions.market, weight: 2 } },
+  }
+
+  assert.notEqual(hashScoringInputs(weighted.weights, metrics), hash)
+  assert.notEqual(hashScoringInputs(weights, weighted.metrics), hash)
+})
+
+test("validateScoringInputs reports invalid weights and metrics", () => {
+  assert.deepEqual(validateScoringInputs(weighted.weights, weighted.metrics), [])
+  assert.deepEqual(validateScoringInputs(weighted.weights, {}), [])
+
+  const violations = validateScoringInputs(
+    { dimensions: { technology: { weight: -1, metrics: {} } } },
+    { trl: { value: 5, min: 9, max: 1, direction: "up" } }
+  )
+  assert.deepEqual(
+    violations.map((violation) => violation.path),
+    [
+      "weights.dimensions.technology.weight",
+      "weights.dimensions.technology.metrics",
+      "metrics.trl.max",
+      "metrics.trl.direction",
+    ]
+  )
+  assert.deepEqual(validateScoringInputs(null, null).map((violation) => violation.path), ["weights.dimensions", "metrics"])
+})
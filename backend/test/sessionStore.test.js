@@ -0,0 +1,50 @@
+/**
+ * Session store
+ * saveSession only replaces a session that has not changed since it was read, so concurrent
+ * log appends cannot drop each other
+ */
+
+import { test, beforeEach, after } from "node:test"
+import assert from "node:assert/strict"
+import { buildSession, fetchSession, insertSession, mergeSession, saveSession } from "../lib/sessionStore.js"
+import { createLogEntry } from "../lib/auditLog.js"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+// Session with one more log entry, as PATCH /api/sessions/:id receives it
+function answer(session, scientificBasis) {
+  const updated = mergeSession(session, { onboarding_answers: { scientific_basis: scientificBasis } })
+  updated.logs = [...session.logs, createLogEntry(session, updated, "onboarding", "Answered scientific basis")]
+  return updated
+}
+
+beforeEach(async () => {
+  setSupabaseClient(createFakeSupabase())
+  await insertSession({ ...buildSession("session-1"), updated_at: "2026-01-01T10:00:00.000Z" })
+})
+
+after(() => {
+  setSupabaseClient(null)
+})
+
+test("saveSession replaces the session it was based on", async () => {
+  const current = await fetchSession("session-1")
+  const stored = await saveSession(answer(current, "first"), current.updated_at)
+
+  assert.equal(stored.onboarding_answers.scientific_basis, "first")
+  assert.equal(stored.logs.length, current.logs.length + 1)
+})
+
+test("saveSession does not overwrite a session changed since it was read", async () => {
+  const first = await fetchSession("session-1")
+  const second = await fetchSession("session-1")
+
+  const saved = await saveSession(answer(first, "first"), first.updated_at)
+  const stale = await saveSession(answer(second, "second"), second.updated_at)
+
+  assert.ok(saved)
+  assert.equal(stale, null)
+  const stored = await fetchSession("session-1")
+  assert.equal(stored.onboarding_answers.scientific_basis, "first")
+  assert.deepEqual(stored.logs, saved.logs)
+})
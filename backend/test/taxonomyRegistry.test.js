@@ -0,0 +1,56 @@
+/**
+ * Taxonomy registry
+ * Loaded versions are cached; unknown versions are read again and never cached
+ */
+
+import { test, beforeEach, after } from "node:test"
+import assert from "node:assert/strict"
+import { loadTaxonomyRegistry } from "../lib/taxonomyRegistry.js"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+let supabase
+let reads
+
+beforeEach(() => {
+  supabase = createFakeSupabase({
+    tables: {
+      taxonomy_nodes: [
+        { version: "cache-v1", node_id: "energy", parent_node_id: null, level: 1, label: "Energy", l1: "Energy", l2: null, l3: null },
+      ],
+    },
+  })
+  reads = 0
+  const from = supabase.from.bind(supabase)
+  supabase.from = (table) => {
+    if (table === "taxonomy_nodes") reads++
+    return from(table)
+  }
+  setSupabaseClient(supabase)
+})
+
+after(() => {
+  setSupabaseClient(null)
+})
+
+test("a loaded version is served from the cache", async () => {
+  const first = await loadTaxonomyRegistry("cache-v1")
+  const second = await loadTaxonomyRegistry("cache-v1")
+
+  assert.equal(first.nodes.length, 1)
+  assert.equal(second, first)
+  assert.equal(reads, 1)
+})
+
+test("an unknown version is not cached", async () => {
+  const first = await loadTaxonomyRegistry("missing")
+  assert.deepEqual(first.nodes, [])
+
+  supabase.tables.taxonomy_nodes.push(
+    { version: "missing", node_id: "water", parent_node_id: null, level: 1, label: "Water", l1: "Water", l2: null, l3: null }
+  )
+  const second = await loadTaxonomyRegistry("missing")
+
+  assert.equal(second.nodes.length, 1)
+  assert.equal(reads, 2)
+})
@@ -0,0 +1,151 @@
+/**
+ * TRL assessment
+ * Evidence-weighted level scoring, negated mentions, and evidence ref checks on PATCH /api/vuks/:id
+ */
+
+import { describe, test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import app from "../server.js"
+import { assessTrl, MIN_LEVEL_EVIDENCE, parseEvidenceRef } from "../lib/trlAssessment.js"
+import { createLogEntry } from "../lib/auditLog.js"
+import { mergeVuk, rowToVuk, vukToRow } from "../lib/vukStore.js"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+// Chunks of one document, one chunk per text
+function chunksOf(...texts) {
+  return texts.map((content, index) => ({ doc_id: "doc-1", chunk_index: index, content, metadata_json: {} }))
+}
+
+test("proposes the highest level with enough evidence", () => {
+  const assessment = assessTrl(
+    chunksOf(
+      "A system prototype was built in 2024. The prototype demonstrated stable output in a relevant environment.",
+      "The engineering model passed vibration tests. One customer called the product certified.",
+      "Lab-scale cells were assembled first."
+    )
+  )
+
+  assert.equal(assessment.value, 6)
+  assert.ok(assessment.evidence.filter((e) => e.level === 6).length >= MIN_LEVEL_EVIDENCE)
+  assert.ok(assessment.evidence.every((e) => e.level <= 6))
+  assert.match(assessment.rationale, /TRL 8 is mentioned too rarely/)
+})
+
+test("ignores negated and planned mentions", () => {
+  const assessment = assessTrl(
+    chunksOf(
+      "The cell is not yet certified. The pack has not been certified by the agency either.",
+      "A field trial is planned for 2027. There has been no field trial so far.",
+      "The breadboard was validated. A second breadboard confirmed the results."
+    )
+  )
+
+  assert.equal(assessment.value, 4)
+  assert.ok(assessment.evidence.every((e) => e.level === 4))
+})
+
+test("indicators inside negated words are not evidence", () => {
+  const assessment = assessTrl(
+    chunksOf(
+      "The pack is uncertified. A non-certified charger was used.",
+      "The supplier is unqualified for marine use. Another remains unqualified for aviation."
+    )
+  )
+
+  assert.equal(assessment.value, null)
+  assert.equal(assessment.rationale, "No TRL rubric indicators were found in the session's documents.")
+})
+
+test("proposes nothing when no level reaches the threshold", () => {
+  const assessment = assessTrl(chunksOf("The module is certified for marine use."))
+
+  assert.equal(assessment.value, null)
+  assert.deepEqual(assessment.evidence_refs, [])
+  assert.match(assessment.rationale, /TRL 8/)
+})
+
+test("a sentence repeated in the overlap of two chunks counts once", () => {
+  const sentence = "The unit was certified for aviation use."
+  const overlapping = [
+    { doc_id: "doc-1", chunk_index: 0, content: `Intro text. ${sentence}`, metadata_json: { char_start: 0 } },
+    { doc_id: "doc-1", chunk_index: 1, content: `${sentence} Next part.`, metadata_json: { char_start: 12 } },
+  ]
+  assert.equal(assessTrl(overlapping).value, null)
+
+  // Without chunk offsets the passage text identifies the repeat
+  const withoutOffsets = chunksOf(`Intro text. ${sentence}`, `${sentence} Next part.`)
+  assert.equal(assessTrl(withoutOffsets).value, null)
+})
+
+test("evidence refs locate the cited passage", () => {
+  const chunks = chunksOf("Intro. A pilot plant runs since May. The pilot plant doubled output.")
+  const assessment = assessTrl(chunks)
+
+  assert.equal(assessment.value, 7)
+  for (const evidence of assessment.evidence) {
+    const ref = parseEvidenceRef(evidence.ref)
+    assert.equal(chunks[ref.chunk_index].content.slice(ref.char_start, ref.char_end), evidence.passage)
+  }
+})
+
+describe("PATCH /api/vuks/:id evidence refs", () => {
+  let server
+  let baseUrl
+  let supabase
+
+  before(async () => {
+    const vuk = rowToVuk({
+      vuk_id: "vuk-1",
+      created_at: "2026-01-01T10:00:00.000Z",
+      updated_at: "2026-01-01T10:00:00.000Z",
+      created_from_session_id: "session-1",
+      trl_value: 6,
+      trl_evidence_refs: ["deleted-doc#0:0-10"],
+    })
+    supabase = createFakeSupabase({
+      tables: {
+        vuks: [vukToRow(vuk)],
+        document_chunks: [{ doc_id: "doc-1", chunk_index: 0, content: "The prototype was demonstrated.", metadata_json: {} }],
+      },
+    })
+    setSupabaseClient(supabase)
+    server = app.listen(0)
+    await new Promise((resolve) => server.once("listening", resolve))
+    baseUrl = `http://127.0.0.1:${server.address().port}`
+  })
+
+  after(() => {
+    server.close()
+    setSupabaseClient(null)
+  })
+
+  // PATCH a trl change with its log entry
+  async function patchTrl(trl) {
+    const current = (await (await fetch(`${baseUrl}/api/vuks/vuk-1`)).json()).vuk
+    const updated = mergeVuk(current, { trl })
+    const logs = [...current.logs, createLogEntry(current, updated, "trl", "Updated TRL")]
+    return fetch(`${baseUrl}/api/vuks/vuk-1`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ trl, logs }),
+    })
+  }
+
+  test("stored refs are not checked again", async () => {
+    const response = await patchTrl({ rationale: "Prototype demonstrated" })
+    assert.equal(response.status, 200, JSON.stringify(await response.clone().json()))
+  })
+
+  test("added refs must resolve to a chunk", async () => {
+    const current = (await (await fetch(`${baseUrl}/api/vuks/vuk-1`)).json()).vuk
+    const valid = await patchTrl({ evidence_refs: [...current.trl.evidence_refs, "doc-1#0:0-10"] })
+    assert.equal(valid.status, 200, JSON.stringify(await valid.clone().json()))
+
+    const invalid = await patchTrl({ evidence_refs: ["deleted-doc#0:0-10", "doc-1#3:0-10"] })
+    const body = await invalid.json()
+    assert.equal(invalid.status, 400)
+    assert.equal(body.error, "invalid_evidence")
+    assert.deepEqual(body.details.map((violation) => violation.path), ["trl.evidence_refs.1"])
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * Document upload endpoint
+ * Runs POST /api/upload against an in-memory Supabase client
+ */
+
+import { test, before, after } from "node:test"
+import assert from "node:assert/strict"
+import app from "../server.js"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+let server
+let baseUrl
+let supabase
+
+before(async () => {
+  supabase = createFakeSupabase()
+  setSupabaseClient(supabase)
+  server = app.listen(0)
+  await new Promise((resolve) => server.once("listening", resolve))
+  baseUrl = `http://127.0.0.1:${server.address().port}`
+})
+
+after(() => {
+  server.close()
+  setSupabaseClient(null)
+})
+
+test("uploading a text file stores the document and its chunks", async () => {
+  const form = new FormData()
+  form.append("file", new Blob(["# Overview\n\nSolid state batteries reach TRL 6 in field tests."], { type: "text/plain" }), "notes.txt")
+  form.append("session_id", "session-1")
+
+  const response = await fetch(`${baseUrl}/api/upload`, { method: "POST", body: form })
+  const body = await response.json()
+
+  assert.equal(response.status, 200, JSON.stringify(body))
+  assert.equal(body.status, "chunked")
+  assert.equal(body.format, "text")
+  assert.equal(body.chunks_count, 1)
+  assert.equal(body.embedded, false)
+
+  const [document] = supabase.tables.documents
+  assert.equal(document.doc_id, body.doc_id)
+  assert.equal(document.status, "chunked")
+  assert.equal(supabase.tables.document_chunks.length, 1)
+  assert.equal(supabase.tables.document_chunks[0].metadata_json.section, "Overview")
+})
+
+test("uploading an unsupported file is rejected as JSON", async () => {
+  const form = new FormData()
+  form.append("file", new Blob(["binary"], { type: "application/octet-stream" }), "data.bin")
+
+  const response = await fetch(`${baseUrl}/api/upload`, { method: "POST", body: form })
+  const body = await response.json()
+
+  assert.equal(response.status, 400)
+  assert.equal(body.error, "invalid_file")
+})
@@ -0,0 +1,50 @@
+/**
+ * VUK store
+ * saveVuk only replaces a VUK that has not changed since it was read
+ */
+
+import { test, beforeEach, after } from "node:test"
+import assert from "node:assert/strict"
+import { fetchVuk, mergeVuk, rowToVuk, saveVuk, vukToRow } from "../lib/vukStore.js"
+import { setSupabaseClient } from "../lib/supabaseClient.js"
+import { createFakeSupabase } from "./helpers/fakeSupabase.js"
+
+const STORED_AT = "2026-01-01T10:00:00.000Z"
+
+let supabase
+
+beforeEach(() => {
+  const vuk = rowToVuk({
+    vuk_id: "vuk-1",
+    created_at: STORED_AT,
+    updated_at: STORED_AT,
+    created_from_session_id: "session-1",
+    technology_name: "Solid state battery",
+  })
+  supabase = createFakeSupabase({ tables: { vuks: [vukToRow(vuk)] } })
+  setSupabaseClient(supabase)
+})
+
+after(() => {
+  setSupabaseClient(null)
+})
+
+test("saveVuk replaces the VUK it was based on", async () => {
+  const current = await fetchVuk("vuk-1")
+  const stored = await saveVuk(mergeVuk(current, { technology: { name: "Sodium-ion battery" } }), current.updated_at)
+
+  assert.equal(stored.technology.name, "Sodium-ion battery")
+  assert.notEqual(stored.updated_at, STORED_AT)
+})
+
+test("saveVuk does not overwrite a VUK changed since it was read", async () => {
+  const first = await fetchVuk("vuk-1")
+  const second = await fetchVuk("vuk-1")
+
+  const saved = await saveVuk(mergeVuk(first, { technology: { name: "Sodium-ion battery" } }), first.updated_at)
+  const stale = await saveVuk(mergeVuk(second, { technology: { name: "Lithium-sulfur battery" } }), second.updated_at)
+
+  assert.ok(saved)
+  assert.equal(stale, null)
+  assert.equal((await fetchVuk("vuk-1")).technology.name, "Sodium-ion battery")
+})
@@ -1,6 +1,7 @@
 -- XRL Database Schema
 -- SQL schema for sessions and VUKs tables
 -- Note: This is a reference schema. Actual implementation may vary based on database choice.
+-- The Supabase (Postgres) tables and functions used by the backend are in db/supabase.sql.
 
 -- Sessions table
 -- Stores session data matching session_schema_v1.json structure
@@ -94,4 +95,3 @@ CREATE TABLE IF NOT EXISTS vuks (
     INDEX idx_created_from_session (created_from_session_id),
     INDEX idx_created_at (created_at)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-
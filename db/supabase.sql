@@ -0,0 +1,116 @@
+-- XRL Supabase Migration
+-- Postgres DDL for the tables and functions the backend uses through Supabase.
+-- Safe to re-run: every statement is idempotent. Run it in the Supabase SQL editor (or psql).
+
+-- Taxonomy registry
+-- One row per node of a versioned taxonomy tree, loaded from db/taxonomy/*.json or *.csv
+-- (npm run taxonomy:import in backend/). l1/l2/l3 hold the node's full path.
+CREATE TABLE IF NOT EXISTS taxonomy_nodes (
+    version TEXT NOT NULL,
+    node_id TEXT NOT NULL,
+    parent_node_id TEXT,
+    level INT NOT NULL,
+    label TEXT NOT NULL,
+    l1 TEXT NOT NULL,
+    l2 TEXT,
+    l3 TEXT,
+
+    PRIMARY KEY (version, node_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_taxonomy_nodes_parent ON taxonomy_nodes (version, parent_node_id);
+
+-- Uploaded documents and their text chunks (POST /api/upload)
+-- metadata_json holds the session_id, extraction and chunking details; each chunk's
+-- metadata_json holds its char range, pages and section in the document
+CREATE TABLE IF NOT EXISTS documents (
+    doc_id UUID PRIMARY KEY,
+    source TEXT,
+    file_name TEXT NOT NULL,
+    mime_type TEXT,
+    storage_path TEXT,
+    status TEXT NOT NULL DEFAULT 'uploaded',
+    metadata_json JSONB NOT NULL DEFAULT '{}'::JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_documents_session ON documents ((metadata_json->>'session_id'));
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+    chunk_pk BIGSERIAL PRIMARY KEY,
+    doc_id UUID NOT NULL REFERENCES documents(doc_id),
+    chunk_index INT NOT NULL,
+    content TEXT NOT NULL,
+    metadata_json JSONB NOT NULL DEFAULT '{}'::JSONB,
+
+    UNIQUE (doc_id, chunk_index)
+);
+
+-- Chunk embeddings (pgvector)
+-- document_chunks.embedding holds the 384-dimension vector of the local embedding model
+-- (backend/lib/embeddings.js), written at upload when ENABLE_EMBEDDINGS=true.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Chunks were stored with a NULL embedding until now, so an existing column of another type is
+-- converted once (its values were never set); re-applying the schema leaves stored vectors alone
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding vector(384);
+DO $$
+BEGIN
+    IF (
+        SELECT format_type(a.atttypid, a.atttypmod)
+        FROM pg_attribute a
+        WHERE a.attrelid = 'document_chunks'::regclass
+          AND a.attname = 'embedding'
+          AND NOT a.attisdropped
+    ) <> 'vector(384)' THEN
+        ALTER TABLE document_chunks ALTER COLUMN embedding TYPE vector(384) USING NULL;
+    END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding
+    ON document_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- Nearest chunks of the given documents to a query embedding (cosine similarity, best first)
+CREATE OR REPLACE FUNCTION match_document_chunks(
+    query_embedding vector(384),
+    filter_doc_ids TEXT[],
+    match_count INT DEFAULT 12
+)
+RETURNS TABLE (
+    doc_id TEXT,
+    chunk_index INT,
+    content TEXT,
+    metadata_json JSONB,
+    similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        c.doc_id::TEXT,
+        c.chunk_index,
+        c.content,
+        c.metadata_json::JSONB,
+        1 - (c.embedding <=> query_embedding) AS similarity
+    FROM document_chunks c
+    WHERE c.doc_id::TEXT = ANY(filter_doc_ids)
+      AND c.embedding IS NOT NULL
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+-- Delete a document and its chunks in one transaction, returning the number of chunks deleted
+-- (the backend removes the original file from Storage afterwards, see backend/lib/documentStore.js)
+CREATE OR REPLACE FUNCTION delete_document(target_doc_id TEXT)
+RETURNS INT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    chunks_deleted INT;
+BEGIN
+    DELETE FROM document_chunks WHERE doc_id::TEXT = target_doc_id;
+    GET DIAGNOSTICS chunks_deleted = ROW_COUNT;
+    DELETE FROM documents WHERE doc_id::TEXT = target_doc_id;
+    RETURN chunks_deleted;
+END;
+$$;
@@ -0,0 +1,158 @@
+/**
+ * Audit timeline component
+ * Side panel listing every log entry of the current session in order,
+ * filterable by step; clicking an entry shows the session fields it touched
+ */
+
+import { useState } from "react";
+import type { Session, SessionLogEntry } from "../types";
+import { getFieldValue } from "../lib/auditLog";
+
+interface AuditTimelineProps {
+  session: Session | null; // Session whose logs to show
+  isOpen: boolean; // Whether the panel is visible
+  onClose: () => void; // Callback to close the panel
+}
+
+// Filter value that shows every step
+const ALL_STEPS = "__all__";
+
+/**
+ * Format a timestamp for the timeline
+ */
+function formatTimestamp(timestamp: string): string {
+  try {
+    return new Date(timestamp).toLocaleString();
+  } catch {
+    return timestamp;
+  }
+}
+
+/**
+ * Pretty-print a field value
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(not set)";
+  if (typeof value === "string") return value === "" ? '""' : value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+export function AuditTimeline({ session, isOpen, onClose }: AuditTimelineProps) {
+  const [stepFilter, setStepFilter] = useState(ALL_STEPS);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const logs: SessionLogEntry[] = session?.logs ?? [];
+  const steps = Array.from(new Set(logs.map((entry) => entry.step)));
+  // Keep the original index so selection survives filtering
+  const visible = logs
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => stepFilter === ALL_STEPS || entry.step === stepFilter);
+
+  return (
+    <div className="w-96 flex-shrink-0 flex flex-col border-l border-gray-200 bg-white">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-800">Audit timeline ({logs.length})</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Step filter */}
+      <div className="px-4 py-2 border-b border-gray-200">
+        <select
+          value={stepFilter}
+          onChange={(e) => {
+            setStepFilter(e.target.value);
+            setSelectedIndex(null);
+          }}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={ALL_STEPS}>All steps</option>
+          {steps.map((step) => (
+            <option key={step} value={step}>
+              {step}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Entries */}
+      <div className="flex-1 overflow-y-auto p-4 bg-gray-50">
+        {!session ? (
+          <p className="text-sm text-gray-400">No session loaded yet.</p>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-gray-400">No log entries.</p>
+        ) : (
+          <ol className="relative border-l border-gray-300 ml-2 space-y-4">
+            {visible.map(({ entry, index }) => {
+              const isSelected = selectedIndex === index;
+              return (
+                <li key={index} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-white" />
+                  <button
+                    onClick={() => setSelectedIndex(isSelected ? null : index)}
+                    className={`w-full text-left rounded-lg p-3 border ${
+                      isSelected ? "bg-blue-50 border-blue-300" : "bg-white border-gray-200 hover:border-gray-300"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-gray-800">{entry.step}</span>
+                      <span className="text-xs text-gray-500">{formatTimestamp(entry.timestamp)}</span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-700">{entry.description}</p>
+                    {entry.affected_fields.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {entry.affected_fields.map((field) => (
+                          <span
+                            key={field}
+                            className="px-1.5 py-0.5 text-xs font-mono bg-gray-100 text-gray-700 rounded"
+                          >
+                            {field}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </button>
+
+                  {/* Current values of the touched fields */}
+                  {isSelected && (
+                    <div className="mt-2 p-3 bg-white rounded-lg border border-gray-200 space-y-2">
+                      {entry.affected_fields.length === 0 ? (
+                        <p className="text-xs text-gray-500">This entry did not change any session field.</p>
+                      ) : (
+                        entry.affected_fields.map((field) => (
+                          <div key={field}>
+                            <div className="text-xs font-mono text-gray-500">{field}</div>
+                            <pre className="mt-0.5 text-xs text-gray-800 whitespace-pre-wrap break-words">
+                              {formatValue(getFieldValue(session, field))}
+                            </pre>
+                          </div>
+                        ))
+                      )}
+                      <p className="text-[10px] text-gray-400">Values shown are the session's current values.</p>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,46 +4,161 @@
  */
 
 import { useState, useEffect, useRef } from "react";
-import type { Message, ConnectionStatus, MessageAttachment } from "../types";
+import type {
+  Message,
+  ConnectionStatus,
+  MessageAttachment,
+  Session,
+  TechnologyGuess,
+  TechnologyConfirmation,
+  ConfirmationDecision,
+} from "../types";
 import { MessageBubble } from "./MessageBubble";
 import { ResponseModal } from "./ResponseModal";
+import { OnboardingWizard } from "./OnboardingWizard";
+import { AuditTimeline } from "./AuditTimeline";
+import { VukPanel } from "./VukPanel";
+import { TaxonomyPicker } from "./TaxonomyPicker";
+import { ScoresDashboard } from "./ScoresDashboard";
+import { ComparisonView } from "./ComparisonView";
+import { DocumentLibrary } from "./DocumentLibrary";
 import { callN8nWebhook, type BackendResponse } from "../lib/n8n";
-import { saveChatHistory, clearChatHistory } from "../lib/storage";
+import { SessionSidebar } from "./SessionSidebar";
 import {
-  uploadPdfToN8n,
+  saveChatHistory,
+  clearChatHistory,
+  loadChatHistory,
+  loadSessionSnapshot,
+  saveSessionSnapshot,
+  DEFAULT_SESSION_TITLE,
+  type ChatSessionMeta,
+} from "../lib/storage";
+import { useChatSessions } from "../hooks/useChatSessions";
+import {
+  createSession as createBackendSession,
+  getSession,
+  commitSessionUpdate,
+  getReportUrl,
+  type ReportFormat,
+} from "../services/api";
+import { getSessionIdFromUrl, getVukIdFromUrl, setSessionInUrl } from "../lib/sessionUrl";
+import {
+  uploadDocument,
+  isSupportedFile,
   formatFileSize,
-  type UploadState,
+  ACCEPTED_FILE_TYPES,
+  DEFAULT_CHUNKING,
+  MIN_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  type ChunkingOptions,
+  type PendingUpload,
   type UploadedDoc,
-} from "../lib/pdfUpload";
+} from "../lib/documentUpload";
+
+// Maximum length of a session title derived from the first message
+const SESSION_TITLE_LENGTH = 40;
+
+// Report export options in the header menu
+const REPORT_FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: "html", label: "Printable HTML" },
+  { format: "md", label: "Markdown" },
+  { format: "pdf", label: "PDF" },
+];
 
 export function Chat() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Stored sessions; the session from the URL (if any) is opened first
+  const {
+    sessions,
+    activeSession,
+    createSession,
+    switchSession,
+    updateSession,
+    renameSession,
+    deleteSession,
+    rekeySession,
+  } = useChatSessions(getSessionIdFromUrl());
+  // session_id and vuk_id of the active session, sent back on every later turn
+  const sessionId = activeSession.id;
+  const vukId = activeSession.vukId;
+  const [messages, setMessages] = useState<Message[]>(() => loadChatHistory(activeSession.id));
   const [input, setInput] = useState("");
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("idle");
   const [isSending, setIsSending] = useState(false);
   const [allResponses, setAllResponses] = useState<unknown[]>([]); // Store all responses received
   const [isModalOpen, setIsModalOpen] = useState(false); // Control modal visibility
-  // Store session_id and vuk_id in state for later use (not implemented yet)
-  const [_sessionId, setSessionId] = useState<string | null>(null); // Store session_id from n8n response (for later use)
-  const [_vukId, setVukId] = useState<string | null>(null); // Store vuk_id from n8n response (for later use)
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false); // Control audit timeline visibility
+  const [isVukOpen, setIsVukOpen] = useState(false); // Control VUK panel visibility
+  const [isTaxonomyOpen, setIsTaxonomyOpen] = useState(false); // Control taxonomy picker visibility
+  const [isReportMenuOpen, setIsReportMenuOpen] = useState(false); // Control report export menu visibility
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false); // Control document library visibility
+  // Full session object (single source of truth once the backend returns one)
+  const [session, setSession] = useState<Session | null>(() => loadSessionSnapshot(activeSession.id));
+  const [sessionError, setSessionError] = useState<string | null>(null); // Failed session update shown above the input
+  // Free chat, guided onboarding, the scores dashboard or the comparison view
+  const [mode, setMode] = useState<"chat" | "onboarding" | "scores" | "compare">("chat");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // PDF attachment state
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadState, setUploadState] = useState<UploadState>("idle");
-  const [uploadedDoc, setUploadedDoc] = useState<UploadedDoc | null>(null);
-  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Attached files, each with its own upload progress and error
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const isUploading = pendingUploads.some((upload) => upload.state === "uploading");
+  const hasUploadErrors = pendingUploads.some((upload) => upload.state === "error");
+  const [chunking, setChunking] = useState<ChunkingOptions>(DEFAULT_CHUNKING); // Chunk size and overlap for new uploads
   const [isDragging, setIsDragging] = useState(false);
+  // Library documents sent as context with every message until deselected
+  const [contextDocs, setContextDocs] = useState<MessageAttachment[]>([]);
+  const [documentsVersion, setDocumentsVersion] = useState(0); // Bumped after uploads to refresh the library
 
-  // Clear chat history on mount - start with empty chat every time
-  // This ensures a clean slate on each page refresh/reload
+  // Pick up a vuk_id from a shared link
   useEffect(() => {
-    clearChatHistory();
-    setMessages([]);
+    const urlVukId = getVukIdFromUrl();
+    if (urlVukId && !activeSession.vukId) {
+      updateSession(activeSession.id, { vukId: urlVukId });
+    }
+    // Only on mount
   }, []);
 
+  // Persist the session object alongside the active session's history
+  useEffect(() => {
+    saveSessionSnapshot(sessionId, session);
+  }, [sessionId, session]);
+
+  // Load the stored session from the backend whenever another session is opened
+  useEffect(() => {
+    let cancelled = false;
+    getSession(sessionId)
+      .then((stored) => {
+        if (!cancelled && stored) {
+          setSession(stored);
+        }
+      })
+      .catch((error) => {
+        console.error("[Chat] Failed to load session:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Reload the stored session from the backend (ignored if another session was opened meanwhile)
+  const refreshSession = (id: string) => {
+    getSession(id)
+      .then((stored) => {
+        if (stored) {
+          setSession((current) => (current && current.session_id !== id ? current : stored));
+        }
+      })
+      .catch((error) => {
+        console.error("[Chat] Failed to reload session:", error);
+      });
+  };
+
+  // Mirror session_id and vuk_id into the URL
+  useEffect(() => {
+    setSessionInUrl(sessionId, vukId);
+  }, [sessionId, vukId]);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -121,21 +236,82 @@ export function Chat() {
     return "(No assistant text returned)";
   };
 
-  // Handle file selection from file picker
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  /**
+   * Extract a structured technology guess from backend response
+   * Priority: assistant_json > n8n_raw.llm
+   *
+   * @param data Backend response object
+   * @returns Technology guess or null if the response carries none
+   */
+  const extractTechnologyGuess = (data: BackendResponse): TechnologyGuess | null => {
+    const isGuess = (value: unknown): value is TechnologyGuess =>
+      !!value &&
+      typeof value === "object" &&
+      (typeof (value as TechnologyGuess).technology_guess === "string" ||
+        typeof (value as TechnologyGuess).confirmation_question === "string");
+
+    if (isGuess(data.assistant_json)) {
+      return data.assistant_json;
+    }
 
-    // Validate file type
-    if (file.type !== "application/pdf") {
-      setUploadError("Only PDF files are supported");
-      return;
+    const n8nRaw = data.n8n_raw as { llm?: unknown } | null | undefined;
+    if (n8nRaw && typeof n8nRaw === "object" && isGuess(n8nRaw.llm)) {
+      return n8nRaw.llm;
     }
 
-    setSelectedFile(file);
-    setUploadError(null);
-    setUploadState("idle");
-    setUploadedDoc(null);
+    return null;
+  };
+
+  /**
+   * Store session_id, vuk_id and session object returned by the backend
+   * If the backend assigned a different session_id, the local session is re-keyed
+   *
+   * @param data Backend response object
+   * @returns The session_id the conversation continues under
+   */
+  // The pipeline's session object is not stored by the backend, so the stored session is
+  // reloaded instead; its log must match the backend's for later updates to be accepted
+  const applyIdentifiers = (data: BackendResponse): string => {
+    const nextSessionId = data.session?.session_id || data.session_id || sessionId;
+    if (nextSessionId !== sessionId) {
+      rekeySession(sessionId, nextSessionId);
+    }
+    if (data.vuk_id) {
+      updateSession(nextSessionId, { vukId: data.vuk_id });
+    }
+    refreshSession(nextSessionId);
+    return nextSessionId;
+  };
+
+  // Add picked or dropped files to the attachment area (unsupported files are shown with an error)
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    setPendingUploads((current) => [
+      ...current,
+      ...files.map((file) => {
+        const supported = isSupportedFile(file);
+        return {
+          id: generateId(),
+          file,
+          state: supported ? ("idle" as const) : ("error" as const),
+          progress: 0,
+          doc: null,
+          error: supported ? null : "Unsupported file type",
+        };
+      }),
+    ]);
+  };
+
+  // Update one attached file
+  const updatePendingUpload = (id: string, changes: Partial<PendingUpload>) => {
+    setPendingUploads((current) => current.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+  };
+
+  // Handle file selection from file picker
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again
+    e.target.value = "";
   };
 
   // Handle drag and drop
@@ -152,103 +328,116 @@ export function Chat() {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
 
-    const file = e.dataTransfer.files[0];
-    if (!file) return;
-
-    // Validate file type
-    if (file.type !== "application/pdf") {
-      setUploadError("Only PDF files are supported");
-      return;
-    }
-
-    setSelectedFile(file);
-    setUploadError(null);
-    setUploadState("idle");
-    setUploadedDoc(null);
+  // Remove one attachment
+  const handleRemoveAttachment = (id: string) => {
+    setPendingUploads((current) => current.filter((upload) => upload.id !== id));
   };
 
-  // Remove attachment
-  const handleRemoveAttachment = () => {
-    setSelectedFile(null);
-    setUploadState("idle");
-    setUploadedDoc(null);
-    setUploadError(null);
+  // Remove all attachments
+  const clearAttachments = () => {
+    setPendingUploads([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  // Upload PDF file
-  const handleUploadPdf = async (): Promise<UploadedDoc> => {
-    if (!selectedFile) {
-      throw new Error("No file selected");
-    }
-
-    setUploadState("uploading");
-    setUploadError(null);
+  // Upload one attached file, tracking its progress
+  const handleUploadFile = async (upload: PendingUpload): Promise<UploadedDoc> => {
+    updatePendingUpload(upload.id, { state: "uploading", progress: 0, error: null });
 
     try {
-      const doc = await uploadPdfToN8n(selectedFile, _sessionId);
-      setUploadedDoc(doc);
-      setUploadState("uploaded");
+      const doc = await uploadDocument(
+        upload.file,
+        sessionId,
+        (progress) => updatePendingUpload(upload.id, { progress }),
+        chunking
+      );
+      updatePendingUpload(upload.id, { state: "uploaded", progress: 1, doc });
+      setDocumentsVersion((version) => version + 1);
       return doc;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Upload failed";
-      setUploadError(errorMessage);
-      setUploadState("error");
+      updatePendingUpload(upload.id, { state: "error", error: errorMessage });
       throw error;
     }
   };
 
   // Handle sending a message
-  const handleSend = async () => {
-    if (!input.trim() || isSending) return;
+  // An override sends a generated message (e.g., a technology confirmation) instead of the input,
+  // appended to the given history (which may already contain updates not yet rendered)
+  const handleSend = async (override?: {
+    text: string;
+    confirmation: TechnologyConfirmation;
+    history: Message[];
+  }) => {
+    const text = override ? override.text : input.trim();
+    if (!text || isSending) return;
 
-    // If there's a file attached and not uploaded yet, upload it first
+    // Upload the attached files that are not uploaded yet
     let attachments: MessageAttachment[] | undefined;
-    if (selectedFile) {
-      if (uploadState !== "uploaded" || !uploadedDoc) {
-        try {
-          const doc = await handleUploadPdf();
-          attachments = [
-            {
-              type: "pdf",
-              doc_id: doc.doc_id,
-              filename: selectedFile.name,
-            },
-          ];
-        } catch (error) {
-          // Upload failed, don't send message
-          return;
-        }
-      } else {
-        // File already uploaded, use existing doc_id
-        attachments = [
-          {
-            type: "pdf",
-            doc_id: uploadedDoc.doc_id,
-            filename: selectedFile.name,
-          },
-        ];
+    if (pendingUploads.length > 0 && !override) {
+      // Wait for running uploads; failed or unsupported files must be retried or removed first
+      if (isUploading || hasUploadErrors) {
+        return;
+      }
+      const results = await Promise.allSettled(
+        pendingUploads.map((upload) =>
+          upload.state === "uploaded" && upload.doc ? Promise.resolve(upload.doc) : handleUploadFile(upload)
+        )
+      );
+      // An upload failed (shown on its chip), don't send message
+      if (results.some((result) => result.status === "rejected")) {
+        return;
       }
+      attachments = results.flatMap((result, index) =>
+        result.status === "fulfilled"
+          ? [
+              {
+                type: result.value.format === "pdf" ? ("pdf" as const) : ("document" as const),
+                doc_id: result.value.doc_id,
+                filename: pendingUploads[index].file.name,
+              },
+            ]
+          : []
+      );
+    }
+
+    // Add the library documents selected as context (skipping the one just uploaded)
+    const contextAttachments = contextDocs.filter(
+      (doc) => !attachments?.some((attachment) => attachment.doc_id === doc.doc_id)
+    );
+    if (contextAttachments.length > 0) {
+      attachments = [...(attachments ?? []), ...contextAttachments];
     }
 
     const userMessage: Message = {
       id: generateId(),
       role: "user",
-      content: input.trim(),
+      content: text,
       createdAt: new Date().toISOString(),
       status: "sending",
       attachments,
     };
 
     // Add user message immediately
-    const updatedMessages = [...messages, userMessage];
+    const updatedMessages = [...(override ? override.history : messages), userMessage];
     setMessages(updatedMessages);
-    saveChatHistory(updatedMessages);
-    setInput("");
+    saveChatHistory(sessionId, updatedMessages);
+    if (!override) {
+      setInput("");
+    }
+
+    // Name new sessions after their first message
+    updateSession(
+      sessionId,
+      activeSession.title === DEFAULT_SESSION_TITLE && messages.length === 0
+        ? { title: text.slice(0, SESSION_TITLE_LENGTH) }
+        : {}
+    );
     setIsSending(true);
     setConnectionStatus("sending");
 
@@ -271,10 +460,31 @@ export function Chat() {
     const requestUrl = `${API_URL}/api/chat`;
     console.log("[Chat] Request URL:", requestUrl);
 
+    // Register the session with the backend on its first turn
+    if (!session && !override) {
+      try {
+        setSession(
+          await createBackendSession({
+            session_id: sessionId,
+            raw_input: { initial_description: text, source: "web" },
+          })
+        );
+      } catch (error) {
+        // Not fatal - the chat still works through n8n
+        console.error("[Chat] Failed to create session:", error);
+      }
+    }
+
     try {
       // Call backend API (which proxies to n8n)
       // Pass session_id and vuk_id if we have them in state
-      const backendResponse = await callN8nWebhook(userMessage.content, _sessionId, _vukId);
+      const backendResponse = await callN8nWebhook(
+        userMessage.content,
+        sessionId,
+        vukId,
+        override?.confirmation,
+        userMessage.attachments
+      );
 
       // Log response status
       console.log("[Chat] Response status: ok =", backendResponse.ok);
@@ -295,43 +505,19 @@ export function Chat() {
       // Store the raw response for the response panel
       setAllResponses([backendResponse.n8n_raw || backendResponse]);
 
+      // Keep the identifiers for later turns and the validated session as the source of truth
+      const targetSessionId = applyIdentifiers(backendResponse);
+
       // Update user message status
       const userMessageUpdated: Message = {
         ...userMessage,
         status: "success",
       };
 
-      // Format the final message content
-      // If we have assistant_json with confirmation_question, format it nicely
-      // Otherwise, check n8n_raw.llm for formatted display
-      // Otherwise, use the extracted display text directly
-      let finalContent = displayText;
-      
-      // Check assistant_json first
-      if (backendResponse.assistant_json && backendResponse.assistant_json.confirmation_question) {
-        const json = backendResponse.assistant_json;
-        const technology_guess = json.technology_guess || "Unknown";
-        const confidence = json.confidence || 0;
-        const confidencePercent = Math.round(confidence * 100);
-        finalContent = `Technology: ${technology_guess}\nConfidence: ${confidencePercent}%\n\n${json.confirmation_question}`;
-      }
-      // Fallback: check n8n_raw.llm for formatted display
-      else if (backendResponse.n8n_raw && typeof backendResponse.n8n_raw === "object") {
-        try {
-          const n8nRaw = backendResponse.n8n_raw as any;
-          if (n8nRaw.llm && typeof n8nRaw.llm === "object" && n8nRaw.llm.confirmation_question) {
-            const technology_guess = n8nRaw.llm.technology_guess || "Unknown";
-            const confidence = n8nRaw.llm.confidence || 0;
-            const confidencePercent = Math.round(confidence * 100);
-            finalContent = `Technology: ${technology_guess}\nConfidence: ${confidencePercent}%\n\n${n8nRaw.llm.confirmation_question}`;
-          }
-        } catch (e) {
-          // If formatting fails, use displayText as-is
-          if (DEBUG) {
-            console.error("[Chat] Error formatting from n8n_raw.llm:", e);
-          }
-        }
-      }
+      // Structured technology guesses are rendered as a confirmation card;
+      // the confirmation question doubles as the plain-text content
+      const technologyGuess = extractTechnologyGuess(backendResponse);
+      const finalContent = technologyGuess?.confirmation_question || displayText;
 
       // Debug: Log final content that will be displayed
       if (DEBUG) {
@@ -346,6 +532,8 @@ export function Chat() {
         content: finalContent,
         createdAt: new Date().toISOString(),
         status: undefined, // Explicitly set to undefined to ensure it's not "sending"
+        technologyGuess: technologyGuess ?? undefined,
+        sources: backendResponse.sources && backendResponse.sources.length > 0 ? backendResponse.sources : undefined,
       };
 
       // Debug: Log the assistant message before replacing
@@ -397,18 +585,15 @@ export function Chat() {
           console.log("[Chat] Total messages after replacement:", finalMessages.length);
         }
 
-        saveChatHistory(finalMessages);
+        saveChatHistory(targetSessionId, finalMessages);
         return finalMessages;
       });
 
       // Clear attachment state after successful send
-      setSelectedFile(null);
-      setUploadState("idle");
-      setUploadedDoc(null);
-      setUploadError(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
+      if (override) {
+        return;
       }
+      clearAttachments();
 
       setConnectionStatus("success");
     } catch (error) {
@@ -438,7 +623,7 @@ export function Chat() {
         .map((m) => (m.id === thinkingId ? errorMessage : m));
 
       setMessages(finalMessages);
-      saveChatHistory(finalMessages);
+      saveChatHistory(sessionId, finalMessages);
       setConnectionStatus("failed");
     } finally {
       setIsSending(false);
@@ -449,6 +634,75 @@ export function Chat() {
     }
   };
 
+  // Handle confirm / reject / refine on a technology confirmation card
+  const handleTechnologyDecision = (
+    messageId: string,
+    decision: ConfirmationDecision,
+    refinement?: string
+  ) => {
+    const target = messages.find((m) => m.id === messageId);
+    if (!target?.technologyGuess || target.confirmation || isSending) return;
+
+    const technologyGuess = target.technologyGuess.technology_guess || "";
+    const confirmation: TechnologyConfirmation = {
+      decision,
+      technology_guess: technologyGuess,
+      refinement,
+      decided_at: new Date().toISOString(),
+    };
+
+    // Record the decision on the card so it can't be answered twice
+    const updatedMessages = messages.map((m) =>
+      m.id === messageId ? { ...m, confirmation } : m
+    );
+
+    // Record the decision in the session; on failure show the error and reload the stored session
+    if (session) {
+      const description = `Analyst chose "${decision}" for technology guess "${technologyGuess}"`;
+      commitSessionUpdate(session, {}, "technology_confirmation", description, { confirmation })
+        .then((updated) => {
+          setSession(updated);
+          setSessionError(null);
+        })
+        .catch((error) => {
+          console.error("[Chat] Failed to record decision in session:", error);
+          setSessionError(
+            `Your decision was not saved to the session: ${error instanceof Error ? error.message : String(error)}`
+          );
+          refreshSession(sessionId);
+        });
+    }
+
+    const text =
+      decision === "confirm"
+        ? `Confirmed: ${technologyGuess}`
+        : decision === "reject"
+          ? `Rejected: ${technologyGuess}`
+          : `Refined: ${refinement}`;
+    handleSend({ text, confirmation, history: updatedMessages });
+  };
+
+  // Handle structured onboarding answers accepted by the backend
+  const handleOnboardingSubmitted = (response: BackendResponse) => {
+    setAllResponses([response.n8n_raw || response]);
+
+    const targetSessionId = applyIdentifiers(response);
+
+    // Show the pipeline's reply in the chat and return to chat mode
+    const assistantMessage: Message = {
+      id: generateId(),
+      role: "assistant",
+      content: extractAssistantText(response),
+      createdAt: new Date().toISOString(),
+    };
+    setMessages((currentMessages) => {
+      const finalMessages = [...currentMessages, assistantMessage];
+      saveChatHistory(targetSessionId, finalMessages);
+      return finalMessages;
+    });
+    setMode("chat");
+  };
+
   // Handle Enter key (Shift+Enter for newline, Enter to send)
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -458,19 +712,53 @@ export function Chat() {
   };
 
 
-  // Handle clear chat
+  // Handle clear chat (clears the active session's history)
   const handleClearChat = () => {
     if (confirm("Are you sure you want to clear the chat history?")) {
       setMessages([]);
-      clearChatHistory();
+      clearChatHistory(sessionId);
       setConnectionStatus("idle");
       setAllResponses([]); // Clear all responses
-      setSessionId(null); // Clear session_id
-      setVukId(null); // Clear vuk_id
+      setSession(null); // Clear session object
+      updateSession(sessionId, { vukId: null }); // Clear vuk_id
       setIsModalOpen(false); // Close modal if open
     }
   };
 
+  // Open a stored session and restore its history
+  const openSession = (meta: ChatSessionMeta) => {
+    switchSession(meta.id);
+    setMessages(loadChatHistory(meta.id));
+    setSession(loadSessionSnapshot(meta.id));
+    setAllResponses([]);
+    setConnectionStatus("idle");
+    setMode("chat");
+    setIsModalOpen(false);
+    clearAttachments();
+    setContextDocs([]);
+  };
+
+  // Start a new session
+  const handleCreateSession = () => {
+    openSession(createSession());
+  };
+
+  // Switch to another session
+  const handleSwitchSession = (id: string) => {
+    const meta = sessions.find((s) => s.id === id);
+    if (meta) {
+      openSession(meta);
+    }
+  };
+
+  // Delete a session; if it was open, open the next one
+  const handleDeleteSession = (id: string) => {
+    const next = deleteSession(id);
+    if (id === sessionId) {
+      openSession(next);
+    }
+  };
+
   // Connection status badge styling
   const getStatusBadgeClass = (status: ConnectionStatus): string => {
     switch (status) {
@@ -488,135 +776,342 @@ export function Chat() {
   };
 
   return (
-    <div className="flex flex-col h-full">
-      {/* Header */}
-      <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-white">
-        <h1 className="text-xl font-semibold text-gray-800">Optio</h1>
-        <div className="flex items-center gap-3">
-          <div
-            className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(
-              connectionStatus
-            )}`}
-          >
-            {connectionStatus.toUpperCase()}
+    <div className="flex h-full">
+      <SessionSidebar
+        sessions={sessions}
+        activeSessionId={sessionId}
+        onCreate={handleCreateSession}
+        onSwitch={handleSwitchSession}
+        onRename={renameSession}
+        onDelete={handleDeleteSession}
+        disabled={isSending || isUploading}
+      />
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-white">
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-semibold text-gray-800">Optio</h1>
+            {/* Mode switch: free chat, guided onboarding, scores or comparison */}
+            <div className="flex rounded-lg bg-gray-100 p-0.5 text-sm">
+              {(["chat", "onboarding", "scores", "compare"] as const).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1 rounded-md capitalize ${
+                    mode === m ? "bg-white text-gray-900 shadow-sm" : "text-gray-600 hover:text-gray-800"
+                  }`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {/* Session pipeline stage (from the validated session object) */}
+            {session && (
+              <div
+                className="px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                title={`Session ${session.session_id}`}
+              >
+                {session.status}
+              </div>
+            )}
+            <div
+              className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(
+                connectionStatus
+              )}`}
+            >
+              {connectionStatus.toUpperCase()}
+            </div>
+            <button
+              onClick={() => setIsTimelineOpen((open) => !open)}
+              className={`px-3 py-1 text-sm rounded ${
+                isTimelineOpen ? "bg-gray-200 text-gray-900" : "text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+              }`}
+            >
+              Timeline
+            </button>
+            <button
+              onClick={() => setIsTaxonomyOpen((open) => !open)}
+              className={`px-3 py-1 text-sm rounded ${
+                isTaxonomyOpen ? "bg-gray-200 text-gray-900" : "text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+              }`}
+            >
+              Taxonomy
+            </button>
+            <button
+              onClick={() => setIsLibraryOpen((open) => !open)}
+              className={`px-3 py-1 text-sm rounded ${
+                isLibraryOpen ? "bg-gray-200 text-gray-900" : "text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+              }`}
+            >
+              Documents{contextDocs.length > 0 && ` (${contextDocs.length})`}
+            </button>
+            {vukId && (
+              <button
+                onClick={() => setIsVukOpen((open) => !open)}
+                className={`px-3 py-1 text-sm rounded ${
+                  isVukOpen ? "bg-gray-200 text-gray-900" : "text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+                }`}
+              >
+                VUK
+              </button>
+            )}
+            {session && (
+              <div className="relative">
+                <button
+                  onClick={() => setIsReportMenuOpen((open) => !open)}
+                  className={`px-3 py-1 text-sm rounded ${
+                    isReportMenuOpen ? "bg-gray-200 text-gray-900" : "text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+                  }`}
+                >
+                  Report
+                </button>
+                {isReportMenuOpen && (
+                  <div className="absolute right-0 mt-1 w-40 rounded-md border border-gray-200 bg-white shadow-lg z-10 py-1 text-sm">
+                    {REPORT_FORMATS.map(({ format, label }) => (
+                      <a
+                        key={format}
+                        href={getReportUrl(session.session_id, format, vukId)}
+                        target="_blank"
+                        rel="noreferrer"
+                        onClick={() => setIsReportMenuOpen(false)}
+                        className="block px-3 py-1.5 text-gray-700 hover:bg-gray-100"
+                      >
+                        {label}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            <button
+              onClick={handleClearChat}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded"
+            >
+              Clear Chat
+            </button>
           </div>
-          <button
-            onClick={handleClearChat}
-            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded"
-          >
-            Clear Chat
-          </button>
         </div>
-      </div>
 
-      {/* Messages area */}
-      <div className="flex-1 overflow-y-auto p-4 bg-gray-50">
-        {messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full text-gray-400">
-            <p>Start a conversation by typing a message below.</p>
+        {mode === "compare" ? (
+          <ComparisonView currentSessionId={session?.session_id ?? null} />
+        ) : mode === "scores" ? (
+          <ScoresDashboard session={session} onSessionUpdated={setSession} />
+        ) : mode === "onboarding" ? (
+          <div className="flex-1 overflow-hidden">
+            <OnboardingWizard
+              sessionId={sessionId}
+              initialAnswers={session?.onboarding_answers}
+              onSubmitted={handleOnboardingSubmitted}
+            />
           </div>
         ) : (
           <>
-            {messages.map((message) => (
-              <MessageBubble key={message.id} message={message} />
-            ))}
-            <div ref={messagesEndRef} />
-          </>
-        )}
-      </div>
-
-      {/* Input area */}
-      <div
-        className="p-4 border-t border-gray-200 bg-white relative"
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-      >
-        {/* Drag and drop overlay */}
-        {isDragging && (
-          <div className="absolute inset-0 bg-blue-100 bg-opacity-90 border-2 border-dashed border-blue-500 rounded-lg flex items-center justify-center z-10">
-            <p className="text-blue-700 font-medium">Drop PDF file here</p>
+          {/* Messages area */}
+          <div className="flex-1 overflow-y-auto p-4 bg-gray-50">
+            {messages.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-gray-400">
+                <p>Start a conversation by typing a message below.</p>
+              </div>
+            ) : (
+              <>
+                {messages.map((message) => (
+                  <MessageBubble
+                  key={message.id}
+                  message={message}
+                  onTechnologyDecision={handleTechnologyDecision}
+                  decisionsDisabled={isSending}
+                />
+                ))}
+                <div ref={messagesEndRef} />
+              </>
+            )}
           </div>
-        )}
 
-        {/* Attachment chip */}
-        {selectedFile && (
-          <div className="mb-2 flex items-center gap-2 p-2 bg-gray-50 rounded-lg border border-gray-200">
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2">
-                <svg
-                  className="w-5 h-5 text-red-600 flex-shrink-0"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+          {/* Input area */}
+          <div
+            className="p-4 border-t border-gray-200 bg-white relative"
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            {/* Drag and drop overlay */}
+            {isDragging && (
+              <div className="absolute inset-0 bg-blue-100 bg-opacity-90 border-2 border-dashed border-blue-500 rounded-lg flex items-center justify-center z-10">
+                <p className="text-blue-700 font-medium">Drop files here</p>
+              </div>
+            )}
+
+            {/* Session update that could not be saved */}
+            {sessionError && (
+              <div className="mb-2 flex items-start justify-between gap-2 px-3 py-2 text-xs rounded bg-red-50 text-red-700 border border-red-200">
+                <span>{sessionError}</span>
+                <button
+                  onClick={() => setSessionError(null)}
+                  className="text-red-400 hover:text-red-700"
+                  aria-label="Dismiss session error"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
-                  />
-                </svg>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-gray-900 truncate">
-                    {selectedFile.name}
-                  </p>
-                  <p className="text-xs text-gray-500">
-                    {formatFileSize(selectedFile.size)}
-                  </p>
-                </div>
+                  ×
+                </button>
               </div>
-              {/* Upload status */}
-              {uploadState === "uploading" && (
-                <div className="mt-1 flex items-center gap-2 text-xs text-blue-600">
-                  <svg
-                    className="animate-spin h-4 w-4"
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
+            )}
+
+            {/* Library documents used as context */}
+            {contextDocs.length > 0 && (
+              <div className="mb-2 flex flex-wrap items-center gap-1 text-xs">
+                <span className="text-gray-500">Context:</span>
+                {contextDocs.map((doc) => (
+                  <span
+                    key={doc.doc_id}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-50 text-blue-800 border border-blue-200"
                   >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    ></circle>
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                    ></path>
-                  </svg>
-                  <span>Uploading...</span>
-                </div>
-              )}
-              {uploadState === "uploaded" && uploadedDoc && (
-                <div className="mt-1 text-xs text-green-600">
-                  ✓ Uploaded (ID: {uploadedDoc.doc_id.substring(0, 8)}...)
-                </div>
-              )}
-              {uploadState === "error" && uploadError && (
-                <div className="mt-1 flex items-center gap-2">
-                  <p className="text-xs text-red-600">{uploadError}</p>
-                  <button
-                    onClick={handleUploadPdf}
-                    className="text-xs text-blue-600 hover:text-blue-800 underline"
+                    {doc.filename}
+                    <button
+                      onClick={() => setContextDocs((current) => current.filter((d) => d.doc_id !== doc.doc_id))}
+                      className="text-blue-400 hover:text-blue-700"
+                      aria-label={`Remove ${doc.filename} from context`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* Attachment chips - one per file, with its own progress and error */}
+            {pendingUploads.length > 0 && (
+              <div className="mb-2 space-y-1">
+                {/* Chunking settings for the files not uploaded yet */}
+                {pendingUploads.some((upload) => upload.state !== "uploaded") && (
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <label className="flex items-center gap-1">
+                      Chunk size
+                      <input
+                        type="number"
+                        min={MIN_CHUNK_SIZE}
+                        max={MAX_CHUNK_SIZE}
+                        step={100}
+                        value={chunking.chunkSize}
+                        onChange={(e) => setChunking({ ...chunking, chunkSize: Number(e.target.value) })}
+                        disabled={isUploading}
+                        className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1">
+                      overlap
+                      <input
+                        type="number"
+                        min={0}
+                        step={50}
+                        value={chunking.chunkOverlap}
+                        onChange={(e) => setChunking({ ...chunking, chunkOverlap: Number(e.target.value) })}
+                        disabled={isUploading}
+                        className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+                      />
+                    </label>
+                    <span>characters</span>
+                  </div>
+                )}
+                {pendingUploads.map((upload) => (
+                  <div
+                    key={upload.id}
+                    className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg border border-gray-200"
                   >
-                    Retry
-                  </button>
-                </div>
-              )}
-            </div>
-            {uploadState !== "uploading" && (
-              <button
-                onClick={handleRemoveAttachment}
-                className="text-gray-400 hover:text-red-600 transition-colors"
-                aria-label="Remove attachment"
+                    <svg
+                      className="w-5 h-5 text-red-600 flex-shrink-0"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+                      />
+                    </svg>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <p className="text-sm font-medium text-gray-900 truncate">{upload.file.name}</p>
+                        <p className="text-xs text-gray-500 flex-shrink-0">{formatFileSize(upload.file.size)}</p>
+                      </div>
+                      {/* Upload status */}
+                      {upload.state === "uploading" && (
+                        <div className="mt-1 flex items-center gap-2">
+                          <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-blue-500 transition-all"
+                              style={{ width: `${Math.round(upload.progress * 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-blue-600">{Math.round(upload.progress * 100)}%</span>
+                        </div>
+                      )}
+                      {upload.state === "uploaded" && upload.doc && (
+                        <div className="mt-1 text-xs text-green-600">
+                          ✓ Uploaded (ID: {upload.doc.doc_id.substring(0, 8)}...
+                          {upload.doc.chunks_count !== undefined && `, ${upload.doc.chunks_count} chunks`}
+                          {upload.doc.text_extraction === "ocr" &&
+                            `, OCR'd${upload.doc.ocr_confidence != null ? ` at ${upload.doc.ocr_confidence}% confidence` : ""}`}
+                          )
+                        </div>
+                      )}
+                      {upload.state === "error" && upload.error && (
+                        <div className="mt-1 flex items-center gap-2">
+                          <p className="text-xs text-red-600">{upload.error}</p>
+                          {isSupportedFile(upload.file) && (
+                            <button
+                              onClick={() => handleUploadFile(upload).catch(() => undefined)}
+                              className="text-xs text-blue-600 hover:text-blue-800 underline"
+                            >
+                              Retry
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    {upload.state !== "uploading" && (
+                      <button
+                        onClick={() => handleRemoveAttachment(upload.id)}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                        aria-label={`Remove ${upload.file.name}`}
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M6 18L18 6M6 6l12 12"
+                          />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-end gap-2">
+              {/* Hidden file input */}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_FILE_TYPES}
+                multiple
+                onChange={handleFileSelect}
+                className="hidden"
+                id="file-input"
+              />
+
+              {/* Attach button */}
+              <label
+                htmlFor="file-input"
+                className="px-3 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg cursor-pointer transition-colors flex-shrink-0"
+                title="Attach files (PDF, Word, HTML, text, Markdown)"
               >
                 <svg
-                  className="w-5 h-5"
+                  className="w-6 h-6"
                   fill="none"
                   stroke="currentColor"
                   viewBox="0 0 24 24"
@@ -625,86 +1120,82 @@ export function Chat() {
                     strokeLinecap="round"
                     strokeLinejoin="round"
                     strokeWidth={2}
-                    d="M6 18L18 6M6 6l12 12"
+                    d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
                   />
                 </svg>
+              </label>
+
+              <textarea
+                ref={inputRef}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Type your message... (Shift+Enter for newline)"
+                disabled={isSending || isUploading}
+                rows={1}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                style={{
+                  minHeight: "44px",
+                  maxHeight: "120px",
+                }}
+                onInput={(e) => {
+                  const target = e.target as HTMLTextAreaElement;
+                  target.style.height = "auto";
+                  target.style.height = `${Math.min(target.scrollHeight, 120)}px`;
+                }}
+              />
+              <button
+                onClick={() => handleSend()}
+                disabled={
+                  !input.trim() ||
+                  isSending ||
+                  isUploading ||
+                  hasUploadErrors
+                }
+                className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                Send
               </button>
-            )}
+            </div>
           </div>
+          </>
         )}
 
-        <div className="flex items-end gap-2">
-          {/* Hidden file input */}
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="application/pdf"
-            onChange={handleFileSelect}
-            className="hidden"
-            id="file-input"
-          />
-
-          {/* Attach button */}
-          <label
-            htmlFor="file-input"
-            className="px-3 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg cursor-pointer transition-colors flex-shrink-0"
-            title="Attach PDF"
-          >
-            <svg
-              className="w-6 h-6"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
-              />
-            </svg>
-          </label>
-
-          <textarea
-            ref={inputRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Type your message... (Shift+Enter for newline)"
-            disabled={isSending || uploadState === "uploading"}
-            rows={1}
-            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
-            style={{
-              minHeight: "44px",
-              maxHeight: "120px",
-            }}
-            onInput={(e) => {
-              const target = e.target as HTMLTextAreaElement;
-              target.style.height = "auto";
-              target.style.height = `${Math.min(target.scrollHeight, 120)}px`;
-            }}
-          />
-          <button
-            onClick={handleSend}
-            disabled={
-              !input.trim() ||
-              isSending ||
-              uploadState === "uploading" ||
-              (selectedFile !== null && uploadState === "error")
-            }
-            className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
-          >
-            Send
-          </button>
-        </div>
+        {/* Response Modal - shows all n8n responses in a modal */}
+        <ResponseModal
+          responses={allResponses}
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          isPolling={false}
+        />
       </div>
 
-      {/* Response Modal - shows all n8n responses in a modal */}
-      <ResponseModal
-        responses={allResponses}
-        isOpen={isModalOpen}
-        onClose={() => setIsModalOpen(false)}
-        isPolling={false}
+      {/* Audit timeline - session logs next to the chat */}
+      <AuditTimeline
+        session={session}
+        isOpen={isTimelineOpen}
+        onClose={() => setIsTimelineOpen(false)}
+      />
+
+      {/* Taxonomy picker - choose classification.selected */}
+      <TaxonomyPicker
+        session={session}
+        isOpen={isTaxonomyOpen}
+        onClose={() => setIsTaxonomyOpen(false)}
+        onSessionUpdated={setSession}
+      />
+
+      {/* VUK panel - view and edit the session's VUK */}
+      <VukPanel vukId={vukId} isOpen={isVukOpen && !!vukId} onClose={() => setIsVukOpen(false)} />
+
+      {/* Document library - the session's uploaded documents */}
+      <DocumentLibrary
+        sessionId={sessionId}
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        selected={contextDocs}
+        onSelectionChange={setContextDocs}
+        refreshKey={documentsVersion}
       />
     </div>
   );
@@ -0,0 +1,296 @@
+/**
+ * Comparison view component
+ * Picks 2-5 sessions or VUKs and lines up their taxonomy, TRL, confidence, scores and
+ * key onboarding answers side by side; rows whose values differ are highlighted and the
+ * table can be exported as CSV or Markdown
+ */
+
+import { Fragment, useState, useEffect } from "react";
+import type { Session, Vuk } from "../types";
+import { listSessions, listVuks, getSession } from "../services/api";
+import {
+  MIN_COMPARED,
+  MAX_COMPARED,
+  buildComparisonRows,
+  comparisonToCsv,
+  comparisonToMarkdown,
+  getItemTitle,
+  type ComparisonItem,
+} from "../lib/comparison";
+
+type ComparisonKind = "sessions" | "vuks";
+
+interface ComparisonViewProps {
+  currentSessionId: string | null; // Session preselected when comparing sessions
+}
+
+// Number of sessions / VUKs offered in the picker
+const PICKER_LIMIT = 100;
+
+/**
+ * Trigger a browser download of a text file
+ */
+function downloadText(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Resolve picked sessions / VUKs into comparison items
+ * Sessions are paired with their most recent VUK (TRL, confidence); VUKs with their source session
+ * (onboarding answers, scores).
+ */
+async function loadItems(kind: ComparisonKind, sessions: Session[], vuks: Vuk[]): Promise<ComparisonItem[]> {
+  if (kind === "sessions") {
+    return Promise.all(
+      sessions.map(async (session) => {
+        const page = await listVuks({ sessionId: session.session_id, limit: 1 });
+        return { key: session.session_id, session, vuk: page.vuks[0] ?? null };
+      })
+    );
+  }
+  return Promise.all(
+    vuks.map(async (vuk) => ({
+      key: vuk.vuk_id,
+      session: vuk.created_from_session_id ? await getSession(vuk.created_from_session_id) : null,
+      vuk,
+    }))
+  );
+}
+
+export function ComparisonView({ currentSessionId }: ComparisonViewProps) {
+  const [kind, setKind] = useState<ComparisonKind>("sessions"); // What is being compared
+  const [sessions, setSessions] = useState<Session[]>([]); // Sessions offered in the picker
+  const [vuks, setVuks] = useState<Vuk[]>([]); // VUKs offered in the picker
+  const [selectedIds, setSelectedIds] = useState<string[]>([]); // Picked session / VUK IDs, in column order
+  const [items, setItems] = useState<ComparisonItem[]>([]); // Resolved columns of the table
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Load the picker options
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    const load = kind === "sessions" ? listSessions({ limit: PICKER_LIMIT }) : listVuks({ limit: PICKER_LIMIT });
+    load
+      .then((page) => {
+        if (cancelled) return;
+        if ("sessions" in page) {
+          setSessions(page.sessions);
+          setSelectedIds(
+            currentSessionId && page.sessions.some((s) => s.session_id === currentSessionId) ? [currentSessionId] : []
+          );
+        } else {
+          setVuks(page.vuks);
+          setSelectedIds([]);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, currentSessionId]);
+
+  // Resolve the picked entries once enough are selected
+  useEffect(() => {
+    if (selectedIds.length < MIN_COMPARED) {
+      setItems([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    const pickedSessions = selectedIds
+      .map((id) => sessions.find((s) => s.session_id === id))
+      .filter((s): s is Session => !!s);
+    const pickedVuks = selectedIds.map((id) => vuks.find((v) => v.vuk_id === id)).filter((v): v is Vuk => !!v);
+    loadItems(kind, pickedSessions, pickedVuks)
+      .then((loaded) => {
+        if (!cancelled) setItems(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load comparison");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // sessions / vuks only change together with kind, which resets the selection
+  }, [selectedIds]);
+
+  const toggle = (id: string) => {
+    setSelectedIds((current) =>
+      current.includes(id)
+        ? current.filter((selected) => selected !== id)
+        : current.length < MAX_COMPARED
+          ? [...current, id]
+          : current
+    );
+  };
+
+  const rows = buildComparisonRows(items);
+  const visibleRows = onlyDifferences ? rows.filter((row) => row.differs) : rows;
+  const differenceCount = rows.filter((row) => row.differs).length;
+
+  const options =
+    kind === "sessions"
+      ? sessions.map((s) => ({
+          id: s.session_id,
+          title: s.raw_input.initial_description.trim() || s.session_id,
+          detail: `${s.status} · ${new Date(s.updated_at).toLocaleDateString()}`,
+        }))
+      : vuks.map((v) => ({
+          id: v.vuk_id,
+          title: v.technology.name.trim() || v.vuk_id,
+          detail: `${v.status} · ${new Date(v.updated_at).toLocaleDateString()}`,
+        }));
+
+  const handleCopyMarkdown = async () => {
+    await navigator.clipboard.writeText(comparisonToMarkdown(items, rows));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      {/* Picker */}
+      <div className="w-72 flex-shrink-0 flex flex-col border-r border-gray-200 bg-white">
+        <div className="p-3 border-b border-gray-200 space-y-2">
+          <div className="flex rounded-lg bg-gray-100 p-0.5 text-sm">
+            {(["sessions", "vuks"] as const).map((k) => (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={`flex-1 px-3 py-1 rounded-md ${
+                  kind === k ? "bg-white text-gray-900 shadow-sm" : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                {k === "sessions" ? "Sessions" : "VUKs"}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Pick {MIN_COMPARED}–{MAX_COMPARED} to compare ({selectedIds.length} selected)
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {options.length === 0 && <p className="p-3 text-xs text-gray-400">Nothing to compare yet.</p>}
+          {options.map((option) => {
+            const checked = selectedIds.includes(option.id);
+            const disabled = !checked && selectedIds.length >= MAX_COMPARED;
+            return (
+              <label
+                key={option.id}
+                className={`flex items-start gap-2 px-3 py-2 border-b border-gray-100 text-sm ${
+                  disabled ? "text-gray-300" : "cursor-pointer hover:bg-gray-50"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  disabled={disabled}
+                  onChange={() => toggle(option.id)}
+                  className="mt-0.5"
+                />
+                <span className="min-w-0">
+                  <span className="block truncate text-gray-800">{option.title}</span>
+                  <span className="block text-xs text-gray-400">{option.detail}</span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="flex-1 overflow-auto p-6 bg-gray-50">
+        {error && <p className="mb-3 text-xs text-red-600">{error}</p>}
+        {selectedIds.length < MIN_COMPARED ? (
+          <p className="text-sm text-gray-400">Select at least {MIN_COMPARED} {kind === "sessions" ? "sessions" : "VUKs"}.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-400">Loading…</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={onlyDifferences}
+                  onChange={(e) => setOnlyDifferences(e.target.checked)}
+                />
+                Only differences ({differenceCount})
+              </label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => downloadText("comparison.csv", comparisonToCsv(items, rows), "text/csv")}
+                  className="px-3 py-1 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-100"
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={handleCopyMarkdown}
+                  className="px-3 py-1 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-100"
+                >
+                  {copied ? "Copied" : "Copy Markdown"}
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500">
+                  <tr>
+                    <th className="text-left px-4 py-2 w-48">Field</th>
+                    {items.map((item) => (
+                      <th key={item.key} className="text-left px-4 py-2" title={item.key}>
+                        {getItemTitle(item)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row, index) => (
+                    <Fragment key={`${row.group}:${row.label}`}>
+                      {(index === 0 || visibleRows[index - 1].group !== row.group) && (
+                        <tr className="bg-gray-100">
+                          <td colSpan={items.length + 1} className="px-4 py-1 text-xs font-semibold text-gray-600">
+                            {row.group}
+                          </td>
+                        </tr>
+                      )}
+                      <tr className={`border-t border-gray-100 ${row.differs ? "bg-amber-50" : ""}`}>
+                        <td className="px-4 py-2 text-gray-600">{row.label}</td>
+                        {row.values.map((value, i) => (
+                          <td key={items[i].key} className="px-4 py-2 text-gray-800 align-top whitespace-pre-wrap">
+                            {value || <span className="text-gray-300">—</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    </Fragment>
+                  ))}
+                  {visibleRows.length === 0 && (
+                    <tr>
+                      <td colSpan={items.length + 1} className="px-4 py-3 text-sm text-gray-400">
+                        No differences.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
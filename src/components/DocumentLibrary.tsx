@@ -0,0 +1,229 @@
+/**
+ * Document library component
+ * Side panel listing the documents uploaded in the current session with their
+ * status, chunk count and text extraction state (OCR'd scans are marked); documents can be inspected,
+ * deleted, or selected as context for later messages
+ */
+
+import { useState, useEffect } from "react";
+import type { MessageAttachment, SessionDocument } from "../types";
+import { listSessionDocuments, getDocument, deleteDocument } from "../services/api";
+import { formatFileSize } from "../lib/documentUpload";
+
+interface DocumentLibraryProps {
+  sessionId: string; // Session whose documents to list
+  isOpen: boolean; // Whether the panel is visible
+  onClose: () => void; // Callback to close the panel
+  selected: MessageAttachment[]; // Documents attached as context to the next messages
+  onSelectionChange: (selected: MessageAttachment[]) => void;
+  refreshKey: number; // Bumped by the parent after an upload to reload the list
+}
+
+// Badge colors per text extraction state
+const EXTRACTION_BADGES: Record<string, string> = {
+  ok: "bg-green-100 text-green-800",
+  ocr: "bg-blue-100 text-blue-800",
+  failed_or_empty: "bg-red-100 text-red-800",
+};
+
+/**
+ * Convert a document into the attachment sent with chat messages
+ */
+function toAttachment(document: SessionDocument): MessageAttachment {
+  return {
+    type: document.mime_type === "application/pdf" ? "pdf" : "document",
+    doc_id: document.doc_id,
+    filename: document.file_name,
+  };
+}
+
+export function DocumentLibrary({
+  sessionId,
+  isOpen,
+  onClose,
+  selected,
+  onSelectionChange,
+  refreshKey,
+}: DocumentLibraryProps) {
+  const [documents, setDocuments] = useState<SessionDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inspected, setInspected] = useState<SessionDocument | null>(null); // Document whose details are shown
+  const [deletingId, setDeletingId] = useState<string | null>(null); // Document being deleted
+
+  // Reload whenever the panel opens, the session changes or a new upload lands
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    listSessionDocuments(sessionId)
+      .then((loaded) => {
+        if (!cancelled) setDocuments(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load documents");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, sessionId, refreshKey]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const isSelected = (docId: string) => selected.some((attachment) => attachment.doc_id === docId);
+
+  const toggleSelected = (document: SessionDocument) => {
+    onSelectionChange(
+      isSelected(document.doc_id)
+        ? selected.filter((attachment) => attachment.doc_id !== document.doc_id)
+        : [...selected, toAttachment(document)]
+    );
+  };
+
+  const handleInspect = async (document: SessionDocument) => {
+    if (inspected?.doc_id === document.doc_id) {
+      setInspected(null);
+      return;
+    }
+    setError(null);
+    try {
+      setInspected(await getDocument(document.doc_id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load document");
+    }
+  };
+
+  const handleDelete = async (document: SessionDocument) => {
+    if (!window.confirm(`Delete "${document.file_name}" with its chunks and stored file?`)) return;
+    setDeletingId(document.doc_id);
+    setError(null);
+    try {
+      await deleteDocument(document.doc_id);
+      setDocuments((current) => current.filter((d) => d.doc_id !== document.doc_id));
+      if (isSelected(document.doc_id)) {
+        onSelectionChange(selected.filter((attachment) => attachment.doc_id !== document.doc_id));
+      }
+      if (inspected?.doc_id === document.doc_id) setInspected(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete document");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="w-96 flex-shrink-0 flex flex-col border-l border-gray-200 bg-white">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-800">Documents ({documents.length})</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="px-4 py-2 border-b border-gray-200 text-xs text-gray-500">
+        {selected.length > 0
+          ? `${selected.length} selected as context for the next messages`
+          : "Select documents to use them as context for the next messages"}
+      </div>
+
+      {/* Document list */}
+      <div className="flex-1 overflow-y-auto p-4 bg-gray-50 space-y-2">
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        {isLoading && documents.length === 0 && <p className="text-sm text-gray-400">Loading...</p>}
+        {!isLoading && documents.length === 0 && (
+          <p className="text-sm text-gray-400">No documents uploaded in this session yet.</p>
+        )}
+        {documents.map((document) => (
+          <div key={document.doc_id} className="bg-white rounded-lg border border-gray-200 p-3 text-sm">
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isSelected(document.doc_id)}
+                disabled={document.chunks_count === 0}
+                onChange={() => toggleSelected(document)}
+                className="mt-1"
+                title={document.chunks_count === 0 ? "No text chunks to retrieve from" : "Use as context"}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate" title={document.file_name}>
+                  {document.file_name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {document.size_bytes !== null && `${formatFileSize(document.size_bytes)} · `}
+                  {new Date(document.created_at).toLocaleString()}
+                </p>
+              </div>
+            </label>
+
+            <div className="mt-2 flex flex-wrap items-center gap-1 text-[10px]">
+              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{document.status}</span>
+              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{document.chunks_count} chunks</span>
+              <span
+                className={`px-2 py-0.5 rounded-full ${
+                  EXTRACTION_BADGES[document.text_extraction ?? ""] ?? "bg-gray-100 text-gray-500"
+                }`}
+              >
+                {document.text_extraction === "ocr"
+                  ? `OCR'd${document.ocr_confidence !== null ? ` · ${document.ocr_confidence}% confidence` : ""}`
+                  : `text: ${document.text_extraction ?? "unknown"}`}
+              </span>
+              {document.embedding_model && (
+                <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800" title={document.embedding_model}>
+                  embedded
+                </span>
+              )}
+              {document.chunk_error && (
+                <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800" title={document.chunk_error}>
+                  chunk error
+                </span>
+              )}
+            </div>
+
+            <div className="mt-2 flex gap-3 text-xs">
+              <button onClick={() => handleInspect(document)} className="text-blue-600 hover:text-blue-800">
+                {inspected?.doc_id === document.doc_id ? "Hide details" : "Details"}
+              </button>
+              <button
+                onClick={() => handleDelete(document)}
+                disabled={deletingId === document.doc_id}
+                className="text-red-600 hover:text-red-800 disabled:text-gray-300"
+              >
+                {deletingId === document.doc_id ? "Deleting..." : "Delete"}
+              </button>
+            </div>
+
+            {inspected?.doc_id === document.doc_id && (
+              <dl className="mt-2 grid grid-cols-3 gap-x-2 gap-y-1 text-xs">
+                <dt className="text-gray-500">ID</dt>
+                <dd className="col-span-2 font-mono break-all">{inspected.doc_id}</dd>
+                <dt className="text-gray-500">Type</dt>
+                <dd className="col-span-2">{inspected.mime_type}</dd>
+                <dt className="text-gray-500">Storage</dt>
+                <dd className="col-span-2 font-mono break-all">{inspected.storage_path ?? "—"}</dd>
+                <dt className="text-gray-500">Metadata</dt>
+                <dd className="col-span-2">
+                  <pre className="p-1 bg-gray-50 rounded overflow-x-auto">
+                    {JSON.stringify(inspected.metadata_json ?? {}, null, 2)}
+                  </pre>
+                </dd>
+              </dl>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
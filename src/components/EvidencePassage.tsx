@@ -0,0 +1,78 @@
+/**
+ * Evidence passage component
+ * Loads the document chunk an evidence ref points at and shows the cited
+ * passage highlighted within its chunk
+ */
+
+import { useState, useEffect } from "react";
+import type { DocumentChunk } from "../types";
+import { getDocumentChunk } from "../services/api";
+import { parseEvidenceRef } from "../lib/trl";
+
+interface EvidencePassageProps {
+  evidenceRef: string; // "<doc_id>#<chunk_index>:<char_start>-<char_end>"
+}
+
+// Characters of chunk context shown on each side of the passage
+const CONTEXT_CHARS = 200;
+
+export function EvidencePassage({ evidenceRef }: EvidencePassageProps) {
+  const [chunk, setChunk] = useState<DocumentChunk | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const ref = parseEvidenceRef(evidenceRef);
+
+  useEffect(() => {
+    const parsed = parseEvidenceRef(evidenceRef);
+    if (!parsed) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setChunk(null);
+    getDocumentChunk(parsed.doc_id, parsed.chunk_index)
+      .then((loaded) => {
+        if (cancelled) return;
+        setChunk(loaded);
+        if (!loaded) setError("The cited chunk no longer exists");
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load passage");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [evidenceRef]);
+
+  if (!ref) {
+    return <p className="text-xs text-red-600">Not a document evidence ref.</p>;
+  }
+  if (isLoading) {
+    return <p className="text-xs text-gray-400">Loading passage...</p>;
+  }
+  if (error || !chunk) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+
+  const start = Math.max(ref.char_start - CONTEXT_CHARS, 0);
+  const end = Math.min(ref.char_end + CONTEXT_CHARS, chunk.content.length);
+
+  return (
+    <div className="p-2 bg-gray-50 rounded border border-gray-200">
+      <div className="text-[10px] text-gray-500 mb-1">
+        {chunk.file_name || ref.doc_id} · chunk {ref.chunk_index} · chars {ref.char_start}-{ref.char_end}
+      </div>
+      <p className="text-xs text-gray-700 whitespace-pre-wrap break-words">
+        {start > 0 && "…"}
+        {chunk.content.slice(start, ref.char_start)}
+        <mark className="bg-yellow-200 text-gray-900">{chunk.content.slice(ref.char_start, ref.char_end)}</mark>
+        {chunk.content.slice(ref.char_end, end)}
+        {end < chunk.content.length && "…"}
+      </p>
+    </div>
+  );
+}
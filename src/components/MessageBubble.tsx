@@ -1,16 +1,20 @@
 /**
  * Message bubble component for displaying chat messages
  * Supports user and assistant messages with different styling
- * Includes debug panel for assistant messages with webhook responses
+ * Includes source citations and a debug panel for assistant messages
  */
 
 import { useState } from "react";
-import type { Message } from "../types";
+import type { Message, ConfirmationDecision } from "../types";
 import { ThinkingDots } from "./ThinkingDots";
+import { TechnologyConfirmationCard } from "./TechnologyConfirmationCard";
+import { SourceCitations } from "./SourceCitations";
 import { useTypewriter } from "../hooks/useTypewriter";
 
 interface MessageBubbleProps {
   message: Message;
+  onTechnologyDecision?: (messageId: string, decision: ConfirmationDecision, refinement?: string) => void; // Handle confirmation card decisions
+  decisionsDisabled?: boolean; // Disable confirmation card buttons
 }
 
 /**
@@ -40,15 +44,17 @@ function formatDebugResponse(rawResponse: string | object): string {
   }
 }
 
-export function MessageBubble({ message }: MessageBubbleProps) {
+export function MessageBubble({ message, onTechnologyDecision, decisionsDisabled = false }: MessageBubbleProps) {
   const [showDebug, setShowDebug] = useState(false);
   const isUser = message.role === "user";
   // Show thinking indicator if it's an assistant message with "Thinking…" content and sending status
   const isThinking = !isUser && (message.content === "Thinking…" || message.content === "") && message.status === "sending";
   const hasDebug = message.debug !== undefined;
+  // Structured technology guesses are rendered as a confirmation card instead of text
+  const hasCard = !isUser && !isThinking && message.technologyGuess !== undefined;
 
   // Use typewriter effect for assistant messages (only when content exists and not thinking)
-  const shouldType = !isUser && !isThinking && message.content.length > 0;
+  const shouldType = !isUser && !isThinking && !hasCard && message.content.length > 0;
   const { displayedText, isTyping } = useTypewriter({
     text: message.content,
     speed: 30,
@@ -72,6 +78,17 @@ export function MessageBubble({ message }: MessageBubbleProps) {
         <div className="whitespace-pre-wrap break-words">
           {isThinking ? (
             <ThinkingDots />
+          ) : hasCard && message.technologyGuess ? (
+            <TechnologyConfirmationCard
+              guess={message.technologyGuess}
+              confirmation={message.confirmation}
+              onDecision={
+                onTechnologyDecision
+                  ? (decision, refinement) => onTechnologyDecision(message.id, decision, refinement)
+                  : undefined
+              }
+              disabled={decisionsDisabled}
+            />
           ) : isUser ? (
             message.content
           ) : (
@@ -93,6 +110,9 @@ export function MessageBubble({ message }: MessageBubbleProps) {
           {formatTime(message.createdAt)}
         </div>
 
+        {/* Document chunks the reply was grounded on */}
+        {!isUser && message.sources && message.sources.length > 0 && <SourceCitations sources={message.sources} />}
+
         {/* Debug panel for assistant messages with webhook responses */}
         {!isUser && hasDebug && (
           <div className="mt-3 pt-3 border-t border-gray-300">
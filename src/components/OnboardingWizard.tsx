@@ -0,0 +1,171 @@
+/**
+ * Onboarding wizard component
+ * Steps through the session's onboarding_answers fields one at a time,
+ * shows which fields are still missing, and submits structured answers
+ */
+
+import { useEffect, useState } from "react";
+import type { OnboardingAnswers } from "../types";
+import {
+  ONBOARDING_STEPS,
+  createEmptyOnboardingAnswers,
+  getMissingFields,
+  isFieldAnswered,
+  parseListInput,
+} from "../lib/onboarding";
+import { submitOnboardingAnswers, type BackendResponse } from "../lib/n8n";
+
+interface OnboardingWizardProps {
+  sessionId: string | null; // Session the answers belong to (if known)
+  initialAnswers?: OnboardingAnswers | null; // Answers already stored in the session
+  onSubmitted: (response: BackendResponse, answers: OnboardingAnswers) => void; // Called after a successful submit
+}
+
+export function OnboardingWizard({ sessionId, initialAnswers, onSubmitted }: OnboardingWizardProps) {
+  const [answers, setAnswers] = useState<OnboardingAnswers>(
+    initialAnswers ? { ...initialAnswers } : createEmptyOnboardingAnswers()
+  );
+  const [isEdited, setIsEdited] = useState(false); // Whether the analyst changed any answer
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Take over the stored answers when the session loads after the wizard opened, until the analyst edits
+  useEffect(() => {
+    if (initialAnswers && !isEdited) {
+      setAnswers({ ...initialAnswers });
+    }
+  }, [initialAnswers, isEdited]);
+
+  const step = ONBOARDING_STEPS[stepIndex];
+  const missingFields = getMissingFields(answers);
+  const isLastStep = stepIndex === ONBOARDING_STEPS.length - 1;
+
+  // Current value of the active field as textarea text
+  const currentValue = answers[step.field];
+  const textValue = Array.isArray(currentValue) ? currentValue.join("\n") : currentValue;
+
+  // Update the active field from textarea input
+  const handleChange = (text: string) => {
+    setIsEdited(true);
+    setAnswers((prev) => ({
+      ...prev,
+      // Keep raw lines while editing; lists are normalized on submit
+      [step.field]: step.kind === "list" ? text.split("\n") : text,
+    }));
+  };
+
+  // Submit normalized answers to the backend
+  const handleSubmit = async () => {
+    const normalized: OnboardingAnswers = {
+      ...answers,
+      scientific_basis: answers.scientific_basis.trim(),
+      primary_applications: answers.primary_applications.trim(),
+      secondary_applications: answers.secondary_applications.trim(),
+      exclusions: answers.exclusions.trim(),
+      deployment_layer: answers.deployment_layer.trim(),
+      example_entities: parseListInput(answers.example_entities.join("\n")),
+      strategic_focus: parseListInput(answers.strategic_focus.join("\n")),
+    };
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const response = await submitOnboardingAnswers(normalized, sessionId);
+      setAnswers(normalized);
+      onSubmitted(response, normalized);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Submit failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex h-full">
+      {/* Step list - click any step to edit an earlier answer */}
+      <div className="w-64 border-r border-gray-200 bg-white p-4 overflow-y-auto">
+        <h2 className="text-sm font-semibold text-gray-700 mb-1">Onboarding</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          {missingFields.length === 0
+            ? "All fields answered"
+            : `${missingFields.length} of ${ONBOARDING_STEPS.length} fields missing`}
+        </p>
+        <ol className="space-y-1">
+          {ONBOARDING_STEPS.map((s, index) => {
+            const answered = isFieldAnswered(answers, s.field);
+            const isActive = index === stepIndex;
+            return (
+              <li key={s.field}>
+                <button
+                  onClick={() => setStepIndex(index)}
+                  className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-sm ${
+                    isActive ? "bg-blue-50 text-blue-700" : "text-gray-700 hover:bg-gray-100"
+                  }`}
+                >
+                  <span
+                    className={`w-4 h-4 flex-shrink-0 rounded-full text-[10px] flex items-center justify-center ${
+                      answered ? "bg-green-500 text-white" : "border border-gray-300"
+                    }`}
+                  >
+                    {answered ? "✓" : ""}
+                  </span>
+                  <span className="truncate">{s.label}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+
+      {/* Active step */}
+      <div className="flex-1 flex flex-col p-6 bg-gray-50">
+        <div className="text-xs text-gray-500 mb-1">
+          Step {stepIndex + 1} of {ONBOARDING_STEPS.length}
+        </div>
+        <label htmlFor={`onboarding-${step.field}`} className="text-lg font-medium text-gray-800 mb-3">
+          {step.question}
+        </label>
+        <textarea
+          id={`onboarding-${step.field}`}
+          value={textValue}
+          onChange={(e) => handleChange(e.target.value)}
+          placeholder={step.placeholder}
+          disabled={isSubmitting}
+          rows={6}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+        />
+
+        {submitError && <p className="mt-2 text-sm text-red-600">{submitError}</p>}
+
+        <div className="mt-4 flex items-center justify-between">
+          <button
+            onClick={() => setStepIndex((i) => Math.max(0, i - 1))}
+            disabled={stepIndex === 0 || isSubmitting}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg disabled:text-gray-300 disabled:hover:bg-transparent"
+          >
+            Back
+          </button>
+          <div className="flex items-center gap-2">
+            {!isLastStep && (
+              <button
+                onClick={() => setStepIndex((i) => Math.min(ONBOARDING_STEPS.length - 1, i + 1))}
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+              >
+                Next
+              </button>
+            )}
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? "Submitting..." : "Submit answers"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,362 @@
+/**
+ * Scores dashboard component
+ * Shows a session's scores (radar chart and per-dimension breakdown) and a
+ * what-if panel that recomputes the overall score live as dimension weights change;
+ * nothing is saved until the analyst commits the weights as a new version
+ */
+
+import { Fragment, useState, useEffect } from "react";
+import type { Session, ScoringWeights } from "../types";
+import { scoreSession } from "../services/api";
+import { computeScorePreview, dimensionContribution, isScoreResult, type ScorePreview } from "../lib/scoring";
+
+interface ScoresDashboardProps {
+  session: Session | null; // Session whose scores to show
+  onSessionUpdated: (session: Session) => void; // Called with the re-scored session
+}
+
+// Radar chart geometry
+const RADAR_SIZE = 280;
+const RADAR_RADIUS = 100;
+const RADAR_RINGS = [25, 50, 75, 100];
+
+/**
+ * Format a score for display
+ */
+function formatScore(value: number | null | undefined, digits = 1): string {
+  return value === null || value === undefined ? "—" : value.toFixed(digits);
+}
+
+interface RadarChartProps {
+  axes: string[];
+  series: { label: string; values: (number | null)[]; color: string; dashed?: boolean }[];
+}
+
+/**
+ * SVG radar chart of 0-100 values, one axis per dimension
+ */
+function RadarChart({ axes, series }: RadarChartProps) {
+  const center = RADAR_SIZE / 2;
+  const point = (index: number, value: number) => {
+    const angle = (Math.PI * 2 * index) / axes.length - Math.PI / 2;
+    const r = (Math.max(0, Math.min(100, value)) / 100) * RADAR_RADIUS;
+    return [center + r * Math.cos(angle), center + r * Math.sin(angle)];
+  };
+
+  return (
+    <svg width={RADAR_SIZE} height={RADAR_SIZE} viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`} className="mx-auto">
+      {/* Grid rings and axes */}
+      {RADAR_RINGS.map((ring) => (
+        <polygon
+          key={ring}
+          points={axes.map((_, i) => point(i, ring).join(",")).join(" ")}
+          fill="none"
+          stroke="#e5e7eb"
+        />
+      ))}
+      {axes.map((axis, i) => {
+        const [x, y] = point(i, 100);
+        const [lx, ly] = point(i, 118);
+        return (
+          <g key={axis}>
+            <line x1={center} y1={center} x2={x} y2={y} stroke="#e5e7eb" />
+            <text x={lx} y={ly} textAnchor="middle" dominantBaseline="middle" className="fill-gray-600 text-[10px]">
+              {axis}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Data polygons (missing scores drawn at 0) */}
+      {series.map((s) => (
+        <polygon
+          key={s.label}
+          points={s.values.map((v, i) => point(i, v ?? 0).join(",")).join(" ")}
+          fill={s.color}
+          fillOpacity={0.15}
+          stroke={s.color}
+          strokeWidth={2}
+          strokeDasharray={s.dashed ? "4 3" : undefined}
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function ScoresDashboard({ session, onSessionUpdated }: ScoresDashboardProps) {
+  const storedScores = session?.artifacts.scores;
+  const scores = isScoreResult(storedScores) ? storedScores : null;
+  // Weights the stored scores were computed with (fall back to the configured weights)
+  const baseWeights = (scores?.inputs.weights ?? session?.artifacts.weights ?? null) as ScoringWeights | null;
+  const metrics = scores?.inputs.metrics ?? null;
+
+  const [draftWeights, setDraftWeights] = useState<Record<string, number>>({}); // What-if dimension weights
+  const [expanded, setExpanded] = useState<string | null>(null); // Dimension whose metrics are shown
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the what-if weights when the stored scores change
+  const scoresKey = scores?.inputs_hash ?? "";
+  useEffect(() => {
+    setDraftWeights(
+      baseWeights
+        ? Object.fromEntries(Object.entries(baseWeights.dimensions).map(([name, d]) => [name, d.weight]))
+        : {}
+    );
+    setError(null);
+    // baseWeights is derived from the same scores as scoresKey
+  }, [session?.session_id, scoresKey]);
+
+  if (!session) {
+    return <div className="flex-1 p-6 text-sm text-gray-400">No session loaded yet.</div>;
+  }
+
+  const runScoring = async (weights?: ScoringWeights) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      onSessionUpdated(await scoreSession(session.session_id, weights ? { weights } : {}));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Scoring failed");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!scores || !baseWeights || !metrics) {
+    const canScore = !!session.artifacts.weights && Object.keys(session.artifacts.metrics).length > 0;
+    return (
+      <div className="flex-1 p-6 space-y-3">
+        <p className="text-sm text-gray-500">This session has no scores yet.</p>
+        {canScore ? (
+          <button
+            onClick={() => runScoring()}
+            disabled={isSaving}
+            className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            {isSaving ? "Scoring..." : "Compute scores"}
+          </button>
+        ) : (
+          <p className="text-xs text-gray-400">Scores need artifacts.weights and artifacts.metrics.</p>
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  const dimensionNames = Object.keys(scores.dimensions).sort();
+  const whatIfWeights: ScoringWeights = {
+    ...baseWeights,
+    dimensions: Object.fromEntries(
+      Object.entries(baseWeights.dimensions).map(([name, d]) => [name, { ...d, weight: draftWeights[name] ?? d.weight }])
+    ),
+  };
+  const preview: ScorePreview = computeScorePreview(whatIfWeights, metrics);
+  const isDirty = Object.entries(baseWeights.dimensions).some(([name, d]) => (draftWeights[name] ?? d.weight) !== d.weight);
+  const delta = preview.overall !== null && scores.overall !== null ? preview.overall - scores.overall : null;
+  const sliderMax = Math.max(1, ...Object.values(baseWeights.dimensions).map((d) => d.weight));
+  const nextVersion = (typeof baseWeights.version === "number" ? baseWeights.version : 0) + 1;
+
+  const handleCommit = () => runScoring({ ...whatIfWeights, version: nextVersion });
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 bg-gray-50">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Summary */}
+        <div className="flex items-end justify-between">
+          <div>
+            <div className="text-xs text-gray-500">Overall score</div>
+            <div className="text-3xl font-semibold text-gray-900">{formatScore(scores.overall)}</div>
+          </div>
+          <div className="text-right text-[10px] text-gray-400 space-y-0.5">
+            <div>
+              Weights v{String(baseWeights.version ?? "—")} · engine {scores.engine_version}
+            </div>
+            <div>Computed {new Date(scores.computed_at).toLocaleString()}</div>
+            <div className="font-mono" title="sha256 of the recorded inputs">
+              {scores.inputs_hash.slice(0, 16)}…
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Radar chart */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <RadarChart
+              axes={dimensionNames}
+              series={[
+                {
+                  label: "Scores",
+                  values: dimensionNames.map((name) => scores.dimensions[name].score),
+                  color: "#3b82f6",
+                },
+                ...(isDirty
+                  ? [
+                      {
+                        label: "What-if",
+                        values: dimensionNames.map((name) => preview.dimensions[name]?.score ?? null),
+                        color: "#f97316",
+                        dashed: true,
+                      },
+                    ]
+                  : []),
+              ]}
+            />
+            <div className="mt-2 flex justify-center gap-4 text-xs text-gray-500">
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-0.5 bg-blue-500" /> Stored
+              </span>
+              {isDirty && (
+                <span className="flex items-center gap-1">
+                  <span className="w-3 h-0.5 bg-orange-500" /> What-if
+                </span>
+              )}
+            </div>
+          </div>
+
+          {/* What-if weights */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-700">What-if weights</h3>
+              <div className="text-sm">
+                <span className="text-gray-500">Overall </span>
+                <span className="font-semibold text-gray-900">{formatScore(preview.overall)}</span>
+                {isDirty && delta !== null && (
+                  <span className={`ml-1 text-xs ${delta >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    ({delta >= 0 ? "+" : ""}
+                    {delta.toFixed(1)})
+                  </span>
+                )}
+              </div>
+            </div>
+            {Object.keys(baseWeights.dimensions)
+              .sort()
+              .map((name) => (
+                <label key={name} className="block">
+                  <div className="flex justify-between text-xs text-gray-600">
+                    <span>{name}</span>
+                    <span className="font-mono">{(draftWeights[name] ?? 0).toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={sliderMax}
+                    step={0.01}
+                    value={draftWeights[name] ?? 0}
+                    onChange={(e) => setDraftWeights((current) => ({ ...current, [name]: Number(e.target.value) }))}
+                    className="w-full"
+                  />
+                </label>
+              ))}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <button
+                onClick={handleCommit}
+                disabled={!isDirty || isSaving}
+                className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+              >
+                {isSaving ? "Saving..." : `Commit as weights v${nextVersion}`}
+              </button>
+              <button
+                onClick={() =>
+                  setDraftWeights(
+                    Object.fromEntries(Object.entries(baseWeights.dimensions).map(([name, d]) => [name, d.weight]))
+                  )
+                }
+                disabled={!isDirty || isSaving}
+                className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded disabled:text-gray-300"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Per-dimension breakdown */}
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="text-left px-4 py-2">Dimension</th>
+                <th className="text-right px-4 py-2">Score</th>
+                <th className="text-right px-4 py-2">Weight</th>
+                <th className="text-right px-4 py-2">Effective weight</th>
+                <th className="text-right px-4 py-2">Contribution</th>
+              </tr>
+            </thead>
+            <tbody>
+              {dimensionNames.map((name) => {
+                const dimension = scores.dimensions[name];
+                const isExpanded = expanded === name;
+                return (
+                  <Fragment key={name}>
+                    <tr
+                      onClick={() => setExpanded(isExpanded ? null : name)}
+                      className="border-t border-gray-100 cursor-pointer hover:bg-gray-50"
+                    >
+                      <td className="px-4 py-2 text-gray-800">
+                        {isExpanded ? "▾" : "▸"} {name}
+                        {dimension.missing_metrics.length > 0 && (
+                          <span className="ml-2 text-xs text-amber-600">
+                            {dimension.missing_metrics.length} missing
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right font-medium">{formatScore(dimension.score)}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">{dimension.weight}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">{formatScore(dimension.effective_weight, 3)}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">{formatScore(dimensionContribution(dimension))}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="px-8 py-2">
+                          <table className="w-full text-xs text-gray-600">
+                            <thead>
+                              <tr className="text-gray-400">
+                                <th className="text-left py-1">Metric</th>
+                                <th className="text-right py-1">Value</th>
+                                <th className="text-right py-1">Range</th>
+                                <th className="text-right py-1">Normalized</th>
+                                <th className="text-right py-1">Weight</th>
+                                <th className="text-right py-1">Contribution</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {Object.entries(dimension.metrics).map(([metric, m]) => (
+                                <tr key={metric}>
+                                  <td className="py-1">
+                                    {metric}
+                                    {m.direction === "lower_is_better" && <span className="ml-1 text-gray-400">(↓)</span>}
+                                  </td>
+                                  <td className="py-1 text-right">{m.value}</td>
+                                  <td className="py-1 text-right">
+                                    {m.min}–{m.max}
+                                  </td>
+                                  <td className="py-1 text-right">{formatScore(m.normalized)}</td>
+                                  <td className="py-1 text-right">{formatScore(m.effective_weight, 3)}</td>
+                                  <td className="py-1 text-right">{formatScore(m.contribution)}</td>
+                                </tr>
+                              ))}
+                              {dimension.missing_metrics.map((metric) => (
+                                <tr key={metric} className="text-amber-600">
+                                  <td className="py-1">{metric}</td>
+                                  <td colSpan={5} className="py-1 text-right">
+                                    missing — left out of the score
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
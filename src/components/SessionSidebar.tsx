@@ -0,0 +1,141 @@
+/**
+ * Session sidebar component
+ * Lists stored evaluation sessions with create, rename, switch and delete
+ */
+
+import { useState } from "react";
+import type { ChatSessionMeta } from "../lib/storage";
+
+interface SessionSidebarProps {
+  sessions: ChatSessionMeta[]; // Stored sessions
+  activeSessionId: string; // Currently open session
+  onCreate: () => void; // Start a new session
+  onSwitch: (id: string) => void; // Open another session
+  onRename: (id: string, title: string) => void; // Rename a session
+  onDelete: (id: string) => void; // Delete a session and its history
+  disabled?: boolean; // Disable switching (e.g., while a message is sending)
+}
+
+/**
+ * Format a timestamp as a short date/time string
+ */
+function formatUpdatedAt(timestamp: string): string {
+  try {
+    return new Date(timestamp).toLocaleString([], {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  } catch {
+    return "";
+  }
+}
+
+export function SessionSidebar({
+  sessions,
+  activeSessionId,
+  onCreate,
+  onSwitch,
+  onRename,
+  onDelete,
+  disabled = false,
+}: SessionSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startRename = (session: ChatSessionMeta) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  // Most recently updated first
+  const sorted = [...sessions].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  return (
+    <div className="w-64 flex-shrink-0 flex flex-col border-r border-gray-200 bg-white">
+      <div className="p-4 border-b border-gray-200">
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="w-full px-3 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+        >
+          + New session
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sorted.map((session) => {
+          const isActive = session.id === activeSessionId;
+          return (
+            <li
+              key={session.id}
+              className={`group rounded-lg px-3 py-2 ${
+                isActive ? "bg-blue-50" : "hover:bg-gray-100"
+              }`}
+            >
+              {editingId === session.id ? (
+                <input
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="w-full px-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onSwitch(session.id)}
+                    disabled={disabled || isActive}
+                    className="flex-1 min-w-0 text-left disabled:cursor-default"
+                  >
+                    <p
+                      className={`text-sm truncate ${
+                        isActive ? "font-medium text-blue-700" : "text-gray-800"
+                      }`}
+                    >
+                      {session.title}
+                    </p>
+                    <p className="text-xs text-gray-500">{formatUpdatedAt(session.updatedAt)}</p>
+                  </button>
+                  <div className="hidden group-hover:flex items-center gap-1">
+                    <button
+                      onClick={() => startRename(session)}
+                      className="text-xs text-gray-500 hover:text-gray-800"
+                      aria-label="Rename session"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete "${session.title}" and its chat history?`)) {
+                          onDelete(session.id);
+                        }
+                      }}
+                      disabled={disabled}
+                      className="text-xs text-gray-500 hover:text-red-600"
+                      aria-label="Delete session"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
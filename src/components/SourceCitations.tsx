@@ -0,0 +1,98 @@
+/**
+ * Source citations component
+ * Lists the document chunks an assistant reply was grounded on, with their page and section;
+ * each citation expands to the chunk text with the matched keywords highlighted
+ */
+
+import { useState } from "react";
+import type { ChatSource } from "../types";
+
+interface SourceCitationsProps {
+  sources: ChatSource[];
+}
+
+/**
+ * Split chunk text into plain and highlighted segments
+ */
+function highlightSegments(content: string, highlights: [number, number][]): { text: string; highlighted: boolean }[] {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+  for (const [start, end] of highlights) {
+    if (start < position || end > content.length) continue;
+    if (start > position) segments.push({ text: content.slice(position, start), highlighted: false });
+    segments.push({ text: content.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < content.length) segments.push({ text: content.slice(position), highlighted: false });
+  return segments;
+}
+
+/**
+ * Format the pages a chunk spans ("p. 3", "pp. 3-4"), or null for formats without pages
+ */
+function formatPages(source: ChatSource): string | null {
+  // Sources stored before chunks had pages lack the fields
+  if (source.page_start == null) return null;
+  return source.page_end != null && source.page_end !== source.page_start
+    ? `pp. ${source.page_start}-${source.page_end}`
+    : `p. ${source.page_start}`;
+}
+
+export function SourceCitations({ sources }: SourceCitationsProps) {
+  const [isOpen, setIsOpen] = useState(false); // Show the citation list
+  const [expanded, setExpanded] = useState<string | null>(null); // Key of the citation showing its text
+
+  return (
+    <div className="mt-3 pt-3 border-t border-blue-400">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-xs text-blue-100 hover:text-white underline">
+        {isOpen ? "Hide" : "Show"} sources ({sources.length})
+      </button>
+      {isOpen && (
+        <ol className="mt-2 space-y-1.5">
+          {sources.map((source, index) => {
+            const key = `${source.doc_id}#${source.chunk_index}`;
+            const isExpanded = expanded === key;
+            const pages = formatPages(source);
+            return (
+              <li key={key} className="rounded bg-white text-gray-800 text-xs">
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : key)}
+                  className="w-full flex items-center justify-between gap-2 px-2 py-1.5 text-left hover:bg-gray-50 rounded"
+                >
+                  <span className="truncate">
+                    <span className="text-gray-400">[{index + 1}]</span> {source.file_name || source.doc_id}
+                  </span>
+                  <span className="flex-shrink-0 text-gray-500">
+                    {pages && `${pages} · `}
+                    chunk {source.chunk_index}
+                    {source.char_start !== null && source.char_end !== null && ` · chars ${source.char_start}-${source.char_end}`}
+                    {source.similarity !== null && ` · similarity ${source.similarity}`}
+                    {source.bm25 !== null && ` · BM25 ${source.bm25}`}
+                  </span>
+                </button>
+                {isExpanded && source.section && (
+                  <p className="px-2 pb-1 text-gray-500 truncate" title={source.section}>
+                    § {source.section}
+                  </p>
+                )}
+                {isExpanded && (
+                  <p className="px-2 pb-2 text-gray-700 whitespace-pre-wrap break-words max-h-60 overflow-y-auto">
+                    {highlightSegments(source.content, source.highlights).map((segment, i) =>
+                      segment.highlighted ? (
+                        <mark key={i} className="bg-yellow-200 text-gray-900">
+                          {segment.text}
+                        </mark>
+                      ) : (
+                        <span key={i}>{segment.text}</span>
+                      )
+                    )}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+/**
+ * Taxonomy picker component
+ * Side panel showing the pipeline's taxonomy candidates (score + rationale) and an
+ * L1 → L2 → L3 browse tree of the backend taxonomy registry; the chosen node is
+ * saved to classification.selected
+ */
+
+import { useState, useEffect } from "react";
+import type { Session, TaxonomyNode, TaxonomySelection } from "../types";
+import { commitSessionUpdate, getTaxonomy, searchTaxonomy } from "../services/api";
+import {
+  buildTaxonomyTree,
+  candidateToSelection,
+  createEmptySelection,
+  formatTaxonomyPath,
+  isSameSelection,
+  nodeToSelection,
+  sortCandidates,
+  type TaxonomyTreeNode,
+} from "../lib/taxonomy";
+
+interface TaxonomyPickerProps {
+  session: Session | null; // Session whose classification to edit
+  isOpen: boolean; // Whether the panel is visible
+  onClose: () => void; // Callback to close the panel
+  onSessionUpdated: (session: Session) => void; // Called with the saved session
+}
+
+// Editable selection fields, in path order
+const SELECTION_FIELDS: { field: keyof TaxonomySelection; label: string }[] = [
+  { field: "l1", label: "L1" },
+  { field: "l2", label: "L2" },
+  { field: "l3", label: "L3" },
+  { field: "node_id", label: "Node ID" },
+];
+
+interface TreeBranchProps {
+  nodes: TaxonomyTreeNode[];
+  expanded: Set<string>;
+  selected: TaxonomySelection;
+  onToggle: (key: string) => void;
+  onPick: (selection: TaxonomySelection) => void;
+}
+
+/**
+ * One level of the browse tree (renders its expanded children recursively)
+ */
+function TreeBranch({ nodes, expanded, selected, onToggle, onPick }: TreeBranchProps) {
+  return (
+    <ul className="space-y-0.5">
+      {nodes.map((node) => {
+        const isExpanded = expanded.has(node.key);
+        const isSelected = isSameSelection(node.selection, selected);
+        return (
+          <li key={node.key}>
+            <div className="flex items-center gap-1">
+              {node.children.length > 0 ? (
+                <button
+                  onClick={() => onToggle(node.key)}
+                  className="w-4 text-xs text-gray-500 hover:text-gray-800"
+                  aria-label={isExpanded ? "Collapse" : "Expand"}
+                >
+                  {isExpanded ? "▾" : "▸"}
+                </button>
+              ) : (
+                <span className="w-4" />
+              )}
+              <button
+                onClick={() => onPick(node.selection)}
+                className={`flex-1 text-left px-1 rounded text-sm truncate ${
+                  isSelected ? "bg-blue-100 text-blue-900" : "text-gray-800 hover:bg-gray-100"
+                }`}
+                title={node.node_id ? `Node ${node.node_id}` : undefined}
+              >
+                {node.label}
+                {node.node_id && <span className="ml-1 text-xs font-mono text-gray-400">{node.node_id}</span>}
+              </button>
+            </div>
+            {isExpanded && node.children.length > 0 && (
+              <div className="ml-4">
+                <TreeBranch
+                  nodes={node.children}
+                  expanded={expanded}
+                  selected={selected}
+                  onToggle={onToggle}
+                  onPick={onPick}
+                />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export function TaxonomyPicker({ session, isOpen, onClose, onSessionUpdated }: TaxonomyPickerProps) {
+  const savedSelection = session?.classification.selected ?? createEmptySelection();
+  const [draft, setDraft] = useState<TaxonomySelection>(savedSelection); // Selection being edited
+  const [expanded, setExpanded] = useState<Set<string>>(new Set()); // Expanded tree node keys
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [registry, setRegistry] = useState<{ version: string; nodes: TaxonomyNode[] } | null>(null); // Backend taxonomy
+  const [registryError, setRegistryError] = useState<string | null>(null);
+  const [query, setQuery] = useState(""); // Registry search text
+  const [results, setResults] = useState<TaxonomyNode[]>([]); // Registry search results
+
+  // Load the taxonomy registry the first time the panel opens
+  useEffect(() => {
+    if (!isOpen || registry) return;
+    getTaxonomy()
+      .then((loaded) => {
+        setRegistry(loaded);
+        setRegistryError(null);
+      })
+      .catch((error) => setRegistryError(error instanceof Error ? error.message : "Failed to load taxonomy"));
+  }, [isOpen, registry]);
+
+  // Search the registry as the analyst types
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchTaxonomy(query)
+        .then((nodes) => {
+          if (!cancelled) setResults(nodes);
+        })
+        .catch((error) => console.error("[TaxonomyPicker] Search failed:", error));
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Reset the draft when another session is shown or the stored selection changes
+  const savedKey = JSON.stringify(savedSelection);
+  useEffect(() => {
+    setDraft(JSON.parse(savedKey));
+    setSaveError(null);
+  }, [session?.session_id, savedKey]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const candidates = sortCandidates(session?.classification.taxonomy_candidates ?? []);
+  // Browse the registry when it is loaded, otherwise just the candidates' paths
+  const tree = buildTaxonomyTree(
+    registry && registry.nodes.length > 0
+      ? registry.nodes.map(nodeToSelection)
+      : candidates.map(candidateToSelection)
+  );
+  const isDirty = !isSameSelection(draft, savedSelection);
+
+  const toggleNode = (key: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const updateDraftField = (field: keyof TaxonomySelection, value: string) => {
+    setDraft((current) => ({ ...current, [field]: value.trim() === "" ? null : value }));
+  };
+
+  const handleSave = async () => {
+    if (!session) return;
+    const selected: TaxonomySelection = {
+      l1: draft.l1?.trim() || null,
+      l2: draft.l2?.trim() || null,
+      l3: draft.l3?.trim() || null,
+      node_id: draft.node_id?.trim() || null,
+    };
+    const candidate = candidates.find((c) => isSameSelection(candidateToSelection(c), selected));
+    const path = formatTaxonomyPath(selected) || "(none)";
+    const description = candidate
+      ? `Analyst selected taxonomy candidate ${path} (score ${candidate.score.toFixed(2)})`
+      : `Analyst set taxonomy selection to ${path}`;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const updated = await commitSessionUpdate(
+        session,
+        { classification: { selected } },
+        "taxonomy_selection",
+        description,
+        { source: candidate ? "candidate" : "override" }
+      );
+      onSessionUpdated(updated);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : "Failed to save selection");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-96 flex-shrink-0 flex flex-col border-l border-gray-200 bg-white">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-800">Taxonomy</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 bg-gray-50 space-y-4">
+        {!session ? (
+          <p className="text-sm text-gray-400">No session loaded yet.</p>
+        ) : (
+          <>
+            {/* Candidates proposed by the pipeline */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Candidates ({candidates.length})</h3>
+              {candidates.length === 0 ? (
+                <p className="text-xs text-gray-400">The pipeline has not proposed any taxonomy nodes yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {candidates.map((candidate) => {
+                    const selection = candidateToSelection(candidate);
+                    const isSelected = isSameSelection(selection, draft);
+                    return (
+                      <button
+                        key={candidate.node_id}
+                        onClick={() => setDraft(selection)}
+                        className={`w-full text-left rounded-lg p-3 border ${
+                          isSelected ? "bg-blue-50 border-blue-300" : "bg-white border-gray-200 hover:border-gray-300"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-gray-800">{formatTaxonomyPath(selection)}</span>
+                          <span className="text-xs text-gray-500">{Math.round(candidate.score * 100)}%</span>
+                        </div>
+                        <div className="mt-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-500" style={{ width: `${candidate.score * 100}%` }} />
+                        </div>
+                        {candidate.rationale && <p className="mt-1 text-xs text-gray-600">{candidate.rationale}</p>}
+                        <p className="mt-1 text-[10px] font-mono text-gray-400">{candidate.node_id}</p>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* L1 → L2 → L3 browse tree */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                Browse{registry ? ` (taxonomy ${registry.version})` : ""}
+              </h3>
+              {registryError && (
+                <p className="mb-2 text-xs text-red-600">Taxonomy registry unavailable: {registryError}</p>
+              )}
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search taxonomy..."
+                className="w-full mb-2 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {query.trim() ? (
+                <div className="bg-white rounded-lg p-2 border border-gray-200">
+                  {results.length === 0 ? (
+                    <p className="text-xs text-gray-400">No matching nodes.</p>
+                  ) : (
+                    <ul className="space-y-0.5">
+                      {results.map((node) => {
+                        const selection = nodeToSelection(node);
+                        return (
+                          <li key={node.node_id}>
+                            <button
+                              onClick={() => setDraft(selection)}
+                              className={`w-full text-left px-1 rounded text-sm ${
+                                isSameSelection(selection, draft)
+                                  ? "bg-blue-100 text-blue-900"
+                                  : "text-gray-800 hover:bg-gray-100"
+                              }`}
+                            >
+                              {formatTaxonomyPath(selection)}
+                              <span className="ml-1 text-xs font-mono text-gray-400">{node.node_id}</span>
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              ) : tree.length > 0 ? (
+                <div className="bg-white rounded-lg p-2 border border-gray-200">
+                  <TreeBranch
+                    nodes={tree}
+                    expanded={expanded}
+                    selected={draft}
+                    onToggle={toggleNode}
+                    onPick={setDraft}
+                  />
+                </div>
+              ) : null}
+            </div>
+
+            {/* Selection (editable to override; the backend checks it against the registry) */}
+            <div className="bg-white rounded-lg p-3 border border-gray-200 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">Selection</h3>
+              {SELECTION_FIELDS.map(({ field, label }) => (
+                <label key={field} className="block">
+                  <span className="text-xs text-gray-500">{label}</span>
+                  <input
+                    value={draft[field] ?? ""}
+                    onChange={(e) => updateDraftField(field, e.target.value)}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+              ))}
+              {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  disabled={!isDirty || isSaving}
+                  className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+                >
+                  {isSaving ? "Saving..." : "Save selection"}
+                </button>
+                <button
+                  onClick={() => setDraft(savedSelection)}
+                  disabled={!isDirty || isSaving}
+                  className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded disabled:text-gray-300"
+                >
+                  Reset
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
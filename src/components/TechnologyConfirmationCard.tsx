@@ -0,0 +1,148 @@
+/**
+ * Technology confirmation card component
+ * Renders a technology guess with confidence bar and rationale,
+ * and lets the analyst confirm, reject or refine it
+ */
+
+import { useState } from "react";
+import type { TechnologyGuess, TechnologyConfirmation, ConfirmationDecision } from "../types";
+
+interface TechnologyConfirmationCardProps {
+  guess: TechnologyGuess; // Guess returned by the pipeline
+  confirmation?: TechnologyConfirmation; // Decision already taken (if any)
+  onDecision?: (decision: ConfirmationDecision, refinement?: string) => void; // Called when the analyst decides
+  disabled?: boolean; // Disable buttons (e.g., while a message is sending)
+}
+
+// Labels shown once a decision has been recorded
+const DECISION_LABELS: Record<ConfirmationDecision, string> = {
+  confirm: "Confirmed",
+  reject: "Rejected",
+  refine: "Refined",
+};
+
+/**
+ * Normalize confidence to a 0-100 percentage (accepts 0-1 or 0-100 input)
+ */
+function toPercent(confidence: number | undefined): number {
+  if (typeof confidence !== "number" || Number.isNaN(confidence)) return 0;
+  const percent = confidence <= 1 ? confidence * 100 : confidence;
+  return Math.max(0, Math.min(100, Math.round(percent)));
+}
+
+/**
+ * Color of the confidence bar
+ */
+function confidenceColor(percent: number): string {
+  if (percent >= 75) return "bg-green-500";
+  if (percent >= 40) return "bg-yellow-500";
+  return "bg-red-500";
+}
+
+export function TechnologyConfirmationCard({
+  guess,
+  confirmation,
+  onDecision,
+  disabled = false,
+}: TechnologyConfirmationCardProps) {
+  const [isRefining, setIsRefining] = useState(false);
+  const [refinement, setRefinement] = useState("");
+  const percent = toPercent(guess.confidence);
+  const canDecide = !confirmation && !!onDecision && !disabled;
+
+  const handleRefineSubmit = () => {
+    if (!refinement.trim() || !onDecision) return;
+    onDecision("refine", refinement.trim());
+    setIsRefining(false);
+  };
+
+  return (
+    <div className="bg-white text-gray-900 rounded-md p-3 min-w-[280px]">
+      <div className="text-xs uppercase tracking-wide text-gray-500">Technology</div>
+      <div className="text-lg font-semibold">{guess.technology_guess || "Unknown"}</div>
+
+      {/* Confidence bar */}
+      <div className="mt-2">
+        <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+          <span>Confidence</span>
+          <span>{percent}%</span>
+        </div>
+        <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+          <div className={`h-full ${confidenceColor(percent)}`} style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+
+      {/* Rationale */}
+      {guess.why && (
+        <div className="mt-3">
+          <div className="text-xs uppercase tracking-wide text-gray-500">Why</div>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">{guess.why}</p>
+        </div>
+      )}
+
+      {guess.confirmation_question && (
+        <p className="mt-3 text-sm font-medium">{guess.confirmation_question}</p>
+      )}
+
+      {/* Decision */}
+      {confirmation ? (
+        <div className="mt-3 text-sm text-gray-600">
+          <span className="font-medium">{DECISION_LABELS[confirmation.decision]}</span>
+          {confirmation.refinement && <span>: {confirmation.refinement}</span>}
+        </div>
+      ) : isRefining ? (
+        <div className="mt-3 flex items-center gap-2">
+          <input
+            value={refinement}
+            onChange={(e) => setRefinement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleRefineSubmit();
+            }}
+            placeholder="Correct technology or clarification"
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoFocus
+          />
+          <button
+            onClick={handleRefineSubmit}
+            disabled={!refinement.trim() || !canDecide}
+            className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            Send
+          </button>
+          <button
+            onClick={() => setIsRefining(false)}
+            className="px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        onDecision && (
+          <div className="mt-3 flex items-center gap-2">
+            <button
+              onClick={() => onDecision("confirm")}
+              disabled={!canDecide}
+              className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-300"
+            >
+              Confirm
+            </button>
+            <button
+              onClick={() => onDecision("reject")}
+              disabled={!canDecide}
+              className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-300"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => setIsRefining(true)}
+              disabled={!canDecide}
+              className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300 disabled:text-gray-400"
+            >
+              Refine
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,552 @@
+/**
+ * VUK panel component
+ * Shows a Validated Unit of Knowledge (technology, taxonomy, TRL, confidence)
+ * with inline editing while the VUK is in draft status, review workflow actions and
+ * a TRL assessment whose evidence refs open the cited document passage
+ */
+
+import { useState, useEffect } from "react";
+import type { TrlAssessment, Vuk, VukAction, VukPatch } from "../types";
+import { getVuk, commitVukUpdate, transitionVuk, getTaxonomyNode, assessVukTrl } from "../services/api";
+import { EvidencePassage } from "./EvidencePassage";
+import {
+  validateVuk,
+  mergeVukPatch,
+  isVukEditable,
+  getAvailableActions,
+  requiresActor,
+  VUK_TRANSITIONS,
+} from "../lib/vuk";
+import { formatViolations } from "../lib/schemaValidator";
+
+interface VukPanelProps {
+  vukId: string | null; // VUK to show
+  isOpen: boolean; // Whether the panel is visible
+  onClose: () => void; // Callback to close the panel
+}
+
+// Editable VUK field definition
+interface FieldSpec {
+  label: string;
+  kind: "text" | "multiline" | "number";
+  read: (vuk: Vuk) => string; // Current value as editable text
+  toPatch: (text: string) => VukPatch | string | Promise<VukPatch | string>; // Patch for the new text, or an error message
+  readOnly?: boolean; // Derived from another field
+}
+
+/**
+ * Split text into trimmed non-empty entries (one per line or comma)
+ */
+function splitList(text: string, separator: RegExp): string[] {
+  return text
+    .split(separator)
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+/**
+ * Parse a nullable number field ("" means null)
+ */
+function parseNullableNumber(text: string, label: string): number | null | string {
+  if (text.trim() === "") return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : `${label} must be a number`;
+}
+
+// Fields grouped by section, in display order
+const SECTIONS: { title: string; fields: FieldSpec[] }[] = [
+  {
+    title: "Technology",
+    fields: [
+      {
+        label: "Name",
+        kind: "text",
+        read: (v) => v.technology.name,
+        toPatch: (t) => ({ technology: { name: t.trim() } }),
+      },
+      {
+        label: "One-liner",
+        kind: "text",
+        read: (v) => v.technology.one_liner,
+        toPatch: (t) => ({ technology: { one_liner: t.trim() } }),
+      },
+      {
+        label: "Description",
+        kind: "multiline",
+        read: (v) => v.technology.description,
+        toPatch: (t) => ({ technology: { description: t.trim() } }),
+      },
+      {
+        label: "Keywords (comma-separated)",
+        kind: "text",
+        read: (v) => v.technology.keywords.join(", "),
+        toPatch: (t) => ({ technology: { keywords: splitList(t, /,/) } }),
+      },
+    ],
+  },
+  {
+    title: "Taxonomy",
+    fields: [
+      {
+        label: "Node ID",
+        kind: "text",
+        read: (v) => v.taxonomy.node_id,
+        // L1/L2/L3 follow the node's path in the taxonomy registry
+        toPatch: async (t) => {
+          const nodeId = t.trim();
+          if (!nodeId) return { taxonomy: { l1: "", l2: "", l3: "", node_id: "" } };
+          const node = await getTaxonomyNode(nodeId);
+          if (!node) return `Taxonomy node "${nodeId}" does not exist`;
+          return { taxonomy: { l1: node.l1, l2: node.l2 ?? "", l3: node.l3 ?? "", node_id: node.node_id } };
+        },
+      },
+      { label: "L1", kind: "text", read: (v) => v.taxonomy.l1, toPatch: () => ({}), readOnly: true },
+      { label: "L2", kind: "text", read: (v) => v.taxonomy.l2, toPatch: () => ({}), readOnly: true },
+      { label: "L3", kind: "text", read: (v) => v.taxonomy.l3, toPatch: () => ({}), readOnly: true },
+    ],
+  },
+  {
+    title: "TRL",
+    fields: [
+      {
+        label: "Value (1-9)",
+        kind: "number",
+        read: (v) => (v.trl.value === null ? "" : String(v.trl.value)),
+        toPatch: (t) => {
+          const value = parseNullableNumber(t, "TRL");
+          return typeof value === "string" ? value : { trl: { value } };
+        },
+      },
+      {
+        label: "Rationale",
+        kind: "multiline",
+        read: (v) => v.trl.rationale,
+        toPatch: (t) => ({ trl: { rationale: t.trim() } }),
+      },
+      {
+        label: "Evidence refs (one per line)",
+        kind: "multiline",
+        read: (v) => v.trl.evidence_refs.join("\n"),
+        toPatch: (t) => ({ trl: { evidence_refs: splitList(t, /\n/) } }),
+      },
+    ],
+  },
+  {
+    title: "Confidence",
+    fields: [
+      {
+        label: "Value (0-100)",
+        kind: "number",
+        read: (v) => (v.confidence.value === null ? "" : String(v.confidence.value)),
+        toPatch: (t) => {
+          const value = parseNullableNumber(t, "Confidence");
+          return typeof value === "string" ? value : { confidence: { value } };
+        },
+      },
+      {
+        label: "Rationale",
+        kind: "multiline",
+        read: (v) => v.confidence.rationale,
+        toPatch: (t) => ({ confidence: { rationale: t.trim() } }),
+      },
+    ],
+  },
+];
+
+interface EditableFieldProps {
+  spec: FieldSpec;
+  value: string;
+  editable: boolean;
+  onSave: (text: string) => Promise<string | null>; // Resolves to an error message or null
+}
+
+/**
+ * Single VUK field with click-to-edit behaviour
+ */
+function EditableField({ spec, value, editable, onSave }: EditableFieldProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = () => {
+    setDraft(value);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saveError = await onSave(draft);
+    setIsSaving(false);
+    if (saveError) {
+      setError(saveError);
+    } else {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div className="py-1">
+      <div className="text-xs text-gray-500">{spec.label}</div>
+      {isEditing ? (
+        <div className="mt-1">
+          {spec.kind === "multiline" ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={4}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+          ) : (
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSave();
+                if (e.key === "Escape") setIsEditing(false);
+              }}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+          )}
+          {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+          <div className="mt-1 flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-2 py-0.5 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={isSaving}
+              className="px-2 py-0.5 text-xs text-gray-600 hover:bg-gray-100 rounded"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div
+          onClick={editable ? startEditing : undefined}
+          className={`text-sm text-gray-800 whitespace-pre-wrap break-words rounded ${
+            editable ? "cursor-text hover:bg-gray-100 -mx-1 px-1" : ""
+          }`}
+          title={editable ? "Click to edit" : undefined}
+        >
+          {value || <span className="text-gray-400">(empty)</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function VukPanel({ vukId, isOpen, onClose }: VukPanelProps) {
+  const [vuk, setVuk] = useState<Vuk | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reviewer, setReviewer] = useState(""); // Name recorded on approve/reject
+  const [reviewComment, setReviewComment] = useState(""); // Optional note for the transition log entry
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const [selectedRef, setSelectedRef] = useState<string | null>(null); // Evidence ref whose passage is shown
+  const [assessment, setAssessment] = useState<TrlAssessment | null>(null); // Proposed TRL, not yet applied
+  const [isAssessing, setIsAssessing] = useState(false);
+  const [assessmentError, setAssessmentError] = useState<string | null>(null);
+
+  // Load the VUK when the panel opens or the VUK changes
+  useEffect(() => {
+    if (!isOpen || !vukId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(null);
+    getVuk(vukId)
+      .then((loaded) => {
+        if (!cancelled) {
+          setVuk(loaded);
+          if (!loaded) setLoadError("VUK not found");
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Failed to load VUK");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [vukId, isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const editable = !!vuk && isVukEditable(vuk);
+
+  // Validate the edit against the schema, then persist it with a log entry
+  const saveField = async (spec: FieldSpec, text: string): Promise<string | null> => {
+    if (!vuk) return "No VUK loaded";
+    let patch: VukPatch | string;
+    try {
+      patch = await spec.toPatch(text);
+    } catch (error) {
+      return error instanceof Error ? error.message : "Save failed";
+    }
+    if (typeof patch === "string") return patch;
+
+    const violations = validateVuk(mergeVukPatch(vuk, patch));
+    if (violations.length > 0) return formatViolations(violations);
+
+    try {
+      setVuk(await commitVukUpdate(vuk, patch, "vuk_edit", `Edited ${spec.label}`));
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : "Save failed";
+    }
+  };
+
+  // Move the VUK through the review workflow; the backend appends the log entry
+  const handleTransition = async (action: VukAction) => {
+    if (!vuk) return;
+    if (requiresActor(action) && !reviewer.trim()) {
+      setReviewError("Enter your name to approve or reject");
+      return;
+    }
+
+    setIsTransitioning(true);
+    setReviewError(null);
+    try {
+      setVuk(
+        await transitionVuk(vuk.vuk_id, action, {
+          actor: reviewer.trim() || undefined,
+          comment: reviewComment.trim() || undefined,
+        })
+      );
+      setReviewComment("");
+    } catch (error) {
+      setReviewError(error instanceof Error ? error.message : "Transition failed");
+    } finally {
+      setIsTransitioning(false);
+    }
+  };
+
+  // Ask the backend for a TRL proposal from the session's documents
+  const handleAssessTrl = async () => {
+    if (!vuk) return;
+    setIsAssessing(true);
+    setAssessmentError(null);
+    try {
+      setAssessment(await assessVukTrl(vuk.vuk_id));
+    } catch (error) {
+      setAssessmentError(error instanceof Error ? error.message : "TRL assessment failed");
+    } finally {
+      setIsAssessing(false);
+    }
+  };
+
+  // Save the proposed TRL with a log entry
+  const handleApplyAssessment = async () => {
+    if (!vuk || !assessment) return;
+    setIsAssessing(true);
+    setAssessmentError(null);
+    try {
+      const patch: VukPatch = {
+        trl: {
+          value: assessment.value,
+          rationale: assessment.rationale,
+          evidence_refs: assessment.evidence_refs,
+        },
+      };
+      const description = `Applied TRL assessment: TRL ${assessment.value ?? "n/a"} from ${assessment.evidence.length} evidence passages`;
+      setVuk(await commitVukUpdate(vuk, patch, "trl_assessment", description));
+      setAssessment(null);
+    } catch (error) {
+      setAssessmentError(error instanceof Error ? error.message : "Failed to apply TRL assessment");
+    } finally {
+      setIsAssessing(false);
+    }
+  };
+
+  const actions = vuk ? getAvailableActions(vuk) : [];
+
+  return (
+    <div className="w-96 flex-shrink-0 flex flex-col border-l border-gray-200 bg-white">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold text-gray-800">VUK</h2>
+          {vuk && (
+            <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">{vuk.status}</span>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 bg-gray-50">
+        {!vukId ? (
+          <p className="text-sm text-gray-400">No VUK has been created for this session yet.</p>
+        ) : isLoading && !vuk ? (
+          <p className="text-sm text-gray-400">Loading...</p>
+        ) : loadError ? (
+          <p className="text-sm text-red-600">{loadError}</p>
+        ) : vuk ? (
+          <div className="space-y-4">
+            {/* Taxonomy path summary */}
+            <div className="text-xs text-gray-600">
+              {[vuk.taxonomy.l1, vuk.taxonomy.l2, vuk.taxonomy.l3].filter(Boolean).join(" › ") ||
+                "No taxonomy path"}
+            </div>
+
+            {/* Review workflow */}
+            <div className="bg-white rounded-lg p-3 border border-gray-200 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">Review</h3>
+              {vuk.audit.approved ? (
+                <p className="text-xs text-green-700">
+                  Approved by {vuk.audit.approved_by}
+                  {vuk.audit.approved_at && ` on ${new Date(vuk.audit.approved_at).toLocaleString()}`}. Approved
+                  VUKs are locked.
+                </p>
+              ) : (
+                !editable && <p className="text-xs text-gray-500">Only draft VUKs can be edited.</p>
+              )}
+              {actions.length > 0 && (
+                <>
+                  <input
+                    value={reviewer}
+                    onChange={(e) => setReviewer(e.target.value)}
+                    placeholder="Your name"
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    value={reviewComment}
+                    onChange={(e) => setReviewComment(e.target.value)}
+                    placeholder="Comment (optional)"
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {actions.map((action) => (
+                      <button
+                        key={action}
+                        onClick={() => handleTransition(action)}
+                        disabled={isTransitioning}
+                        className={`px-2 py-1 text-xs rounded text-white disabled:bg-gray-300 ${
+                          action === "approve"
+                            ? "bg-green-600 hover:bg-green-700"
+                            : action === "reject"
+                            ? "bg-red-600 hover:bg-red-700"
+                            : "bg-blue-500 hover:bg-blue-600"
+                        }`}
+                      >
+                        {VUK_TRANSITIONS[action].label}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+              {reviewError && <p className="text-xs text-red-600">{reviewError}</p>}
+            </div>
+
+            {SECTIONS.map((section) => (
+              <div key={section.title} className="bg-white rounded-lg p-3 border border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-700 mb-1">{section.title}</h3>
+                {section.fields.map((spec) => (
+                  <EditableField
+                    key={`${section.title}-${spec.label}`}
+                    spec={spec}
+                    value={spec.read(vuk)}
+                    editable={editable && !spec.readOnly}
+                    onSave={(text) => saveField(spec, text)}
+                  />
+                ))}
+              </div>
+            ))}
+
+            {/* TRL evidence and assessment */}
+            <div className="bg-white rounded-lg p-3 border border-gray-200 space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-700">TRL evidence</h3>
+                {editable && (
+                  <button
+                    onClick={handleAssessTrl}
+                    disabled={isAssessing}
+                    className="px-2 py-0.5 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+                  >
+                    {isAssessing && !assessment ? "Assessing..." : "Assess TRL"}
+                  </button>
+                )}
+              </div>
+
+              {vuk.trl.evidence_refs.length === 0 ? (
+                <p className="text-xs text-gray-400">No evidence linked.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {vuk.trl.evidence_refs.map((ref) => (
+                    <button
+                      key={ref}
+                      onClick={() => setSelectedRef(selectedRef === ref ? null : ref)}
+                      className={`px-1.5 py-0.5 text-xs font-mono rounded ${
+                        selectedRef === ref ? "bg-blue-100 text-blue-900" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      {ref}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selectedRef && <EvidencePassage evidenceRef={selectedRef} />}
+
+              {assessmentError && <p className="text-xs text-red-600">{assessmentError}</p>}
+
+              {/* Proposal awaiting review */}
+              {assessment && (
+                <div className="p-2 rounded border border-blue-200 bg-blue-50 space-y-2">
+                  <div className="text-sm font-medium text-gray-800">
+                    Proposed TRL: {assessment.value ?? "none"}
+                  </div>
+                  <p className="text-xs text-gray-700">{assessment.rationale}</p>
+                  {assessment.evidence.map((item) => (
+                    <div key={item.ref} className="text-xs">
+                      <div className="text-gray-500">
+                        TRL {item.level} · “{item.indicator}” · {item.file_name || "document"}
+                      </div>
+                      <p className="text-gray-800 italic">{item.passage}</p>
+                    </div>
+                  ))}
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleApplyAssessment}
+                      disabled={isAssessing || assessment.value === null}
+                      className="px-2 py-0.5 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+                    >
+                      Apply
+                    </button>
+                    <button
+                      onClick={() => setAssessment(null)}
+                      disabled={isAssessing}
+                      className="px-2 py-0.5 text-xs text-gray-600 hover:bg-gray-100 rounded"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
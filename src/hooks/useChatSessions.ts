@@ -0,0 +1,120 @@
+/**
+ * Custom hook for managing the list of chat sessions
+ * Keeps the session index (sidebar entries and active session) in sync with localStorage
+ */
+
+import { useState, useEffect } from "react";
+import {
+  loadSessionIndex,
+  saveSessionIndex,
+  createSessionMeta,
+  generateSessionId,
+  moveChatHistory,
+  clearChatHistory,
+  type ChatSessionMeta,
+  type SessionIndex,
+} from "../lib/storage";
+
+/**
+ * Build the initial index: restore from storage, then make sure the session
+ * from the URL (if any) exists and is active, and that there is an active session
+ */
+function initIndex(urlSessionId: string | null): SessionIndex {
+  const index = loadSessionIndex();
+
+  if (urlSessionId) {
+    const sessions = index.sessions.some((s) => s.id === urlSessionId)
+      ? index.sessions
+      : [createSessionMeta(urlSessionId, "Shared session"), ...index.sessions];
+    return { ...index, sessions, activeSessionId: urlSessionId };
+  }
+
+  if (index.activeSessionId && index.sessions.some((s) => s.id === index.activeSessionId)) {
+    return index;
+  }
+
+  if (index.sessions.length > 0) {
+    return { ...index, activeSessionId: index.sessions[0].id };
+  }
+
+  const meta = createSessionMeta(generateSessionId());
+  return { ...index, sessions: [meta], activeSessionId: meta.id };
+}
+
+/**
+ * Hook that returns the stored sessions and operations on them
+ * @param urlSessionId Session ID from the URL (takes priority on load)
+ */
+export function useChatSessions(urlSessionId: string | null) {
+  const [index, setIndex] = useState<SessionIndex>(() => initIndex(urlSessionId));
+
+  // Persist the index whenever it changes
+  useEffect(() => {
+    saveSessionIndex(index);
+  }, [index]);
+
+  // Create a new empty session and make it active
+  const createSession = (): ChatSessionMeta => {
+    const meta = createSessionMeta(generateSessionId());
+    setIndex((prev) => ({ ...prev, sessions: [meta, ...prev.sessions], activeSessionId: meta.id }));
+    return meta;
+  };
+
+  // Make an existing session active
+  const switchSession = (id: string) => {
+    setIndex((prev) => ({ ...prev, activeSessionId: id }));
+  };
+
+  // Update fields of a session entry
+  const updateSession = (id: string, patch: Partial<Omit<ChatSessionMeta, "id" | "createdAt">>) => {
+    setIndex((prev) => ({
+      ...prev,
+      sessions: prev.sessions.map((s) =>
+        s.id === id ? { ...s, ...patch, updatedAt: new Date().toISOString() } : s
+      ),
+    }));
+  };
+
+  // Rename a session
+  const renameSession = (id: string, title: string) => {
+    updateSession(id, { title });
+  };
+
+  // Delete a session and its history; returns the session that becomes active
+  const deleteSession = (id: string): ChatSessionMeta => {
+    clearChatHistory(id);
+    const remaining = index.sessions.filter((s) => s.id !== id);
+    const fallback = remaining[0] ?? createSessionMeta(generateSessionId());
+    const sessions = remaining.length > 0 ? remaining : [fallback];
+    const activeSessionId = index.activeSessionId === id ? fallback.id : index.activeSessionId;
+    setIndex({ ...index, sessions, activeSessionId });
+    return sessions.find((s) => s.id === activeSessionId) ?? fallback;
+  };
+
+  // Re-key a session when the backend assigns a different session_id
+  const rekeySession = (fromId: string, toId: string) => {
+    if (fromId === toId) return;
+    moveChatHistory(fromId, toId);
+    setIndex((prev) => ({
+      ...prev,
+      activeSessionId: prev.activeSessionId === fromId ? toId : prev.activeSessionId,
+      sessions: prev.sessions
+        .filter((s) => s.id !== toId)
+        .map((s) => (s.id === fromId ? { ...s, id: toId } : s)),
+    }));
+  };
+
+  const activeSession =
+    index.sessions.find((s) => s.id === index.activeSessionId) ?? index.sessions[0];
+
+  return {
+    sessions: index.sessions,
+    activeSession,
+    createSession,
+    switchSession,
+    updateSession,
+    renameSession,
+    deleteSession,
+    rekeySession,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Audit log helpers
+ * Build log entries for the README logging contract: every change appends
+ * { timestamp, step, description, affected_fields } to the session's logs
+ */
+
+import type { SessionLogEntry } from "../types";
+
+// Bookkeeping fields that never count as affected fields
+const IGNORED_FIELDS = ["updated_at", "logs"];
+
+/**
+ * Check whether a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Compute the fields that differ between two objects, in dot notation
+ * Plain objects are compared key by key; arrays and primitives are compared as a whole
+ *
+ * @param before Object before the change
+ * @param after Object after the change
+ * @param prefix Path prefix for nested calls
+ * @returns Sorted list of changed field paths (e.g., "onboarding_answers.exclusions")
+ */
+export function diffFields(before: object, after: object, prefix = ""): string[] {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const changed: string[] = [];
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+  for (const key of keys) {
+    if (!prefix && IGNORED_FIELDS.includes(key)) {
+      continue;
+    }
+    const path = prefix ? `${prefix}.${key}` : key;
+    const valueA = a[key];
+    const valueB = b[key];
+
+    if (isPlainObject(valueA) && isPlainObject(valueB)) {
+      changed.push(...diffFields(valueA, valueB, path));
+    } else if (JSON.stringify(valueA) !== JSON.stringify(valueB)) {
+      changed.push(path);
+    }
+  }
+
+  return changed.sort();
+}
+
+/**
+ * Create a log entry for a change
+ *
+ * @param before Object before the change
+ * @param after Object after the change
+ * @param step Name of the pipeline step
+ * @param description Human-readable description
+ * @param details Optional step-specific details stored on the entry
+ * @returns Log entry with affected_fields computed from the diff
+ */
+export function createLogEntry(
+  before: object,
+  after: object,
+  step: string,
+  description: string,
+  details: Record<string, unknown> = {}
+): SessionLogEntry {
+  return {
+    ...details,
+    timestamp: new Date().toISOString(),
+    step,
+    description,
+    affected_fields: diffFields(before, after),
+  };
+}
+
+/**
+ * Read a value from an object by dot-notation path
+ *
+ * @param source Object to read from (e.g., a session)
+ * @param path Dot-notation path (e.g., "classification.selected.l1")
+ * @returns The value, or undefined if the path does not exist
+ */
+export function getFieldValue(source: object, path: string): unknown {
+  let current: unknown = source;
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
@@ -0,0 +1,153 @@
+/**
+ * Comparison helpers
+ * Lines up 2-5 technologies (sessions and/or their VUKs) as columns of a table and
+ * exports that table as CSV or Markdown
+ */
+
+import type { ScoreResult, Session, Vuk } from "../types";
+import { ONBOARDING_STEPS } from "./onboarding";
+import { formatTaxonomyPath } from "./taxonomy";
+import { isScoreResult } from "./scoring";
+
+// Number of technologies the comparison view accepts
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 5;
+
+// One compared technology: a session, its VUK, or both
+export interface ComparisonItem {
+  key: string; // session_id or vuk_id the item was picked by
+  session: Session | null;
+  vuk: Vuk | null;
+}
+
+// One row of the comparison table
+export interface ComparisonRow {
+  group: string; // Section heading (Technology, Taxonomy, ...)
+  label: string;
+  values: string[]; // One cell per compared item ("" when unknown)
+  differs: boolean; // True when the cells are not all equal (a missing value counts as different)
+}
+
+/**
+ * Column heading for a compared item
+ */
+export function getItemTitle(item: ComparisonItem): string {
+  const name = item.vuk?.technology.name.trim();
+  if (name) return name;
+  const description = item.session?.raw_input.initial_description.trim() ?? "";
+  if (description) return description.length > 40 ? `${description.slice(0, 40)}…` : description;
+  return item.key;
+}
+
+/**
+ * Stored scoring result of an item (session artifacts first, then the VUK)
+ */
+function getScores(item: ComparisonItem): ScoreResult | null {
+  const sessionScores = item.session?.artifacts.scores;
+  if (isScoreResult(sessionScores)) return sessionScores;
+  const vukScores = item.vuk?.scores;
+  return isScoreResult(vukScores) ? vukScores : null;
+}
+
+/**
+ * Taxonomy of an item: the reviewed VUK classification, else the session selection
+ */
+function getTaxonomy(item: ComparisonItem): { path: string; node_id: string } {
+  if (item.vuk?.taxonomy.node_id) {
+    const { l1, l2, l3, node_id } = item.vuk.taxonomy;
+    return { path: [l1, l2, l3].filter(Boolean).join(" › "), node_id };
+  }
+  if (item.session) {
+    const selected = item.session.classification.selected;
+    return { path: formatTaxonomyPath(selected), node_id: selected.node_id ?? "" };
+  }
+  return { path: "", node_id: "" };
+}
+
+function formatNumber(value: number | null | undefined): string {
+  return value === null || value === undefined ? "" : String(Math.round(value * 10) / 10);
+}
+
+function makeRow(group: string, label: string, values: string[]): ComparisonRow {
+  const known = values.filter((value) => value !== "");
+  return { group, label, values, differs: known.length > 0 && new Set(values).size > 1 };
+}
+
+/**
+ * Build the comparison table rows for a set of items
+ * Score rows cover the union of dimensions across items; onboarding rows follow wizard order.
+ *
+ * @param items Compared items, in column order
+ * @returns Rows grouped by section
+ */
+export function buildComparisonRows(items: ComparisonItem[]): ComparisonRow[] {
+  const rows: ComparisonRow[] = [];
+  const cells = (read: (item: ComparisonItem) => string) => items.map((item) => read(item).trim());
+
+  rows.push(makeRow("Technology", "Name", cells((item) => item.vuk?.technology.name ?? "")));
+  rows.push(makeRow("Technology", "One-liner", cells((item) => item.vuk?.technology.one_liner ?? "")));
+  rows.push(makeRow("Technology", "Session status", cells((item) => item.session?.status ?? "")));
+  rows.push(makeRow("Technology", "VUK status", cells((item) => item.vuk?.status ?? "")));
+
+  rows.push(makeRow("Taxonomy", "Path", cells((item) => getTaxonomy(item).path)));
+  rows.push(makeRow("Taxonomy", "Node ID", cells((item) => getTaxonomy(item).node_id)));
+
+  rows.push(makeRow("Readiness", "TRL", cells((item) => formatNumber(item.vuk?.trl.value))));
+  rows.push(makeRow("Readiness", "Confidence", cells((item) => formatNumber(item.vuk?.confidence.value))));
+
+  const scores = items.map(getScores);
+  rows.push(makeRow("Scores", "Overall", scores.map((result) => formatNumber(result?.overall))));
+  const dimensions = [...new Set(scores.flatMap((result) => (result ? Object.keys(result.dimensions) : [])))].sort();
+  for (const dimension of dimensions) {
+    rows.push(makeRow("Scores", dimension, scores.map((result) => formatNumber(result?.dimensions[dimension]?.score))));
+  }
+
+  for (const step of ONBOARDING_STEPS) {
+    rows.push(
+      makeRow(
+        "Onboarding",
+        step.label,
+        cells((item) => {
+          const value = item.session?.onboarding_answers[step.field];
+          return Array.isArray(value) ? value.join("; ") : value ?? "";
+        })
+      )
+    );
+  }
+
+  return rows;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export the comparison table as CSV
+ */
+export function comparisonToCsv(items: ComparisonItem[], rows: ComparisonRow[]): string {
+  const header = ["Section", "Field", ...items.map(getItemTitle), "Differs"];
+  const lines = rows.map((row) => [row.group, row.label, ...row.values, row.differs ? "yes" : ""]);
+  return [header, ...lines].map((line) => line.map(escapeCsv).join(",")).join("\n");
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Export the comparison table as a Markdown table (differing rows in bold)
+ */
+export function comparisonToMarkdown(items: ComparisonItem[], rows: ComparisonRow[]): string {
+  const header = ["Field", ...items.map(getItemTitle)];
+  const lines = [
+    `| ${header.map(escapeMarkdown).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => {
+      const label = `${row.group}: ${row.label}`;
+      const values = row.values.map((value) => escapeMarkdown(value) || "—");
+      return `| ${row.differs ? `**${escapeMarkdown(label)}**` : escapeMarkdown(label)} | ${values.join(" | ")} |`;
+    }),
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,186 @@
+/**
+ * Document Upload Helper
+ * Uploads documents (PDF, Word, HTML, plain text, Markdown) to the backend, one file per request
+ */
+
+// Upload state types
+export type UploadState = "idle" | "uploading" | "uploaded" | "error";
+
+// Uploaded document structure returned by the backend
+export interface UploadedDoc {
+  doc_id: string;
+  status?: string;
+  file_name?: string;
+  mime_type?: string;
+  format?: string; // Extractor that read the text ("pdf", "docx", "html", "markdown", "text")
+  text_extraction?: string | null; // "ok", "ocr" or "failed_or_empty"
+  ocr_confidence?: number | null; // Mean confidence of the OCR'd pages (0-100)
+  chunks_count?: number;
+}
+
+// File attached in the composer, with its own upload progress and error
+export interface PendingUpload {
+  id: string;
+  file: File;
+  state: UploadState;
+  progress: number; // Fraction of the file sent (0-1)
+  doc: UploadedDoc | null; // Set once uploaded
+  error: string | null;
+}
+
+// Chunk size and overlap in characters, set per upload (see backend/lib/chunking.js)
+export interface ChunkingOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = { chunkSize: 1200, chunkOverlap: 200 };
+export const MIN_CHUNK_SIZE = 200;
+export const MAX_CHUNK_SIZE = 8000;
+
+// Upload response from the backend
+interface UploadResponse {
+  doc_id?: string;
+  status?: string;
+  file_name?: string;
+  mime_type?: string;
+  format?: string;
+  text_extraction?: string | null;
+  ocr_confidence?: number | null;
+  chunks_count?: number;
+  error?: string;
+  message?: string;
+  [key: string]: unknown;
+}
+
+// Supported formats (mirrors the extractors in backend/lib/textExtract.js)
+export const SUPPORTED_FORMATS = [
+  { label: "PDF", mimeTypes: ["application/pdf"], extensions: [".pdf"] },
+  {
+    label: "Word",
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: [".docx"],
+  },
+  { label: "HTML", mimeTypes: ["text/html", "application/xhtml+xml"], extensions: [".html", ".htm", ".xhtml"] },
+  { label: "Markdown", mimeTypes: ["text/markdown", "text/x-markdown"], extensions: [".md", ".markdown"] },
+  { label: "Text", mimeTypes: ["text/plain"], extensions: [".txt", ".text"] },
+];
+
+// Value for the file input's accept attribute
+export const ACCEPTED_FILE_TYPES = SUPPORTED_FORMATS.flatMap((format) => [
+  ...format.mimeTypes,
+  ...format.extensions,
+]).join(",");
+
+/**
+ * Check whether a file has a supported format
+ * The extension wins over the MIME type, which browsers often leave empty for Markdown and text notes
+ */
+export function isSupportedFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return SUPPORTED_FORMATS.some(
+    (format) => format.extensions.some((ext) => name.endsWith(ext)) || format.mimeTypes.includes(file.type)
+  );
+}
+
+/**
+ * Upload a document to the backend
+ * Uses XMLHttpRequest so upload progress can be reported.
+ *
+ * @param file Document to upload
+ * @param sessionId Optional session ID to include in the upload
+ * @param onProgress Optional callback with the fraction of the file sent (0-1)
+ * @param chunking Optional chunk size and overlap (backend defaults otherwise)
+ * @returns Promise resolving to uploaded document info with doc_id
+ * @throws Error if upload fails or response is invalid
+ */
+export function uploadDocument(
+  file: File,
+  sessionId?: string | null,
+  onProgress?: (progress: number) => void,
+  chunking?: ChunkingOptions
+): Promise<UploadedDoc> {
+  if (!isSupportedFile(file)) {
+    return Promise.reject(new Error("Unsupported file type"));
+  }
+
+  // Get backend API URL (use backend proxy to avoid CORS issues)
+  const API_URL = import.meta.env.VITE_API_URL;
+  if (!API_URL) {
+    return Promise.reject(new Error("Missing VITE_API_URL environment variable"));
+  }
+
+  // Create FormData for multipart/form-data upload
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("filename", file.name);
+  if (sessionId) {
+    formData.append("session_id", sessionId);
+  }
+  if (chunking) {
+    formData.append("chunk_size", String(chunking.chunkSize));
+    formData.append("chunk_overlap", String(chunking.chunkOverlap));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open("POST", `${API_URL}/api/upload`);
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(event.loaded / event.total);
+      }
+    };
+
+    request.onerror = () => reject(new Error("Upload failed: network error"));
+
+    request.onload = () => {
+      let uploadResponse: UploadResponse | null = null;
+      try {
+        uploadResponse = JSON.parse(request.responseText);
+      } catch {
+        // Non-JSON body - handled below
+      }
+
+      // Handle non-OK responses
+      if (request.status < 200 || request.status >= 300) {
+        const detail = uploadResponse?.message || uploadResponse?.error || request.responseText;
+        reject(new Error(`Upload failed: ${request.status}${detail ? `. ${detail}` : ""}`));
+        return;
+      }
+
+      // Validate response includes doc_id
+      if (!uploadResponse || typeof uploadResponse.doc_id !== "string" || !uploadResponse.doc_id) {
+        reject(new Error(`Invalid upload response: missing doc_id. Response: ${request.responseText.slice(0, 200)}`));
+        return;
+      }
+
+      resolve({
+        doc_id: uploadResponse.doc_id,
+        status: uploadResponse.status,
+        file_name: uploadResponse.file_name,
+        mime_type: uploadResponse.mime_type,
+        format: uploadResponse.format,
+        text_extraction: uploadResponse.text_extraction,
+        ocr_confidence: uploadResponse.ocr_confidence,
+        chunks_count: uploadResponse.chunks_count,
+      });
+    };
+
+    request.send(formData);
+  });
+}
+
+/**
+ * Format file size for display
+ *
+ * @param bytes File size in bytes
+ * @returns Formatted string (e.g., "1.5 MB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + " " + sizes[i];
+}
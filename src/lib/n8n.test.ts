@@ -0,0 +1,55 @@
+/**
+ * Chat webhook client tests
+ * A session that fails schema validation is dropped without losing the assistant reply.
+ */
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { callN8nWebhook } from "./n8n";
+import { createEmptySession } from "./session";
+
+// Stub fetch with a single backend reply
+function replyWith(body: unknown) {
+  vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(body), { status: 200 })));
+}
+
+describe("callN8nWebhook", () => {
+  beforeEach(() => {
+    vi.stubEnv("VITE_API_URL", "http://backend.test");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  test("keeps a valid session", async () => {
+    const session = createEmptySession("session-1", "Solid state batteries");
+    replyWith({ ok: true, assistant_text: "Hello", assistant_json: null, session });
+
+    const response = await callN8nWebhook("Hi", "session-1");
+    expect(response.assistant_text).toBe("Hello");
+    expect(response.session).toEqual(session);
+  });
+
+  test("drops an invalid session and keeps the reply", async () => {
+    replyWith({
+      ok: true,
+      assistant_text: "Hello",
+      assistant_json: null,
+      session: { session_id: "session-1", status: 42 },
+      session_id: "session-1",
+    });
+
+    const response = await callN8nWebhook("Hi", "session-1");
+    expect(response.assistant_text).toBe("Hello");
+    expect(response.session).toBeNull();
+    expect(response.session_id).toBe("session-1");
+    expect(console.error).toHaveBeenCalledWith(
+      "[n8n] Ignoring invalid session in backend response:",
+      expect.stringContaining("Invalid session payload")
+    );
+  });
+});
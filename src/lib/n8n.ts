@@ -3,6 +3,16 @@
  * Helper function to send chat messages to n8n webhook
  */
 
+import type {
+  Session,
+  ChatSource,
+  MessageAttachment,
+  OnboardingAnswers,
+  TechnologyGuess,
+  TechnologyConfirmation,
+} from "../types";
+import { parseSession, SessionValidationError } from "./session";
+
 /**
  * Backend API response structure
  * The backend normalizes n8n responses and returns a stable format
@@ -10,17 +20,37 @@
 export interface BackendResponse {
   ok: boolean;
   assistant_text: string;
-  assistant_json: {
-    technology_guess?: string;
-    confidence?: number;
-    why?: string;
-    confirmation_question?: string;
-    [key: string]: unknown;
-  } | null;
+  assistant_json: TechnologyGuess | null;
+  session?: Session | null; // Full session object when the pipeline returns one
+  session_id?: string | null; // Session the turn belongs to (send it back on later turns)
+  vuk_id?: string | null; // VUK derived from the session, once created
+  sources?: ChatSource[]; // Chunks retrieved from the attached documents
   n8n_raw?: unknown;
   error?: string;
 }
 
+/**
+ * Validate the session carried by a backend response
+ * A session that does not conform to session_schema_v1.json is logged and dropped, so the
+ * assistant reply is not lost; callers fall back to session_id.
+ *
+ * @param backendResponse Response whose session is replaced by the parsed one (or null)
+ */
+function parseResponseSession(backendResponse: BackendResponse): void {
+  if (backendResponse.session === undefined || backendResponse.session === null) {
+    return;
+  }
+  try {
+    backendResponse.session = parseSession(backendResponse.session);
+  } catch (error) {
+    if (!(error instanceof SessionValidationError)) {
+      throw error;
+    }
+    console.error("[n8n] Ignoring invalid session in backend response:", error.message);
+    backendResponse.session = null;
+  }
+}
+
 /**
  * Call backend API endpoint for chat
  * 
@@ -30,13 +60,17 @@ export interface BackendResponse {
  * @param userText The user's message text
  * @param sessionId Optional session ID if available in state
  * @param vukId Optional VUK ID if available in state
+ * @param confirmation Optional structured decision on a previous technology guess
+ * @param attachments Optional uploaded documents; the backend retrieves their relevant chunks
  * @returns Promise resolving to the normalized backend response
  * @throws Error if the API URL is not configured or request fails
  */
 export async function callN8nWebhook(
   userText: string,
   sessionId?: string | null,
-  vukId?: string | null
+  vukId?: string | null,
+  confirmation?: TechnologyConfirmation,
+  attachments?: MessageAttachment[]
 ): Promise<BackendResponse> {
   // Read API URL from environment variable (required, no default)
   const API_URL = import.meta.env.VITE_API_URL;
@@ -60,7 +94,13 @@ export async function callN8nWebhook(
   }
 
   // Prepare the payload for backend
-  const payload: { message: string; session_id?: string; vuk_id?: string } = {
+  const payload: {
+    message: string;
+    session_id?: string;
+    vuk_id?: string;
+    confirmation?: TechnologyConfirmation;
+    attachments?: MessageAttachment[];
+  } = {
     message: userText,
   };
   
@@ -71,6 +111,12 @@ export async function callN8nWebhook(
   if (vukId) {
     payload.vuk_id = vukId;
   }
+  if (confirmation) {
+    payload.confirmation = confirmation;
+  }
+  if (attachments && attachments.length > 0) {
+    payload.attachments = attachments;
+  }
 
   // Make POST request to backend
   let response: Response;
@@ -111,6 +157,7 @@ export async function callN8nWebhook(
     if (backendResponse.ok) {
       console.log("[DEV] Has assistant_text:", !!backendResponse.assistant_text);
       console.log("[DEV] Has assistant_json:", !!backendResponse.assistant_json);
+      console.log("[DEV] Sources:", backendResponse.sources?.length ?? 0);
     }
   }
 
@@ -123,6 +170,67 @@ export async function callN8nWebhook(
     throw new Error(errorMessage);
   }
 
+  parseResponseSession(backendResponse);
+
   return backendResponse;
 }
 
+
+/**
+ * Submit structured onboarding answers to the backend
+ *
+ * The backend forwards the answers to n8n together with the session_id so the
+ * pipeline can write them into session.onboarding_answers.
+ *
+ * @param answers Onboarding answers collected by the wizard
+ * @param sessionId Optional session ID if available in state
+ * @returns Promise resolving to the normalized backend response
+ * @throws Error if the API URL is not configured or request fails
+ */
+export async function submitOnboardingAnswers(
+  answers: OnboardingAnswers,
+  sessionId?: string | null
+): Promise<BackendResponse> {
+  const API_URL = import.meta.env.VITE_API_URL;
+
+  if (!API_URL) {
+    throw new Error("Missing VITE_API_URL environment variable");
+  }
+
+  const backendUrl = `${API_URL}/api/onboarding`;
+
+  const payload: { onboarding_answers: OnboardingAnswers; session_id?: string } = {
+    onboarding_answers: answers,
+  };
+  if (sessionId) {
+    payload.session_id = sessionId;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(backendUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+  } catch (fetchError) {
+    throw new Error(`Failed to connect to backend: ${fetchError instanceof Error ? fetchError.message : "Unknown error"}`);
+  }
+
+  let backendResponse: BackendResponse;
+  try {
+    backendResponse = await response.json();
+  } catch (parseError) {
+    throw new Error(`Invalid JSON response from backend: ${parseError instanceof Error ? parseError.message : "Unknown parse error"}`);
+  }
+
+  if (!response.ok || !backendResponse.ok) {
+    throw new Error(backendResponse.error || `Backend request failed: ${response.status} ${response.statusText}`);
+  }
+
+  parseResponseSession(backendResponse);
+
+  return backendResponse;
+}
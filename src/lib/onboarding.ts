@@ -0,0 +1,114 @@
+/**
+ * Onboarding field definitions
+ * Describes the onboarding_answers fields of the session schema in wizard order
+ */
+
+import type { OnboardingAnswers } from "../types";
+
+// Keys of the onboarding answers object
+export type OnboardingField = keyof OnboardingAnswers;
+
+// Wizard step definition for a single onboarding field
+export interface OnboardingStep {
+  field: OnboardingField;
+  label: string; // Short label for the step list
+  question: string; // Question shown to the analyst
+  kind: "text" | "list"; // "list" fields are string arrays in the schema
+  placeholder?: string;
+}
+
+// Steps in the order the wizard asks them
+export const ONBOARDING_STEPS: OnboardingStep[] = [
+  {
+    field: "scientific_basis",
+    label: "Scientific basis",
+    question: "What is the scientific basis of the technology?",
+    kind: "text",
+  },
+  {
+    field: "primary_applications",
+    label: "Primary applications",
+    question: "What are the primary applications of the technology?",
+    kind: "text",
+  },
+  {
+    field: "secondary_applications",
+    label: "Secondary applications",
+    question: "What are the secondary applications of the technology?",
+    kind: "text",
+  },
+  {
+    field: "exclusions",
+    label: "Exclusions",
+    question: "What should be excluded from the evaluation?",
+    kind: "text",
+  },
+  {
+    field: "example_entities",
+    label: "Example entities",
+    question: "Which entities or organizations are examples of this technology?",
+    kind: "list",
+    placeholder: "One entity per line",
+  },
+  {
+    field: "deployment_layer",
+    label: "Deployment layer",
+    question: "At which deployment layer does the technology operate?",
+    kind: "text",
+  },
+  {
+    field: "strategic_focus",
+    label: "Strategic focus",
+    question: "What are the strategic focus areas?",
+    kind: "list",
+    placeholder: "One focus area per line",
+  },
+];
+
+/**
+ * Create an empty onboarding answers object
+ */
+export function createEmptyOnboardingAnswers(): OnboardingAnswers {
+  return {
+    scientific_basis: "",
+    primary_applications: "",
+    secondary_applications: "",
+    exclusions: "",
+    example_entities: [],
+    deployment_layer: "",
+    strategic_focus: [],
+  };
+}
+
+/**
+ * Check whether a single onboarding field has been answered
+ */
+export function isFieldAnswered(answers: OnboardingAnswers, field: OnboardingField): boolean {
+  const value = answers[field];
+  if (Array.isArray(value)) {
+    return value.some((item) => item.trim() !== "");
+  }
+  return value.trim() !== "";
+}
+
+/**
+ * Get the fields that still have no answer
+ *
+ * @param answers Current onboarding answers
+ * @returns Missing fields in wizard order
+ */
+export function getMissingFields(answers: OnboardingAnswers): OnboardingField[] {
+  return ONBOARDING_STEPS.map((step) => step.field).filter(
+    (field) => !isFieldAnswered(answers, field)
+  );
+}
+
+/**
+ * Split multi-line input into a trimmed list of non-empty entries
+ */
+export function parseListInput(text: string): string[] {
+  return text
+    .split("\n")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
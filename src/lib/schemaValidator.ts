@@ -0,0 +1,138 @@
+/**
+ * Minimal JSON Schema validator
+ * Supports the draft-07 subset used by the files in schemas/ (type, const, enum,
+ * required, properties, additionalProperties, items, minLength, minimum, maximum)
+ */
+
+// JSON Schema node (only the keywords we actually use)
+export interface JsonSchema {
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  [key: string]: unknown; // Ignore annotations (description, default, format, ...)
+}
+
+// A single validation failure
+export interface SchemaViolation {
+  path: string; // Dot-notation path to the offending value ("" for the root)
+  message: string; // Human-readable reason
+}
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+/**
+ * Check whether a value matches one of the allowed schema types
+ */
+function matchesType(value: unknown, allowed: string | string[]): boolean {
+  const types = Array.isArray(allowed) ? allowed : [allowed];
+  const actual = jsonTypeOf(value);
+  return types.some((t) => t === actual || (t === "number" && actual === "integer"));
+}
+
+/**
+ * Join a parent path and a child key using dot notation
+ */
+function joinPath(parent: string, key: string | number): string {
+  return parent ? `${parent}.${key}` : String(key);
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @param value Value to validate
+ * @param schema Schema to validate against
+ * @param path Path of the value (used for nested error messages)
+ * @returns List of violations (empty when the value is valid)
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = ""
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  if (schema.type !== undefined && !matchesType(value, schema.type)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(" | ") : schema.type;
+    violations.push({ path, message: `expected ${expected}, got ${jsonTypeOf(value)}` });
+    // Further checks make no sense on a value of the wrong type
+    return violations;
+  }
+
+  if ("const" in schema && value !== schema.const) {
+    violations.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    violations.push({
+      path,
+      message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    });
+  }
+
+  if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+    violations.push({ path, message: `must be at least ${schema.minLength} characters` });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      violations.push(...validateAgainstSchema(item, schema.items as JsonSchema, joinPath(path, index)));
+    });
+  }
+
+  if (jsonTypeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in obj)) {
+        violations.push({ path: joinPath(path, key), message: "is required" });
+      }
+    }
+
+    for (const [key, child] of Object.entries(obj)) {
+      const childPath = joinPath(path, key);
+      if (properties[key]) {
+        violations.push(...validateAgainstSchema(child, properties[key], childPath));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: childPath, message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        violations.push(...validateAgainstSchema(child, schema.additionalProperties, childPath));
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Format violations into a single readable message
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations.map((v) => `${v.path || "(root)"} ${v.message}`).join("; ");
+}
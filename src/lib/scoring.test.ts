@@ -0,0 +1,37 @@
+/**
+ * Scoring helpers tests
+ * Runs the cases shared with the backend engine (backend/test/fixtures/scoring.json) so the
+ * client-side preview stays in step with backend/lib/scoring.js.
+ */
+
+import { describe, expect, test } from "vitest";
+import fixture from "../../backend/test/fixtures/scoring.json";
+import type { ScoringMetrics, ScoringWeights } from "../types";
+import { computeScorePreview, dimensionContribution, normalizeMetric } from "./scoring";
+
+describe("computeScorePreview", () => {
+  for (const { name, weights, metrics, expected } of fixture.cases) {
+    test(name, () => {
+      const preview = computeScorePreview(weights as ScoringWeights, metrics as ScoringMetrics);
+      expect(preview.overall).toBe(expected.overall);
+      expect(preview.dimensions).toEqual(expected.dimensions);
+    });
+  }
+});
+
+describe("normalizeMetric", () => {
+  test("clamps to the range and inverts lower_is_better", () => {
+    expect(normalizeMetric({ value: 5, min: 0, max: 10 })).toBe(50);
+    expect(normalizeMetric({ value: 15, min: 0, max: 10 })).toBe(100);
+    expect(normalizeMetric({ value: 2, min: 0, max: 10, direction: "lower_is_better" })).toBe(80);
+  });
+});
+
+describe("dimensionContribution", () => {
+  test("is the score times the effective weight, or null without a score", () => {
+    const [weighted] = fixture.cases;
+    const preview = computeScorePreview(weighted.weights as ScoringWeights, weighted.metrics as ScoringMetrics);
+    expect(dimensionContribution(preview.dimensions.technology)).toBe(47.9191);
+    expect(dimensionContribution({ ...preview.dimensions.technology, score: null })).toBeNull();
+  });
+});
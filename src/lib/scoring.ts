@@ -0,0 +1,112 @@
+/**
+ * Scoring helpers
+ * Client-side mirror of backend/lib/scoring.js, used for what-if previews.
+ * Stored scores always come from the backend (POST /api/sessions/:id/scores).
+ */
+
+import type { DimensionScore, MetricScore, ScoreResult, ScoringMetric, ScoringMetrics, ScoringWeights } from "../types";
+
+// Scores computed in the browser (no recorded inputs or hash)
+export interface ScorePreview {
+  overall: number | null;
+  dimensions: Record<string, DimensionScore>;
+}
+
+// Round to 4 decimals, like the backend
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Check whether artifacts.scores holds a scoring engine result
+ */
+export function isScoreResult(value: unknown): value is ScoreResult {
+  const candidate = value as Partial<ScoreResult> | null;
+  return (
+    !!candidate &&
+    typeof candidate.engine_version === "string" &&
+    !!candidate.dimensions &&
+    typeof candidate.dimensions === "object"
+  );
+}
+
+/**
+ * Normalize a metric value to 0-100 within its range
+ */
+export function normalizeMetric({ value, min, max, direction }: ScoringMetric): number {
+  const clamped = Math.min(Math.max(value, min), max);
+  const ratio = (clamped - min) / (max - min);
+  return (direction === "lower_is_better" ? 1 - ratio : ratio) * 100;
+}
+
+/**
+ * Compute per-dimension and overall scores (same rules as the backend engine)
+ *
+ * @param weights Weights configuration
+ * @param metrics Metrics set
+ * @returns Overall score and per-dimension breakdown
+ */
+export function computeScorePreview(weights: ScoringWeights, metrics: ScoringMetrics): ScorePreview {
+  const dimensions: Record<string, DimensionScore> = {};
+  let overallSum = 0;
+  let overallWeight = 0;
+
+  for (const name of Object.keys(weights.dimensions).sort()) {
+    const dimension = weights.dimensions[name];
+    const metricNames = Object.keys(dimension.metrics).sort();
+    const available = metricNames.filter((metric) => metrics[metric] !== undefined);
+    const availableWeight = available.reduce((sum, metric) => sum + dimension.metrics[metric], 0);
+
+    const breakdown: Record<string, MetricScore> = {};
+    let score: number | null = null;
+    if (available.length > 0) {
+      score = 0;
+      for (const metric of available) {
+        const normalized = normalizeMetric(metrics[metric]);
+        const effectiveWeight =
+          availableWeight > 0 ? dimension.metrics[metric] / availableWeight : 1 / available.length;
+        const contribution = normalized * effectiveWeight;
+        score += contribution;
+        breakdown[metric] = {
+          value: metrics[metric].value,
+          min: metrics[metric].min,
+          max: metrics[metric].max,
+          direction: metrics[metric].direction || "higher_is_better",
+          normalized: round(normalized),
+          weight: dimension.metrics[metric],
+          effective_weight: round(effectiveWeight),
+          contribution: round(contribution),
+        };
+      }
+      overallSum += score * dimension.weight;
+      overallWeight += dimension.weight;
+    }
+
+    dimensions[name] = {
+      score: score === null ? null : round(score),
+      weight: dimension.weight,
+      effective_weight: null,
+      metrics: breakdown,
+      missing_metrics: metricNames.filter((metric) => metrics[metric] === undefined),
+    };
+  }
+
+  for (const dimension of Object.values(dimensions)) {
+    if (dimension.score !== null) {
+      dimension.effective_weight = overallWeight > 0 ? round(dimension.weight / overallWeight) : null;
+    }
+  }
+
+  return {
+    overall: overallWeight > 0 ? round(overallSum / overallWeight) : null,
+    dimensions,
+  };
+}
+
+/**
+ * Contribution of a dimension to the overall score
+ */
+export function dimensionContribution(dimension: DimensionScore): number | null {
+  if (dimension.score === null || dimension.effective_weight === null) return null;
+  return round(dimension.score * dimension.effective_weight);
+}
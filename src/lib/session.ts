@@ -0,0 +1,131 @@
+/**
+ * Session model helpers
+ * Runtime validation of session payloads against schemas/session_schema_v1.json
+ */
+
+import type { Session, SessionLogEntry, SessionPatch } from "../types";
+import sessionSchema from "../../schemas/session_schema_v1.json";
+import {
+  validateAgainstSchema,
+  formatViolations,
+  type JsonSchema,
+  type SchemaViolation,
+} from "./schemaValidator";
+import { createEmptyOnboardingAnswers } from "./onboarding";
+
+/**
+ * Error thrown when a payload does not conform to the session schema
+ */
+export class SessionValidationError extends Error {
+  violations: SchemaViolation[];
+
+  constructor(violations: SchemaViolation[]) {
+    super(`Invalid session payload: ${formatViolations(violations)}`);
+    this.name = "SessionValidationError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * Validate an unknown payload against the session schema
+ *
+ * @param payload Value to check (e.g., session returned by /api/chat)
+ * @returns List of violations (empty when the payload is a valid session)
+ */
+export function validateSession(payload: unknown): SchemaViolation[] {
+  return validateAgainstSchema(payload, sessionSchema as JsonSchema);
+}
+
+/**
+ * Type guard for session payloads
+ */
+export function isSession(payload: unknown): payload is Session {
+  return validateSession(payload).length === 0;
+}
+
+/**
+ * Parse an unknown payload into a Session
+ *
+ * @param payload Value to parse
+ * @returns The payload typed as a Session
+ * @throws SessionValidationError if the payload does not conform to the schema
+ */
+export function parseSession(payload: unknown): Session {
+  const violations = validateSession(payload);
+  if (violations.length > 0) {
+    throw new SessionValidationError(violations);
+  }
+  return payload as Session;
+}
+
+/**
+ * Create an empty session conforming to the schema
+ *
+ * @param sessionId Session identifier
+ * @param initialDescription Free-text description of the technology
+ * @returns A new session in the "initialized" status
+ */
+export function createEmptySession(sessionId: string, initialDescription = ""): Session {
+  const now = new Date().toISOString();
+  return {
+    version: "v1",
+    session_id: sessionId,
+    created_at: now,
+    updated_at: now,
+    status: "initialized",
+    raw_input: {
+      initial_description: initialDescription,
+      source: "web",
+    },
+    onboarding_answers: createEmptyOnboardingAnswers(),
+    classification: {
+      taxonomy_candidates: [],
+      selected: { l1: null, l2: null, l3: null, node_id: null },
+    },
+    artifacts: {
+      mapping_profile: null,
+      weights: null,
+      datasets: {},
+      metrics: {},
+      scores: {},
+    },
+    logs: [],
+  };
+}
+
+/**
+ * Append a log entry to a session
+ *
+ * @param session Session to update (not mutated)
+ * @param entry Log entry to append
+ * @returns New session with the entry appended and updated_at refreshed
+ */
+export function appendSessionLog(session: Session, entry: SessionLogEntry): Session {
+  return {
+    ...session,
+    updated_at: new Date().toISOString(),
+    logs: [...session.logs, entry],
+  };
+}
+
+/**
+ * Apply a partial update to a session the same way the backend does:
+ * raw_input, onboarding_answers, classification and artifacts are merged
+ * one level deep, other fields are replaced
+ *
+ * @param session Session to update (not mutated)
+ * @param patch Partial session
+ * @returns New session with updated_at refreshed
+ */
+export function mergeSessionPatch(session: Session, patch: SessionPatch): Session {
+  return {
+    ...session,
+    status: patch.status ?? session.status,
+    raw_input: { ...session.raw_input, ...patch.raw_input },
+    onboarding_answers: { ...session.onboarding_answers, ...patch.onboarding_answers },
+    classification: { ...session.classification, ...patch.classification },
+    artifacts: { ...session.artifacts, ...patch.artifacts },
+    logs: patch.logs ?? session.logs,
+    updated_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Session URL helpers
+ * Keeps session_id and vuk_id in the query string (?session=...&vuk=...)
+ * so a reload or a shared link resumes the same evaluation
+ */
+
+// Query string parameter names
+const SESSION_PARAM = "session";
+const VUK_PARAM = "vuk";
+
+/**
+ * Read a query string parameter from the current URL
+ */
+function readParam(name: string): string | null {
+  try {
+    const value = new URLSearchParams(window.location.search).get(name);
+    return value && value.trim() !== "" ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the session_id from the current URL
+ * @returns Session ID or null if not present
+ */
+export function getSessionIdFromUrl(): string | null {
+  return readParam(SESSION_PARAM);
+}
+
+/**
+ * Get the vuk_id from the current URL
+ * @returns VUK ID or null if not present
+ */
+export function getVukIdFromUrl(): string | null {
+  return readParam(VUK_PARAM);
+}
+
+/**
+ * Write session_id and vuk_id to the URL without reloading the page
+ * Null values remove the parameter
+ *
+ * @param sessionId Session ID to store
+ * @param vukId VUK ID to store
+ */
+export function setSessionInUrl(sessionId: string | null, vukId: string | null): void {
+  try {
+    const url = new URL(window.location.href);
+    const entries: [string, string | null][] = [
+      [SESSION_PARAM, sessionId],
+      [VUK_PARAM, vukId],
+    ];
+    for (const [name, value] of entries) {
+      if (value) {
+        url.searchParams.set(name, value);
+      } else {
+        url.searchParams.delete(name);
+      }
+    }
+    if (url.href !== window.location.href) {
+      window.history.replaceState(null, "", url);
+    }
+  } catch (error) {
+    console.error("Failed to update session URL:", error);
+  }
+}
@@ -1,53 +1,224 @@
 /**
- * localStorage utilities for persisting chat history
+ * localStorage utilities for persisting chat sessions and their history
+ *
+ * Storage format (version 1):
+ * - "xrl_sessions" holds the session index: { version, activeSessionId, sessions: ChatSessionMeta[] }
+ * - "xrl_chat_history:<session_id>" holds one session's chat: { version, messages, session }
  */
 
-import type { Message } from "../types";
+import type { Message, Session } from "../types";
 
-// Key used in localStorage for chat messages
-const STORAGE_KEY = "xrl_chat_history";
+// Current storage format version (bump and migrate when the format changes)
+export const STORAGE_VERSION = 1;
+
+// Key used in localStorage for the session index
+const INDEX_KEY = "xrl_sessions";
+
+// Prefix of the per-session history keys
+const HISTORY_KEY_PREFIX = "xrl_chat_history:";
+
+// Pre-versioning single global history key (migrated on first load)
+const LEGACY_HISTORY_KEY = "xrl_chat_history";
+
+// Default title for sessions that have no messages yet
+export const DEFAULT_SESSION_TITLE = "New evaluation";
+
+// Session entry shown in the sidebar
+export interface ChatSessionMeta {
+  id: string; // session_id
+  title: string;
+  vukId: string | null;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// Index of all stored sessions
+export interface SessionIndex {
+  version: number;
+  activeSessionId: string | null;
+  sessions: ChatSessionMeta[];
+}
+
+// Stored chat of a single session
+interface StoredChat {
+  version: number;
+  messages: Message[];
+  session: Session | null;
+}
 
 /**
- * Load chat history from localStorage
- * @returns Array of messages or empty array if none exist
+ * Get the localStorage key holding a session's history
+ */
+function historyKey(sessionId: string): string {
+  return `${HISTORY_KEY_PREFIX}${sessionId}`;
+}
+
+/**
+ * Generate a new session ID
+ */
+export function generateSessionId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `session_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Create a session index entry
+ */
+export function createSessionMeta(id: string, title = DEFAULT_SESSION_TITLE): ChatSessionMeta {
+  const now = new Date().toISOString();
+  return { id, title, vukId: null, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Read and parse a stored chat record
  */
-export function loadChatHistory(): Message[] {
+function readStoredChat(sessionId: string): StoredChat | null {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
-    
+    const stored = localStorage.getItem(historyKey(sessionId));
+    if (!stored) return null;
+
     const parsed = JSON.parse(stored);
-    // Validate that it's an array
-    if (Array.isArray(parsed)) {
+    // Validate format version and shape
+    if (parsed && parsed.version === STORAGE_VERSION && Array.isArray(parsed.messages)) {
       return parsed;
     }
-    return [];
+    return null;
   } catch (error) {
     console.error("Failed to load chat history:", error);
-    return [];
+    return null;
   }
 }
 
 /**
- * Save chat history to localStorage
- * @param messages Array of messages to save
+ * Write a stored chat record
  */
-export function saveChatHistory(messages: Message[]): void {
+function writeStoredChat(sessionId: string, chat: StoredChat): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+    localStorage.setItem(historyKey(sessionId), JSON.stringify(chat));
   } catch (error) {
     console.error("Failed to save chat history:", error);
   }
 }
 
 /**
- * Clear chat history from localStorage
+ * Move the pre-versioning global history into its own session and make it active
+ * Writes to localStorage, so it runs once at startup (src/main.tsx), never during render
  */
-export function clearChatHistory(): void {
+export function migrateLegacyHistory(): void {
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (!stored) return;
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed) || parsed.length === 0) return;
+
+    const meta = createSessionMeta(generateSessionId(), "Imported chat");
+    writeStoredChat(meta.id, { version: STORAGE_VERSION, messages: parsed, session: null });
+    const index = loadSessionIndex();
+    saveSessionIndex({ ...index, activeSessionId: meta.id, sessions: [meta, ...index.sessions] });
   } catch (error) {
-    console.error("Failed to clear chat history:", error);
+    console.error("Failed to migrate legacy chat history:", error);
+  }
+}
+
+/**
+ * Load the session index from localStorage
+ * @returns Stored index, or an empty index if none exists
+ */
+export function loadSessionIndex(): SessionIndex {
+  const empty: SessionIndex = { version: STORAGE_VERSION, activeSessionId: null, sessions: [] };
+
+  try {
+    const stored = localStorage.getItem(INDEX_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && parsed.version === STORAGE_VERSION && Array.isArray(parsed.sessions) ? parsed : empty;
+  } catch (error) {
+    console.error("Failed to load session index:", error);
+    return empty;
   }
 }
 
+/**
+ * Save the session index to localStorage
+ * @param index Session index to save
+ */
+export function saveSessionIndex(index: SessionIndex): void {
+  try {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+  } catch (error) {
+    console.error("Failed to save session index:", error);
+  }
+}
+
+/**
+ * Load chat history of a session from localStorage
+ * @param sessionId Session whose history to load
+ * @returns Array of messages or empty array if none exist
+ */
+export function loadChatHistory(sessionId: string): Message[] {
+  return readStoredChat(sessionId)?.messages ?? [];
+}
+
+/**
+ * Save chat history of a session to localStorage
+ * @param sessionId Session the messages belong to
+ * @param messages Array of messages to save
+ */
+export function saveChatHistory(sessionId: string, messages: Message[]): void {
+  const existing = readStoredChat(sessionId);
+  writeStoredChat(sessionId, {
+    version: STORAGE_VERSION,
+    messages,
+    session: existing?.session ?? null,
+  });
+}
+
+/**
+ * Load the last known session object of a session
+ * @param sessionId Session to load
+ * @returns Session object or null if none was stored
+ */
+export function loadSessionSnapshot(sessionId: string): Session | null {
+  return readStoredChat(sessionId)?.session ?? null;
+}
+
+/**
+ * Save the session object alongside a session's history
+ * @param sessionId Session the object belongs to
+ * @param session Session object to save
+ */
+export function saveSessionSnapshot(sessionId: string, session: Session | null): void {
+  const existing = readStoredChat(sessionId);
+  writeStoredChat(sessionId, {
+    version: STORAGE_VERSION,
+    messages: existing?.messages ?? [],
+    session,
+  });
+}
+
+/**
+ * Move a session's stored history to a new session ID
+ * Used when the backend assigns a different session_id than the local one
+ */
+export function moveChatHistory(fromSessionId: string, toSessionId: string): void {
+  const existing = readStoredChat(fromSessionId);
+  if (existing) {
+    writeStoredChat(toSessionId, existing);
+  }
+  clearChatHistory(fromSessionId);
+}
+
+/**
+ * Clear chat history of a session from localStorage
+ * @param sessionId Session whose history to remove
+ */
+export function clearChatHistory(sessionId: string): void {
+  try {
+    localStorage.removeItem(historyKey(sessionId));
+  } catch (error) {
+    console.error("Failed to clear chat history:", error);
+  }
+}
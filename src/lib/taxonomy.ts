@@ -0,0 +1,114 @@
+/**
+ * Taxonomy helpers
+ * Builds the L1 → L2 → L3 browse tree and formats taxonomy paths
+ */
+
+import type { TaxonomyCandidate, TaxonomyNode, TaxonomySelection } from "../types";
+
+// Node of the L1 → L2 → L3 browse tree
+export interface TaxonomyTreeNode {
+  key: string; // Unique key (the path joined with "/")
+  level: 1 | 2 | 3;
+  label: string;
+  node_id: string | null; // Taxonomy node ID, if known for this exact path
+  selection: TaxonomySelection; // Selection that picking this node produces
+  children: TaxonomyTreeNode[];
+}
+
+/**
+ * Empty selection (nothing chosen yet)
+ */
+export function createEmptySelection(): TaxonomySelection {
+  return { l1: null, l2: null, l3: null, node_id: null };
+}
+
+/**
+ * Format a selection as "L1 › L2 › L3"
+ */
+export function formatTaxonomyPath(selection: TaxonomySelection): string {
+  return [selection.l1, selection.l2, selection.l3].filter(Boolean).join(" › ");
+}
+
+/**
+ * Check whether two selections point at the same node
+ */
+export function isSameSelection(a: TaxonomySelection, b: TaxonomySelection): boolean {
+  return a.l1 === b.l1 && a.l2 === b.l2 && a.l3 === b.l3 && a.node_id === b.node_id;
+}
+
+/**
+ * Convert a candidate into the selection it represents
+ */
+export function candidateToSelection(candidate: TaxonomyCandidate): TaxonomySelection {
+  return {
+    l1: candidate.l1,
+    l2: candidate.l2,
+    l3: candidate.l3,
+    node_id: candidate.node_id,
+  };
+}
+
+/**
+ * Convert a registry node into the selection it represents
+ */
+export function nodeToSelection(node: TaxonomyNode): TaxonomySelection {
+  return { l1: node.l1, l2: node.l2, l3: node.l3, node_id: node.node_id };
+}
+
+/**
+ * Sort candidates by score, best first (input is not mutated)
+ */
+export function sortCandidates(candidates: TaxonomyCandidate[]): TaxonomyCandidate[] {
+  return [...candidates].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Build the browse tree from a list of taxonomy paths
+ * Intermediate levels are created as needed; a node gets a node_id when
+ * a path ends exactly at it.
+ *
+ * @param paths Selections to place in the tree (registry nodes or the pipeline's candidates)
+ * @returns L1 nodes, sorted by label
+ */
+export function buildTaxonomyTree(paths: TaxonomySelection[]): TaxonomyTreeNode[] {
+  const roots: TaxonomyTreeNode[] = [];
+
+  for (const path of paths) {
+    const labels = [path.l1, path.l2, path.l3];
+    let siblings = roots;
+    let node: TaxonomyTreeNode | undefined;
+
+    for (let depth = 0; depth < labels.length; depth++) {
+      const label = labels[depth];
+      if (!label) break;
+
+      const selection: TaxonomySelection = {
+        l1: labels[0],
+        l2: depth >= 1 ? labels[1] : null,
+        l3: depth >= 2 ? labels[2] : null,
+        node_id: null,
+      };
+      const key = labels.slice(0, depth + 1).join("/");
+
+      node = siblings.find((n) => n.key === key);
+      if (!node) {
+        node = { key, level: (depth + 1) as 1 | 2 | 3, label, node_id: null, selection, children: [] };
+        siblings.push(node);
+      }
+      siblings = node.children;
+    }
+
+    // The path's node_id belongs to its deepest level
+    if (node && path.node_id) {
+      node.node_id = path.node_id;
+      node.selection = { ...node.selection, node_id: path.node_id };
+    }
+  }
+
+  const sortTree = (nodes: TaxonomyTreeNode[]) => {
+    nodes.sort((a, b) => a.label.localeCompare(b.label));
+    nodes.forEach((n) => sortTree(n.children));
+  };
+  sortTree(roots);
+  return roots;
+}
@@ -0,0 +1,32 @@
+/**
+ * TRL evidence helpers
+ * Evidence refs link a TRL to a passage of a document chunk:
+ * "<doc_id>#<chunk_index>:<char_start>-<char_end>" (char range relative to the chunk content)
+ */
+
+// Parsed evidence ref
+export interface EvidenceRef {
+  doc_id: string;
+  chunk_index: number;
+  char_start: number;
+  char_end: number;
+}
+
+const EVIDENCE_REF_PATTERN = /^(.+)#(\d+):(\d+)-(\d+)$/;
+
+/**
+ * Parse an evidence ref string
+ * @returns The parsed ref, or null if the string is not in the evidence ref format
+ */
+export function parseEvidenceRef(ref: string): EvidenceRef | null {
+  const match = ref.match(EVIDENCE_REF_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    doc_id: match[1],
+    chunk_index: Number(match[2]),
+    char_start: Number(match[3]),
+    char_end: Number(match[4]),
+  };
+}
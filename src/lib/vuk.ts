@@ -0,0 +1,107 @@
+/**
+ * VUK model helpers
+ * Runtime validation of VUK payloads against schemas/vuk_schema_v1.json
+ */
+
+import type { Vuk, VukAction, VukPatch, VukStatus } from "../types";
+import vukSchema from "../../schemas/vuk_schema_v1.json";
+import {
+  validateAgainstSchema,
+  formatViolations,
+  type JsonSchema,
+  type SchemaViolation,
+} from "./schemaValidator";
+
+/**
+ * Error thrown when a payload does not conform to the VUK schema
+ */
+export class VukValidationError extends Error {
+  violations: SchemaViolation[];
+
+  constructor(violations: SchemaViolation[]) {
+    super(`Invalid VUK payload: ${formatViolations(violations)}`);
+    this.name = "VukValidationError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * Validate an unknown payload against the VUK schema
+ *
+ * @param payload Value to check
+ * @returns List of violations (empty when the payload is a valid VUK)
+ */
+export function validateVuk(payload: unknown): SchemaViolation[] {
+  return validateAgainstSchema(payload, vukSchema as JsonSchema);
+}
+
+/**
+ * Parse an unknown payload into a Vuk
+ *
+ * @param payload Value to parse
+ * @returns The payload typed as a Vuk
+ * @throws VukValidationError if the payload does not conform to the schema
+ */
+export function parseVuk(payload: unknown): Vuk {
+  const violations = validateVuk(payload);
+  if (violations.length > 0) {
+    throw new VukValidationError(violations);
+  }
+  return payload as Vuk;
+}
+
+// Review workflow, mirroring VUK_TRANSITIONS in backend/lib/vukStore.js
+export const VUK_TRANSITIONS: Record<VukAction, { from: VukStatus[]; to: VukStatus; label: string }> = {
+  submit: { from: ["draft"], to: "in_review", label: "Submit for review" },
+  withdraw: { from: ["in_review"], to: "draft", label: "Withdraw" },
+  approve: { from: ["in_review"], to: "approved", label: "Approve" },
+  reject: { from: ["in_review"], to: "rejected", label: "Reject" },
+  reopen: { from: ["rejected"], to: "draft", label: "Reopen as draft" },
+};
+
+/**
+ * Check whether a review action requires the reviewer's name
+ */
+export function requiresActor(action: VukAction): boolean {
+  return action === "approve" || action === "reject";
+}
+
+/**
+ * List the review actions allowed from the VUK's current status
+ */
+export function getAvailableActions(vuk: Vuk): VukAction[] {
+  return (Object.keys(VUK_TRANSITIONS) as VukAction[]).filter((action) =>
+    VUK_TRANSITIONS[action].from.includes(vuk.status)
+  );
+}
+
+/**
+ * Check whether a VUK can still be edited
+ */
+export function isVukEditable(vuk: Vuk): boolean {
+  return vuk.status === "draft";
+}
+
+/**
+ * Apply a partial update to a VUK the same way the backend does:
+ * technology, taxonomy, trl and confidence are merged one level deep,
+ * other fields are replaced
+ *
+ * @param vuk VUK to update (not mutated)
+ * @param patch Partial VUK
+ * @returns New VUK with updated_at refreshed
+ */
+export function mergeVukPatch(vuk: Vuk, patch: VukPatch): Vuk {
+  return {
+    ...vuk,
+    technology: { ...vuk.technology, ...patch.technology },
+    taxonomy: { ...vuk.taxonomy, ...patch.taxonomy },
+    trl: { ...vuk.trl, ...patch.trl },
+    confidence: { ...vuk.confidence, ...patch.confidence },
+    mapping_profile_ref:
+      patch.mapping_profile_ref !== undefined ? patch.mapping_profile_ref : vuk.mapping_profile_ref,
+    scores: patch.scores ?? vuk.scores,
+    logs: patch.logs ?? vuk.logs,
+    updated_at: new Date().toISOString(),
+  };
+}
@@ -6,8 +6,12 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { migrateLegacyHistory } from "./lib/storage";
 import "./index.css";
 
+// Storage migrations write to localStorage, so they run once here rather than during render
+migrateLegacyHistory();
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <App />
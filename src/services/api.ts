@@ -2,8 +2,26 @@
  * Webhook API integration for n8n
  */
 
-import type { WebhookPayload, WebhookResponse, DebugInfo } from "../types";
+import type {
+  WebhookPayload,
+  WebhookResponse,
+  DebugInfo,
+  DocumentChunk,
+  SessionDocument,
+  ScoringMetrics,
+  ScoringWeights,
+  Session,
+  SessionPatch,
+  TaxonomyNode,
+  TrlAssessment,
+  Vuk,
+  VukAction,
+  VukPatch,
+} from "../types";
 import { getWebhookUrl, getStatusPollUrl } from "../config/env";
+import { parseSession, mergeSessionPatch } from "../lib/session";
+import { createLogEntry } from "../lib/auditLog";
+import { parseVuk, mergeVukPatch } from "../lib/vuk";
 
 // Request timeout in milliseconds (20 seconds as specified)
 const REQUEST_TIMEOUT = 20000;
@@ -189,3 +207,444 @@ export async function checkWebhookStatus(
   }
 }
 
+
+/**
+ * Sessions REST API client
+ * Typed wrappers around the backend /api/sessions endpoints
+ */
+
+// Page of sessions returned by listSessions
+export interface SessionPage {
+  sessions: Session[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Error response from the backend (validation details when the schema check fails)
+interface ApiErrorBody {
+  ok: false;
+  error?: string;
+  message?: string;
+  details?: { path: string; message: string }[];
+}
+
+/**
+ * Error thrown when a backend API request fails
+ */
+export class ApiError extends Error {
+  status: number;
+  details?: { path: string; message: string }[];
+
+  constructor(status: number, body: Partial<ApiErrorBody> | null) {
+    const reason = body?.message || body?.error || "Request failed";
+    const details = body?.details?.map((d) => `${d.path || "(root)"} ${d.message}`).join("; ");
+    super(details ? `${reason}: ${details}` : `${reason} (HTTP ${status})`);
+    this.name = "ApiError";
+    this.status = status;
+    this.details = body?.details;
+  }
+}
+
+/**
+ * Get the backend base URL
+ * @throws Error if VITE_API_URL is not configured
+ */
+function getApiUrl(): string {
+  const API_URL = import.meta.env.VITE_API_URL;
+  if (!API_URL) {
+    throw new Error("Missing VITE_API_URL environment variable");
+  }
+  return API_URL;
+}
+
+/**
+ * Send a JSON request to the backend and parse the JSON response
+ * @throws ApiError if the response is not successful
+ */
+async function requestJson<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${getApiUrl()}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers || {}),
+    },
+  });
+
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON body - handled below
+  }
+
+  if (!response.ok || !body || (body as { ok?: boolean }).ok === false) {
+    throw new ApiError(response.status, body as ApiErrorBody | null);
+  }
+
+  return body as T;
+}
+
+/**
+ * Create a session on the backend
+ * @param fields Optional session_id and initial fields (defaults fill the rest)
+ * @returns The created session
+ */
+export async function createSession(
+  fields: SessionPatch & { session_id?: string } = {}
+): Promise<Session> {
+  const body = await requestJson<{ session: unknown }>("/api/sessions", {
+    method: "POST",
+    body: JSON.stringify(fields),
+  });
+  return parseSession(body.session);
+}
+
+/**
+ * Fetch a session by ID
+ * @param sessionId Session identifier
+ * @returns The session, or null if it does not exist
+ */
+export async function getSession(sessionId: string): Promise<Session | null> {
+  try {
+    const body = await requestJson<{ session: unknown }>(
+      `/api/sessions/${encodeURIComponent(sessionId)}`
+    );
+    return parseSession(body.session);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List sessions, newest first
+ * @param params Optional status filter and pagination
+ * @returns Page of sessions
+ */
+export async function listSessions(
+  params: { status?: string; limit?: number; offset?: number } = {}
+): Promise<SessionPage> {
+  const query = new URLSearchParams();
+  if (params.status) query.set("status", params.status);
+  if (params.limit !== undefined) query.set("limit", String(params.limit));
+  if (params.offset !== undefined) query.set("offset", String(params.offset));
+  const suffix = query.toString() ? `?${query.toString()}` : "";
+
+  const body = await requestJson<Omit<SessionPage, "sessions"> & { sessions: unknown[] }>(
+    `/api/sessions${suffix}`
+  );
+  return { ...body, sessions: body.sessions.map(parseSession) };
+}
+
+/**
+ * Update a session
+ * The backend rejects updates whose logs do not append exactly one matching entry;
+ * use commitSessionUpdate to build that entry automatically.
+ *
+ * @param sessionId Session identifier
+ * @param patch Partial session (nested objects are merged by the backend)
+ * @returns The updated session
+ */
+export async function updateSession(sessionId: string, patch: SessionPatch): Promise<Session> {
+  const body = await requestJson<{ session: unknown }>(
+    `/api/sessions/${encodeURIComponent(sessionId)}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    }
+  );
+  return parseSession(body.session);
+}
+
+/**
+ * Apply a change to a session and persist it with a matching audit log entry
+ * affected_fields are computed by diffing the session before and after the change
+ *
+ * @param current Session as currently stored
+ * @param patch Partial session to apply
+ * @param step Name of the pipeline step
+ * @param description Human-readable description of the change
+ * @param details Optional step-specific details stored on the log entry
+ * @returns The updated session
+ */
+export async function commitSessionUpdate(
+  current: Session,
+  patch: SessionPatch,
+  step: string,
+  description: string,
+  details: Record<string, unknown> = {}
+): Promise<Session> {
+  const next = mergeSessionPatch(current, patch);
+  const entry = createLogEntry(current, next, step, description, details);
+  return updateSession(current.session_id, { ...patch, logs: [...current.logs, entry] });
+}
+
+/**
+ * Compute a session's scores on the backend
+ * The result (artifacts.scores) records its inputs and their hash; the backend
+ * saves weights, metrics and scores with a "scoring" log entry.
+ *
+ * @param sessionId Session identifier
+ * @param inputs Optional weights / metrics replacing the stored ones
+ * @returns The updated session
+ */
+export async function scoreSession(
+  sessionId: string,
+  inputs: { weights?: ScoringWeights; metrics?: ScoringMetrics } = {}
+): Promise<Session> {
+  const body = await requestJson<{ session: unknown }>(
+    `/api/sessions/${encodeURIComponent(sessionId)}/scores`,
+    {
+      method: "POST",
+      body: JSON.stringify(inputs),
+    }
+  );
+  return parseSession(body.session);
+}
+
+// Report export formats (GET /api/sessions/:id/report)
+export type ReportFormat = "md" | "html" | "pdf";
+
+/**
+ * URL of a session's evaluation report
+ * HTML opens inline for printing; Markdown and PDF download as attachments.
+ * @param sessionId Session identifier
+ * @param format Report format
+ * @param vukId VUK to report on (defaults to the session's most recent VUK)
+ */
+export function getReportUrl(sessionId: string, format: ReportFormat, vukId?: string | null): string {
+  const query = new URLSearchParams({ format });
+  if (vukId) query.set("vuk_id", vukId);
+  return `${getApiUrl()}/api/sessions/${encodeURIComponent(sessionId)}/report?${query.toString()}`;
+}
+
+/**
+ * VUKs REST API client
+ * Typed wrappers around the backend /api/vuks endpoints
+ */
+
+// Page of VUKs returned by listVuks
+export interface VukPage {
+  vuks: Vuk[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * List VUKs, most recently updated first
+ * @param params Optional status / source session filters and pagination
+ * @returns Page of VUKs
+ */
+export async function listVuks(
+  params: { status?: string; sessionId?: string; limit?: number; offset?: number } = {}
+): Promise<VukPage> {
+  const query = new URLSearchParams();
+  if (params.status) query.set("status", params.status);
+  if (params.sessionId) query.set("session_id", params.sessionId);
+  if (params.limit !== undefined) query.set("limit", String(params.limit));
+  if (params.offset !== undefined) query.set("offset", String(params.offset));
+  const suffix = query.toString() ? `?${query.toString()}` : "";
+
+  const body = await requestJson<Omit<VukPage, "vuks"> & { vuks: unknown[] }>(`/api/vuks${suffix}`);
+  return { ...body, vuks: body.vuks.map(parseVuk) };
+}
+
+/**
+ * Fetch a VUK by ID
+ * @param vukId VUK identifier
+ * @returns The VUK, or null if it does not exist
+ */
+export async function getVuk(vukId: string): Promise<Vuk | null> {
+  try {
+    const body = await requestJson<{ vuk: unknown }>(`/api/vuks/${encodeURIComponent(vukId)}`);
+    return parseVuk(body.vuk);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update a draft VUK
+ * Like sessions, the update must append exactly one matching log entry;
+ * use commitVukUpdate to build it automatically.
+ *
+ * @param vukId VUK identifier
+ * @param patch Partial VUK (nested objects are merged by the backend)
+ * @returns The updated VUK
+ */
+export async function updateVuk(vukId: string, patch: VukPatch): Promise<Vuk> {
+  const body = await requestJson<{ vuk: unknown }>(`/api/vuks/${encodeURIComponent(vukId)}`, {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  return parseVuk(body.vuk);
+}
+
+/**
+ * Apply a change to a draft VUK and persist it with a matching audit log entry
+ *
+ * @param current VUK as currently stored
+ * @param patch Partial VUK to apply
+ * @param step Name of the pipeline step
+ * @param description Human-readable description of the change
+ * @returns The updated VUK
+ */
+export async function commitVukUpdate(
+  current: Vuk,
+  patch: VukPatch,
+  step: string,
+  description: string
+): Promise<Vuk> {
+  const next = mergeVukPatch(current, patch);
+  const entry = createLogEntry(current, next, step, description);
+  return updateVuk(current.vuk_id, { ...patch, logs: [...current.logs, entry] });
+}
+
+/**
+ * Move a VUK through the review workflow (draft -> in_review -> approved/rejected)
+ * The backend checks the transition is legal, stamps the approver on approval
+ * and appends the log entry itself.
+ *
+ * @param vukId VUK identifier
+ * @param action Workflow action
+ * @param options actor (required for approve/reject) and optional comment
+ * @returns The updated VUK
+ */
+export async function transitionVuk(
+  vukId: string,
+  action: VukAction,
+  options: { actor?: string; comment?: string } = {}
+): Promise<Vuk> {
+  const body = await requestJson<{ vuk: unknown }>(`/api/vuks/${encodeURIComponent(vukId)}/transitions`, {
+    method: "POST",
+    body: JSON.stringify({ action, ...options }),
+  });
+  return parseVuk(body.vuk);
+}
+
+/**
+ * Ask the backend to propose a TRL for a VUK from its session's documents
+ * Nothing is saved; apply the proposal with commitVukUpdate.
+ *
+ * @param vukId VUK identifier
+ * @returns Proposed TRL with evidence linked to document chunks
+ */
+export async function assessVukTrl(vukId: string): Promise<TrlAssessment> {
+  const body = await requestJson<{ assessment: TrlAssessment }>(
+    `/api/vuks/${encodeURIComponent(vukId)}/trl-assessment`,
+    { method: "POST" }
+  );
+  return body.assessment;
+}
+
+/**
+ * Fetch a chunk of an uploaded document
+ * @param docId Document identifier
+ * @param chunkIndex Chunk index within the document
+ * @returns The chunk, or null if it does not exist
+ */
+export async function getDocumentChunk(docId: string, chunkIndex: number): Promise<DocumentChunk | null> {
+  try {
+    const body = await requestJson<{ chunk: DocumentChunk }>(
+      `/api/documents/${encodeURIComponent(docId)}/chunks/${chunkIndex}`
+    );
+    return body.chunk;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the documents uploaded in a session
+ * @param sessionId Session identifier
+ * @returns Documents, oldest first
+ */
+export async function listSessionDocuments(sessionId: string): Promise<SessionDocument[]> {
+  const body = await requestJson<{ documents: SessionDocument[] }>(
+    `/api/sessions/${encodeURIComponent(sessionId)}/documents`
+  );
+  return body.documents;
+}
+
+/**
+ * Fetch a document with its storage path and metadata
+ * @param docId Document identifier
+ * @returns The document, or null if it does not exist
+ */
+export async function getDocument(docId: string): Promise<SessionDocument | null> {
+  try {
+    const body = await requestJson<{ document: SessionDocument }>(`/api/documents/${encodeURIComponent(docId)}`);
+    return body.document;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a document with its chunks and stored file
+ * @param docId Document identifier
+ * @returns Number of chunks deleted and whether the stored file was removed
+ */
+export async function deleteDocument(docId: string): Promise<{ chunks_deleted: number; storage_deleted: boolean }> {
+  return requestJson<{ chunks_deleted: number; storage_deleted: boolean }>(`/api/documents/${encodeURIComponent(docId)}`, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Taxonomy REST API client
+ * Typed wrappers around the backend /api/taxonomy endpoints
+ */
+
+/**
+ * Fetch every node of the active taxonomy version
+ * @returns Taxonomy version and its nodes (flat list; build the tree with buildTaxonomyTree)
+ */
+export async function getTaxonomy(): Promise<{ version: string; nodes: TaxonomyNode[] }> {
+  const body = await requestJson<{ version: string; nodes: TaxonomyNode[] }>("/api/taxonomy");
+  return { version: body.version, nodes: body.nodes };
+}
+
+/**
+ * Search taxonomy nodes by node_id or label
+ * @param query Search text
+ * @param limit Maximum number of results (backend caps it at 100)
+ * @returns Matching nodes
+ */
+export async function searchTaxonomy(query: string, limit = 20): Promise<TaxonomyNode[]> {
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+  const body = await requestJson<{ nodes: TaxonomyNode[] }>(`/api/taxonomy/search?${params.toString()}`);
+  return body.nodes;
+}
+
+/**
+ * Fetch a taxonomy node by ID
+ * @param nodeId Taxonomy node identifier
+ * @returns The node, or null if it does not exist
+ */
+export async function getTaxonomyNode(nodeId: string): Promise<TaxonomyNode | null> {
+  try {
+    const body = await requestJson<{ node: TaxonomyNode }>(
+      `/api/taxonomy/nodes/${encodeURIComponent(nodeId)}`
+    );
+    return body.node;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -21,11 +21,47 @@ export interface DebugInfo {
 
 // Attachment structure for messages
 export interface MessageAttachment {
-  type: "pdf";
+  type: "pdf" | "document"; // "document" for the other uploaded formats (DOCX, HTML, text, Markdown)
   doc_id: string;
   filename: string;
 }
 
+// Document chunk retrieved for a chat turn (returned by POST /api/chat as sources)
+export interface ChatSource {
+  doc_id: string;
+  chunk_index: number;
+  char_start: number | null; // Position of the chunk within its document
+  char_end: number | null;
+  page_start: number | null; // Pages the chunk spans (paged formats only)
+  page_end: number | null;
+  section: string | null; // Title of the section the chunk belongs to
+  file_name: string | null;
+  similarity: number | null; // Cosine similarity (embedded documents), null for keyword matches
+  bm25: number | null; // BM25 keyword score, null for similarity matches
+  content: string; // Chunk text
+  highlights: [number, number][]; // Matched text ranges within content
+}
+
+// Technology guess returned by the pipeline (backend assistant_json / n8n llm)
+export interface TechnologyGuess {
+  technology_guess?: string; // Name of the guessed technology
+  confidence?: number; // Confidence (0-1)
+  why?: string; // Rationale for the guess
+  confirmation_question?: string; // Question asking the analyst to confirm
+  [key: string]: unknown;
+}
+
+// Analyst decision on a technology guess
+export type ConfirmationDecision = "confirm" | "reject" | "refine";
+
+// Structured confirmation posted back to the pipeline
+export interface TechnologyConfirmation {
+  decision: ConfirmationDecision;
+  technology_guess: string; // Guess the decision refers to
+  refinement?: string; // Analyst's correction (only for "refine")
+  decided_at: string; // ISO timestamp
+}
+
 // Chat message structure
 export interface Message {
   id: string; // Unique identifier for the message
@@ -35,6 +71,9 @@ export interface Message {
   status?: MessageStatus; // Status for user messages (sending/success/error)
   debug?: DebugInfo; // Debug information (only for assistant messages with webhook responses)
   attachments?: MessageAttachment[]; // Attachments (e.g., PDF documents)
+  technologyGuess?: TechnologyGuess; // Structured guess rendered as a confirmation card
+  confirmation?: TechnologyConfirmation; // Analyst's decision on technologyGuess
+  sources?: ChatSource[]; // Document chunks the reply was grounded on
 }
 
 // Webhook request payload
@@ -53,3 +92,274 @@ export interface WebhookResponse {
   [key: string]: unknown; // Allow additional fields
 }
 
+
+/**
+ * XRL session types
+ * Mirror schemas/session_schema_v1.json - the session object is the single source of truth
+ */
+
+// Initial raw input from the user
+export interface SessionRawInput {
+  initial_description: string; // Free-text description of the technology
+  source: string; // Source of the input (e.g., "web", "api", "manual")
+}
+
+// Structured onboarding questions and answers
+export interface OnboardingAnswers {
+  scientific_basis: string;
+  primary_applications: string;
+  secondary_applications: string;
+  exclusions: string;
+  example_entities: string[];
+  deployment_layer: string;
+  strategic_focus: string[];
+}
+
+// Selected taxonomy classification (all levels nullable until chosen)
+export interface TaxonomySelection {
+  l1: string | null;
+  l2: string | null;
+  l3: string | null;
+  node_id: string | null;
+}
+
+// Candidate taxonomy classification proposed by the pipeline
+export interface TaxonomyCandidate {
+  node_id: string;
+  l1: string;
+  l2: string | null;
+  l3: string | null;
+  score: number; // 0..1
+  rationale: string;
+  [key: string]: unknown; // Extra pipeline fields
+}
+
+// Node of the backend taxonomy registry (GET /api/taxonomy)
+export interface TaxonomyNode {
+  version: string;
+  node_id: string;
+  parent_node_id: string | null;
+  level: 1 | 2 | 3;
+  label: string;
+  l1: string;
+  l2: string | null;
+  l3: string | null;
+}
+
+// Taxonomy classification results
+export interface SessionClassification {
+  taxonomy_candidates: TaxonomyCandidate[];
+  selected: TaxonomySelection;
+}
+
+// Scoring weights configuration (artifacts.weights, see backend/lib/scoring.js)
+export interface ScoringWeights {
+  version?: number;
+  dimensions: Record<string, { weight: number; metrics: Record<string, number> }>;
+  [key: string]: unknown;
+}
+
+// One input metric (artifacts.metrics[name])
+export interface ScoringMetric {
+  value: number;
+  min: number;
+  max: number;
+  direction?: "higher_is_better" | "lower_is_better";
+}
+
+export type ScoringMetrics = Record<string, ScoringMetric>;
+
+// Contribution of one metric to a dimension score
+export interface MetricScore {
+  value: number;
+  min: number;
+  max: number;
+  direction: "higher_is_better" | "lower_is_better";
+  normalized: number; // 0-100
+  weight: number; // Configured weight
+  effective_weight: number; // Weight after renormalizing over available metrics
+  contribution: number; // normalized * effective_weight
+}
+
+// Score of one dimension
+export interface DimensionScore {
+  score: number | null; // null when none of its metrics is available
+  weight: number;
+  effective_weight: number | null;
+  metrics: Record<string, MetricScore>;
+  missing_metrics: string[];
+}
+
+// Scoring result (artifacts.scores) with the inputs needed to reproduce it
+export interface ScoreResult {
+  engine_version: string;
+  overall: number | null;
+  dimensions: Record<string, DimensionScore>;
+  inputs: { weights: ScoringWeights; metrics: ScoringMetrics };
+  inputs_hash: string; // sha256 of the canonical JSON of inputs
+  computed_at: string; // ISO timestamp
+}
+
+// Generated artifacts from processing stages
+export interface SessionArtifacts {
+  mapping_profile: Record<string, unknown> | null;
+  weights: Record<string, unknown> | null;
+  datasets: Record<string, unknown>;
+  metrics: Record<string, unknown>;
+  scores: Record<string, unknown>;
+}
+
+// Audit trail entry (README logging contract)
+export interface SessionLogEntry {
+  timestamp: string; // ISO timestamp
+  step: string; // Name of the pipeline step
+  description: string; // Human-readable description
+  affected_fields: string[]; // Modified field paths (dot notation)
+  [key: string]: unknown; // Step-specific details
+}
+
+// Full XRL session (session_schema_v1.json)
+export interface Session {
+  version: "v1";
+  session_id: string;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+  status: string; // Current stage of the session pipeline
+  raw_input: SessionRawInput;
+  onboarding_answers: OnboardingAnswers;
+  classification: SessionClassification;
+  artifacts: SessionArtifacts;
+  logs: SessionLogEntry[];
+}
+
+// Partial session accepted by session updates (nested objects are merged one level deep)
+export interface SessionPatch {
+  status?: string;
+  raw_input?: Partial<SessionRawInput>;
+  onboarding_answers?: Partial<OnboardingAnswers>;
+  classification?: Partial<SessionClassification>;
+  artifacts?: Partial<SessionArtifacts>;
+  logs?: SessionLogEntry[];
+}
+
+/**
+ * VUK (Validated Unit of Knowledge) types
+ * Mirror schemas/vuk_schema_v1.json
+ */
+
+// Technology information
+export interface VukTechnology {
+  name: string;
+  one_liner: string;
+  description: string;
+  keywords: string[];
+  exclusions: string[];
+}
+
+// Taxonomy classification
+export interface VukTaxonomy {
+  l1: string;
+  l2: string;
+  l3: string;
+  node_id: string;
+}
+
+// Technology Readiness Level
+export interface VukTrl {
+  value: number | null; // 1-9
+  rationale: string;
+  evidence_refs: string[];
+}
+
+// Confidence assessment
+export interface VukConfidence {
+  value: number | null; // 0-100
+  rationale: string;
+}
+
+// Audit and approval information
+export interface VukAudit {
+  approved: boolean;
+  approved_by: string | null;
+  approved_at: string | null; // ISO timestamp
+}
+
+// One piece of TRL evidence proposed by the assessment
+export interface TrlEvidence {
+  ref: string; // "<doc_id>#<chunk_index>:<char_start>-<char_end>"
+  level: number; // Rubric level the passage supports
+  indicator: string; // Rubric phrase found in the passage
+  passage: string;
+  file_name: string | null;
+}
+
+// TRL proposed by POST /api/vuks/:id/trl-assessment
+export interface TrlAssessment {
+  value: number | null; // null when no evidence was found
+  rationale: string;
+  evidence_refs: string[];
+  evidence: TrlEvidence[];
+}
+
+// Chunk of an uploaded document (document_chunks table)
+export interface DocumentChunk {
+  doc_id: string;
+  chunk_index: number;
+  content: string;
+  metadata_json: Record<string, unknown>;
+  file_name: string | null;
+}
+
+// Uploaded document as listed in the session document library
+export interface SessionDocument {
+  doc_id: string;
+  file_name: string;
+  mime_type: string;
+  status: string; // "uploaded" or "chunked"
+  created_at: string; // ISO timestamp
+  session_id: string | null;
+  size_bytes: number | null;
+  chunks_count: number;
+  text_extraction: string | null; // "ok", "ocr" (scanned pages OCR'd), "failed_or_empty", or null while unknown
+  ocr_pages: number; // Number of OCR'd pages
+  ocr_confidence: number | null; // Mean OCR confidence of those pages (0-100)
+  embedding_model: string | null; // Model the chunks were embedded with (semantic retrieval), if any
+  chunk_error: string | null;
+  storage_path?: string; // Only when fetched individually
+  metadata_json?: Record<string, unknown>; // Only when fetched individually
+}
+
+// VUK review workflow status
+export type VukStatus = "draft" | "in_review" | "approved" | "rejected";
+
+// Review workflow action accepted by POST /api/vuks/:id/transitions
+export type VukAction = "submit" | "withdraw" | "approve" | "reject" | "reopen";
+
+// Full VUK (vuk_schema_v1.json)
+export interface Vuk {
+  schema_version: "v1";
+  vuk_id: string;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+  created_from_session_id: string;
+  status: VukStatus; // "draft" until submitted for review
+  technology: VukTechnology;
+  taxonomy: VukTaxonomy;
+  trl: VukTrl;
+  mapping_profile_ref: string | null;
+  scores: Record<string, unknown>;
+  confidence: VukConfidence;
+  audit: VukAudit;
+  logs: SessionLogEntry[];
+}
+
+// Partial VUK accepted by VUK updates (nested objects are merged one level deep)
+export interface VukPatch {
+  technology?: Partial<VukTechnology>;
+  taxonomy?: Partial<VukTaxonomy>;
+  trl?: Partial<VukTrl>;
+  confidence?: Partial<VukConfidence>;
+  mapping_profile_ref?: string | null;
+  scores?: Record<string, unknown>;
+  logs?: SessionLogEntry[];
+}
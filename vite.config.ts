@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -7,6 +8,10 @@ export default defineConfig({
   server: {
     port: 3000,
     open: true
+  },
+  // Frontend unit tests (backend tests run with node --test in backend/)
+  test: {
+    include: ['src/**/*.test.ts']
   }
 })
 